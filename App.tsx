@@ -3,59 +3,152 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { generateImageFromText, generateImageFromImageAndText } from './services/geminiService';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import { getImageProvider } from './services/imageProvider';
 import Header from './components/Header';
-import Spinner from './components/Spinner';
-import { UploadIcon, HistoryIcon, XCircleIcon, DownloadIcon, ImageIcon, MagicWandIcon, PaletteIcon, ArrowsPointingOutIcon, RectangleGroupIcon } from './components/icons';
+import UpdateBanner from './components/UpdateBanner';
+import LibraryGallery from './components/LibraryGallery';
+import HistoryTimeline from './components/HistoryTimeline';
+import EditorCanvas, { EditorCanvasHandle, MaskTool } from './components/EditorCanvas';
+import ToolOptions from './components/ToolOptions';
+import CropPanel from './components/CropPanel';
+import AdjustmentPanel from './components/AdjustmentPanel';
+import FilterPanel from './components/FilterPanel';
+import ExportDialog from './components/ExportDialog';
+import JobsDrawer, { MAX_CONCURRENCY } from './components/JobsDrawer';
+import ErrorBanner from './components/ErrorBanner';
+import ImageUploader from './components/ImageUploader';
+import ProductSelector from './components/ProductSelector';
+import AddProductModal from './components/AddProductModal';
+import PlacementPanel from './components/PlacementPanel';
+import ComparisonView from './components/ComparisonView';
+import ImageViewer from './components/ImageViewer';
+import PromptLibrary from './components/PromptLibrary';
+import TemplateForm from './components/TemplateForm';
+import UpscalePanel from './components/UpscalePanel';
+import OutpaintPanel from './components/OutpaintPanel';
+import UsageDashboard from './components/UsageDashboard';
+import DebugModal from './components/DebugModal';
+import SettingsModal from './components/SettingsModal';
+import LayerEditor from './components/LayerEditor';
+import StartScreen from './components/StartScreen';
+import { StarIcon, ArrowsRightLeftIcon, DownloadIcon, ImageIcon, MagicWandIcon, RectangleGroupIcon, SignalSlashIcon, Squares2x2Icon, PaintBrushIcon, CropIcon, AdjustmentsHorizontalIcon, Square3Stack3DIcon } from './components/icons';
+import { onUpdateAvailable, applyUpdate, onInstallAvailable, promptInstall } from './services/pwaService';
+import { addImage, listImages, deleteImages, exportImages, updateImageLayers } from './services/libraryService';
+import { flattenLayers, hasVisibleLayers } from './services/layerService';
+import { generateFilterThumbnail } from './services/filterService';
+import { takeCalls, withBudgetWarning } from './services/usageService';
+import { getApiKey, getSettings } from './services/settingsService';
+import { upscaleLocally, upscaleWithTiles, UpscaleFactor, UpscaleMethod } from './services/upscaleService';
+import { outpaintImage, describeExtension, CanvasExtension } from './services/outpaintService';
+import { openProject } from './services/projectService';
+import { listProducts, deleteProduct, placeProduct, placeProductAsLayer, describePlacement, Placement } from './services/productService';
+import {
+    listPrompts, deletePrompt, savePrompt, upsertPrompt, recordPromptUse, templateVariables, fillTemplate, expandTemplate, countExpansions,
+    MAX_PROMPT_BATCH,
+} from './services/promptService';
+import { createJobQueue, isAbortError, Job } from './services/jobQueue';
+import { ImageServiceError } from './services/errors';
+import { blobToDataUrl, alphaMaskToBlackAndWhite, compositeWithMask } from './services/imageUtils';
+import { buildHistoryGraph, getLineage, getTimeline, getUndoTarget, getRedoTarget, preferLineage, PreferredChildren } from './services/historyService';
+import type { AspectRatio, GenerationMetadata, ImageOperation, Layer, LibraryImage, Product, Project, ReferenceImage, SavedPrompt } from './types';
+const imageProvider = withBudgetWarning(getImageProvider());
 
-type AspectRatio = '1:1' | '16:9' | '9:16' | '4:3' | '3:4';
-const aspectRatios: { name: string, value: AspectRatio }[] = [
+const allAspectRatios: { name: string, value: AspectRatio }[] = [
     { name: '1:1', value: '1:1' },
     { name: '16:9', value: '16:9' },
     { name: '9:16', value: '9:16' },
     { name: '4:3', value: '4:3' },
     { name: '3:4', value: '3:4' },
 ];
+const aspectRatios = allAspectRatios.filter(({ value }) => imageProvider.capabilities.aspectRatios.includes(value));
 
-const filters = [
-    { name: 'Vintage', prompt: 'Apply a vintage, retro film filter. Give it a warm, faded look with slight grain.' },
-    { name: 'B&W', prompt: 'Convert this to a high-contrast, dramatic black and white.' },
-    { name: 'Vibrant', prompt: 'Enhance the colors to be more vibrant and saturated. Make it pop.' },
-    { name: 'Cinematic', prompt: 'Give this a cinematic look with teal and orange color grading.' },
-];
+// The generate panel starts from the defaults in settings, where the provider supports them.
+const initialDefaults = getSettings().defaults;
+const initialAspectRatio = imageProvider.capabilities.aspectRatios.includes(initialDefaults.aspectRatio) ? initialDefaults.aspectRatio : aspectRatios[0].value;
+const initialNumberOfImages = Math.min(initialDefaults.numberOfImages, imageProvider.capabilities.maxImages);
+
+// How many provider requests run at once; the rest wait in the jobs drawer.
+const CONCURRENCY_STORAGE_KEY = 'jobConcurrency';
+const DEFAULT_CONCURRENCY = 2;
+const initialConcurrency = Math.min(MAX_CONCURRENCY, Number(localStorage.getItem(CONCURRENCY_STORAGE_KEY)) || DEFAULT_CONCURRENCY);
+const jobQueue = createJobQueue<LibraryImage[]>(initialConcurrency);
+
+// What a request's results are saved as in the library. Without layers of their own, results
+// keep the layers of the image they were made from, if the operation keeps its framing.
+type ResultDetails = {
+    prompt: string;
+    operation: ImageOperation;
+    aspectRatio?: AspectRatio;
+    parentId?: string | null;
+    generation?: GenerationMetadata[];
+    layers?: Layer[];
+};
+
+// Operations whose results line up with the image they were made from, so its layers still
+// sit in the right place. Crops, orientation changes and outpaints work on the flattened image.
+const LAYER_KEEPING_OPERATIONS = new Set<ImageOperation>(['adjust', 'filter', 'upscale', 'edit', 'inpaint', 'place']);
+
+// What the canvas is currently showing: the plain image, or one of the local editing tools.
+type EditorMode = 'view' | 'mask' | 'crop' | 'adjust' | 'place' | 'compare' | 'outpaint' | 'layers';
 
 type ControlPanelProps = {
     prompt: string;
     setPrompt: (value: string) => void;
     aspectRatio: AspectRatio;
     setAspectRatio: (value: AspectRatio) => void;
-    isLoading: boolean;
-    promptHistory: string[];
-    uploadedImage: File | null;
+    numberOfImages: number;
+    setNumberOfImages: (value: number) => void;
+    isOffline: boolean;
+    savedPrompts: SavedPrompt[];
+    handleStarCurrentPrompt: () => void;
+    handleToggleStar: (prompt: SavedPrompt) => void;
+    handleUpdatePromptTags: (prompt: SavedPrompt, tags: string[]) => void;
+    handleDeletePrompt: (prompt: SavedPrompt) => void;
+    promptVariables: string[];
+    templateValues: Record<string, string>;
+    setTemplateValues: (values: Record<string, string>) => void;
+    isWildcardMode: boolean;
+    setIsWildcardMode: (isWildcard: boolean) => void;
+    referenceImages: ReferenceImage[];
+    setReferenceImages: (images: ReferenceImage[]) => void;
+    maxReferenceImages: number;
     handleGenerate: () => void;
     isUploadPanelOpen: boolean;
     setIsUploadPanelOpen: (isOpen: boolean) => void;
-    handleImageUpload: (e: React.ChangeEvent<HTMLInputElement>) => void;
-    handleRemoveUploadedImage: () => void;
-    fileInputRef: React.RefObject<HTMLInputElement>;
-    uploadedImageUrl: string | null;
     activeImageUrl: string | null;
     editPrompt: string;
     setEditPrompt: (value: string) => void;
     handleEditWithPrompt: () => void;
-    handleUpscale: () => void;
+    editorMode: EditorMode;
+    setEditorMode: (mode: EditorMode) => void;
+    hasMask: boolean;
+    handleUpscale: (method: UpscaleMethod, factor: UpscaleFactor) => void;
     handleApplyFilter: (filterPrompt: string) => void;
-    handleChangeAspectRatio: (newAspectRatio: AspectRatio) => void;
+    handleGenerateFilterPreview: ((filterPrompt: string) => Promise<string>) | null;
+    products: Product[];
+    selectedProduct: Product | null;
+    setSelectedProduct: (product: Product | null) => void;
+    openAddProduct: () => void;
+    handleDeleteProduct: (product: Product) => void;
 };
 
 const ControlPanel: React.FC<ControlPanelProps> = React.memo(({
-    prompt, setPrompt, aspectRatio, setAspectRatio, isLoading, promptHistory, uploadedImage, handleGenerate,
-    isUploadPanelOpen, setIsUploadPanelOpen, handleImageUpload, handleRemoveUploadedImage, fileInputRef,
-    uploadedImageUrl, activeImageUrl, editPrompt, setEditPrompt, handleEditWithPrompt, handleUpscale,
-    handleApplyFilter, handleChangeAspectRatio
+    prompt, setPrompt, aspectRatio, setAspectRatio, numberOfImages, setNumberOfImages, isOffline, referenceImages, setReferenceImages,
+    savedPrompts, handleStarCurrentPrompt, handleToggleStar, handleUpdatePromptTags, handleDeletePrompt,
+    promptVariables, templateValues, setTemplateValues, isWildcardMode, setIsWildcardMode,
+    maxReferenceImages, handleGenerate, isUploadPanelOpen, setIsUploadPanelOpen, activeImageUrl, editPrompt, setEditPrompt, handleEditWithPrompt, editorMode, setEditorMode, hasMask, handleUpscale,
+    handleApplyFilter, handleGenerateFilterPreview,
+    products, selectedProduct, setSelectedProduct, openAddProduct, handleDeleteProduct
 }) => (
+
     <div className="w-full md:w-96 bg-gray-800/50 backdrop-blur-lg border border-gray-700 rounded-2xl p-6 flex flex-col gap-6 text-gray-200 shadow-2xl">
+        {isOffline && (
+            <div className="flex items-start gap-3 bg-gray-900/70 border border-gray-600 rounded-lg p-3 text-sm text-gray-300" role="status">
+                <SignalSlashIcon className="w-5 h-5 flex-shrink-0 text-yellow-400" />
+                <span>You're offline. Generating and editing need a connection and are paused until you're back online.</span>
+            </div>
+        )}
         <div className="flex flex-col gap-6">
             {/* Prompt Section */}
             <div className="flex flex-col gap-2 relative">
@@ -64,14 +157,27 @@ const ControlPanel: React.FC<ControlPanelProps> = React.memo(({
                         <MagicWandIcon className="w-5 h-5" />
                         Prompt
                     </label>
-                    <button 
-                        type="button" 
-                        onClick={() => setIsUploadPanelOpen(!isUploadPanelOpen)}
-                        className="text-xs font-semibold text-yellow-400 hover:text-yellow-300 transition-colors flex items-center gap-1"
-                    >
-                        <ImageIcon className="w-4 h-4"/>
-                        {uploadedImage ? "Using Image" : "Add Image"}
-                    </button>
+                    <div className="flex items-center gap-3">
+                        <button
+                            type="button"
+                            onClick={handleStarCurrentPrompt}
+                            disabled={!prompt.trim()}
+                            className="text-xs font-semibold text-gray-400 hover:text-yellow-300 transition-colors flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            <StarIcon className="w-4 h-4" filled={savedPrompts.some(saved => saved.starred && saved.text === prompt.trim())} />
+                            Save
+                        </button>
+                        <button 
+                            type="button" 
+                            onClick={() => setIsUploadPanelOpen(!isUploadPanelOpen)}
+                            className="text-xs font-semibold text-yellow-400 hover:text-yellow-300 transition-colors flex items-center gap-1"
+                        >
+                            <ImageIcon className="w-4 h-4"/>
+                            {referenceImages.length > 0
+                                ? `Using ${referenceImages.length} Image${referenceImages.length === 1 ? '' : 's'}`
+                                : "Add Images"}
+                        </button>
+                    </div>
                 </div>
                 <textarea
                     id="prompt"
@@ -86,40 +192,19 @@ const ControlPanel: React.FC<ControlPanelProps> = React.memo(({
                     placeholder="A futuristic cityscape at sunset..."
                     rows={4}
                     className="bg-gray-900/70 border border-gray-700 rounded-lg p-3 focus:ring-2 focus:ring-yellow-500 focus:border-yellow-500 transition w-full resize-none placeholder:text-gray-500"
-                    disabled={isLoading}
                 />
+                {promptVariables.length > 0 && (
+                    <TemplateForm
+                        variables={promptVariables}
+                        values={templateValues}
+                        onChange={setTemplateValues}
+                        isWildcard={isWildcardMode}
+                        setIsWildcard={setIsWildcardMode}
+                        expansionCount={countExpansions(prompt, templateValues)}
+                    />
+                )}
                 {isUploadPanelOpen && (
-                    <div className="border border-dashed border-gray-600 rounded-lg p-4 mt-2 text-center">
-                        <input
-                            type="file"
-                            accept="image/*"
-                            onChange={handleImageUpload}
-                            ref={fileInputRef}
-                            className="hidden"
-                        />
-                        {uploadedImageUrl ? (
-                            <div className="relative group">
-                                <img src={uploadedImageUrl} alt="Uploaded preview" className="rounded-md max-h-32 mx-auto" />
-                                <button
-                                    onClick={handleRemoveUploadedImage}
-                                    className="absolute top-1 right-1 bg-black/50 rounded-full p-1 text-white hover:bg-black/80 transition"
-                                    aria-label="Remove image"
-                                >
-                                    <XCircleIcon className="w-5 h-5" />
-                                </button>
-                            </div>
-                        ) : (
-                            <button
-                                onClick={() => fileInputRef.current?.click()}
-                                className="flex flex-col items-center justify-center gap-2 text-gray-400 hover:text-yellow-400 transition-colors w-full"
-                                disabled={isLoading}
-                            >
-                                <UploadIcon className="w-8 h-8" />
-                                <span className="text-sm font-semibold">Click to upload an image</span>
-                                <span className="text-xs">PNG, JPG, WEBP</span>
-                            </button>
-                        )}
-                    </div>
+                    <ImageUploader images={referenceImages} onChange={setReferenceImages} maxImages={maxReferenceImages} />
                 )}
             </div>
 
@@ -147,37 +232,56 @@ const ControlPanel: React.FC<ControlPanelProps> = React.memo(({
                 </div>
             </div>
 
-            {/* Prompt History */}
-            {promptHistory.length > 0 && (
+            {/* Variants */}
+            {imageProvider.capabilities.maxImages > 1 && (
                 <div className="flex flex-col gap-2">
                     <label className="font-semibold text-gray-100 flex items-center gap-2">
-                        <HistoryIcon className="w-5 h-5" />
-                        History
+                        <Squares2x2Icon className="w-5 h-5" />
+                        Variants
                     </label>
-                    <div className="flex flex-wrap gap-2">
-                        {promptHistory.map((p, i) => (
+                    <div className="grid grid-cols-4 gap-2">
+                        {Array.from({ length: imageProvider.capabilities.maxImages }, (_, i) => i + 1).map(count => (
                             <button
-                                key={i}
-                                onClick={() => setPrompt(p)}
-                                className="bg-gray-700/50 text-gray-300 hover:bg-gray-700 text-xs px-2 py-1 rounded-full transition-colors"
+                                key={count}
+                                type="button"
+                                onClick={() => setNumberOfImages(count)}
+                                className={`px-3 py-2 text-sm font-semibold rounded-md transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-offset-gray-900 focus-visible:ring-yellow-500 ${
+                                    numberOfImages === count
+                                        ? 'bg-yellow-500 text-gray-900 shadow-sm'
+                                        : 'bg-gray-700/50 text-gray-300 hover:bg-gray-700'
+                                }`}
                             >
-                                {p.length > 20 ? `${p.substring(0, 20)}...` : p}
+                                {count}
                             </button>
                         ))}
                     </div>
                 </div>
             )}
+
+            {/* Prompt Library */}
+            <PromptLibrary
+                prompts={savedPrompts}
+                onUse={setPrompt}
+                onToggleStar={handleToggleStar}
+                onUpdateTags={handleUpdatePromptTags}
+                onDelete={handleDeletePrompt}
+            />
         </div>
 
         {/* Actions */}
         <div className="mt-auto flex flex-col gap-6 pt-6 border-t border-gray-700/50">
             <button
                 onClick={handleGenerate}
-                disabled={isLoading || (!prompt.trim() && !uploadedImage)}
+                disabled={isOffline || (!prompt.trim() && referenceImages.length === 0)}
                 className="w-full bg-yellow-500 text-gray-900 font-bold py-3 px-4 rounded-lg hover:bg-yellow-400 transition-all duration-300 disabled:bg-gray-600 disabled:cursor-not-allowed flex items-center justify-center gap-2 shadow-lg hover:shadow-yellow-500/30"
             >
-                {isLoading ? <Spinner /> : 'Generate'}
+                {isOffline ? 'Offline' : 'Generate'}
             </button>
+            {imageProvider.id !== 'gemini' && (
+                <p className="-mt-4 text-xs text-center text-gray-400">
+                    Using the <span className="font-semibold text-yellow-400">{imageProvider.name}</span> provider
+                </p>
+            )}
             
             {/* Edit Panel */}
             <div className={`flex flex-col gap-4 transition-opacity duration-300 ${!activeImageUrl ? 'opacity-50 pointer-events-none' : ''}`}>
@@ -185,9 +289,20 @@ const ControlPanel: React.FC<ControlPanelProps> = React.memo(({
                 
                 {/* Edit Prompt */}
                 <div className="flex flex-col gap-2">
-                    <label htmlFor="edit-prompt" className="text-sm font-semibold text-gray-100 flex items-center gap-2">
-                       <MagicWandIcon className="w-4 h-4"/> Edit with Prompt
-                    </label>
+                    <div className="flex justify-between items-center">
+                        <label htmlFor="edit-prompt" className="text-sm font-semibold text-gray-100 flex items-center gap-2">
+                           <MagicWandIcon className="w-4 h-4"/> Edit with Prompt
+                        </label>
+                        <button
+                            type="button"
+                            onClick={() => setEditorMode(editorMode === 'mask' ? 'view' : 'mask')}
+                            disabled={!activeImageUrl}
+                            className={`text-xs font-semibold flex items-center gap-1 transition-colors disabled:opacity-50 ${editorMode === 'mask' ? 'text-yellow-400 hover:text-yellow-300' : 'text-gray-400 hover:text-gray-200'}`}
+                        >
+                            <PaintBrushIcon className="w-4 h-4"/>
+                            {editorMode === 'mask' ? 'Masking' : 'Paint Mask'}
+                        </button>
+                    </div>
                     <div className="flex gap-2">
                         <input
                             id="edit-prompt"
@@ -200,71 +315,109 @@ const ControlPanel: React.FC<ControlPanelProps> = React.memo(({
                                     handleEditWithPrompt();
                                 }
                             }}
-                            placeholder="Add a hat to the person..."
+                            placeholder={editorMode === 'mask' ? "Replace the masked area with..." : "Add a hat to the person..."}
                             className="flex-grow bg-gray-900/70 border border-gray-700 rounded-lg p-2 focus:ring-2 focus:ring-yellow-500 focus:border-yellow-500 transition w-full placeholder:text-gray-500"
-                            disabled={isLoading || !activeImageUrl}
+                            disabled={!activeImageUrl}
                         />
                         <button 
                             onClick={handleEditWithPrompt} 
-                            disabled={isLoading || !activeImageUrl || !editPrompt.trim()}
+                            disabled={isOffline || !activeImageUrl || !editPrompt.trim() || (editorMode === 'mask' && !hasMask)}
                             className="bg-yellow-500/20 text-yellow-300 px-3 rounded-lg hover:bg-yellow-500/40 transition-colors disabled:opacity-50 disabled:cursor-not-allowed font-semibold"
                         >
                             Apply
                         </button>
                     </div>
+                    {editorMode === 'mask' && (
+                        <p className="text-xs text-gray-400">
+                            {hasMask ? 'Only the painted area will change.' : 'Paint over the part of the image you want to change.'}
+                        </p>
+                    )}
                 </div>
 
-                {/* Upscale */}
-                 <div className="flex flex-col gap-2">
+                {/* Product Placement */}
+                <ProductSelector
+                    products={products}
+                    selectedProduct={selectedProduct}
+                    onSelect={setSelectedProduct}
+                    onAdd={openAddProduct}
+                    onDelete={handleDeleteProduct}
+                    canPlace={!isOffline && !!activeImageUrl && imageProvider.capabilities.maxReferenceImages >= 2}
+                    isPlacing={editorMode === 'place'}
+                    onTogglePlacement={() => setEditorMode(editorMode === 'place' ? 'view' : 'place')}
+                />
+
+                {/* Layers */}
+                <div className="flex flex-col gap-2">
                     <label className="text-sm font-semibold text-gray-100 flex items-center gap-2">
-                       <ArrowsPointingOutIcon className="w-4 h-4"/> Upscale
+                       <Square3Stack3DIcon className="w-4 h-4"/> Layers
                     </label>
-                    <button 
-                        onClick={handleUpscale} 
-                        disabled={isLoading || !activeImageUrl}
-                        className="w-full bg-gray-700/50 text-gray-300 font-semibold py-2 px-4 rounded-lg hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                    <button
+                        onClick={() => setEditorMode(editorMode === 'layers' ? 'view' : 'layers')}
+                        disabled={!activeImageUrl}
+                        className={`w-full font-semibold py-2 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 ${
+                            editorMode === 'layers' ? 'bg-yellow-500/20 text-yellow-300 hover:bg-yellow-500/40' : 'bg-gray-700/50 text-gray-300 hover:bg-gray-700'
+                        }`}
                     >
-                        Enhance Resolution
+                        {editorMode === 'layers' ? 'Close Layers' : 'Text, Objects & Adjustments'}
                     </button>
                 </div>
 
-                {/* Filters */}
+                {/* Crop & Rotate */}
                 <div className="flex flex-col gap-2">
                     <label className="text-sm font-semibold text-gray-100 flex items-center gap-2">
-                       <PaletteIcon className="w-4 h-4"/> Artistic Filters
+                       <CropIcon className="w-4 h-4"/> Crop & Rotate
                     </label>
-                    <div className="grid grid-cols-2 gap-2">
-                        {filters.map(filter => (
-                            <button 
-                                key={filter.name}
-                                onClick={() => handleApplyFilter(filter.prompt)} 
-                                disabled={isLoading || !activeImageUrl}
-                                className="bg-gray-700/50 text-gray-300 font-semibold py-2 px-4 rounded-lg hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm"
-                            >
-                                {filter.name}
-                            </button>
-                        ))}
-                    </div>
+                    <button
+                        onClick={() => setEditorMode(editorMode === 'crop' ? 'view' : 'crop')}
+                        disabled={!activeImageUrl}
+                        className={`w-full font-semibold py-2 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 ${
+                            editorMode === 'crop' ? 'bg-yellow-500/20 text-yellow-300 hover:bg-yellow-500/40' : 'bg-gray-700/50 text-gray-300 hover:bg-gray-700'
+                        }`}
+                    >
+                        {editorMode === 'crop' ? 'Close Crop Tools' : 'Crop, Rotate & Flip'}
+                    </button>
                 </div>
+
+                {/* Adjustments */}
+                <div className="flex flex-col gap-2">
+                    <label className="text-sm font-semibold text-gray-100 flex items-center gap-2">
+                       <AdjustmentsHorizontalIcon className="w-4 h-4"/> Adjustments
+                    </label>
+                    <button
+                        onClick={() => setEditorMode(editorMode === 'adjust' ? 'view' : 'adjust')}
+                        disabled={!activeImageUrl}
+                        className={`w-full font-semibold py-2 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 ${
+                            editorMode === 'adjust' ? 'bg-yellow-500/20 text-yellow-300 hover:bg-yellow-500/40' : 'bg-gray-700/50 text-gray-300 hover:bg-gray-700'
+                        }`}
+                    >
+                        {editorMode === 'adjust' ? 'Close Adjustments' : 'Exposure, Color & Detail'}
+                    </button>
+                </div>
+
+                {/* Upscale */}
+                <UpscalePanel imageUrl={activeImageUrl} canUseProvider={!isOffline} onUpscale={handleUpscale} />
+
+                {/* Filters */}
+                <FilterPanel
+                    canApply={!isOffline && !!activeImageUrl}
+                    onApply={handleApplyFilter}
+                    onGeneratePreview={handleGenerateFilterPreview}
+                />
                 
-                {/* Change Aspect Ratio */}
+                {/* Expand Canvas */}
                 <div className="flex flex-col gap-2">
                     <label className="text-sm font-semibold text-gray-100 flex items-center gap-2">
-                       <RectangleGroupIcon className="w-4 h-4"/> Change Aspect Ratio
+                       <RectangleGroupIcon className="w-4 h-4"/> Expand Canvas
                     </label>
-                    <div className="grid grid-cols-5 gap-2">
-                       {aspectRatios.map(({ value }) => (
-                            <button
-                                key={`edit-${value}`}
-                                type="button"
-                                onClick={() => handleChangeAspectRatio(value)}
-                                disabled={isLoading || !activeImageUrl}
-                                className="px-3 py-2 text-sm font-semibold rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-offset-gray-900 focus-visible:ring-yellow-500 bg-gray-700/50 text-gray-300 hover:bg-gray-700 enabled:hover:bg-gray-600"
-                            >
-                                {value}
-                            </button>
-                        ))}
-                    </div>
+                    <button
+                        onClick={() => setEditorMode(editorMode === 'outpaint' ? 'view' : 'outpaint')}
+                        disabled={!activeImageUrl}
+                        className={`w-full font-semibold py-2 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 ${
+                            editorMode === 'outpaint' ? 'bg-yellow-500/20 text-yellow-300 hover:bg-yellow-500/40' : 'bg-gray-700/50 text-gray-300 hover:bg-gray-700'
+                        }`}
+                    >
+                        {editorMode === 'outpaint' ? 'Close Outpainting' : 'Outpaint & Change Ratio'}
+                    </button>
                 </div>
             </div>
         </div>
@@ -272,48 +425,213 @@ const ControlPanel: React.FC<ControlPanelProps> = React.memo(({
 ));
 
 type CanvasProps = {
-    isLoading: boolean;
-    loadingMessage: string;
-    error: string | null;
-    setError: (error: string | null) => void;
+    error: string | ImageServiceError | null;
+    retryFailedJob: (() => void) | null;
+    dismissError: () => void;
+    handleOpenDebug: () => void;
+    handleOpenSettings: () => void;
     activeImageUrl: string | null;
-    handleDownload: (imageUrl: string) => void;
+    activeImageId: string | null;
+    /** The active image with its layers flattened into it, or null if it has none showing. */
+    compositeUrl: string | null;
+    /** The active image as tools that cannot keep layers see it, or null while the layers are flattened. */
+    flattenedImageUrl: string | null;
+    /** Why the layers could not be flattened. */
+    compositeError: string | null;
+    activeLayers: Layer[];
+    handleChangeLayers: (imageId: string, layers: Layer[]) => void;
+    handleOpenExport: () => void;
+    variants: { id: string; url: string }[];
+    isVariantGridOpen: boolean;
+    setIsVariantGridOpen: (isOpen: boolean) => void;
+    handleSelectVariant: (id: string) => void;
+    canGenerateMore: boolean;
+    handleMoreLikeThis: (id: string) => void;
+    editorMode: EditorMode;
+    setEditorMode: (mode: EditorMode) => void;
+    handleApplyCrop: (dataUrl: string, description: string, aspectRatio?: AspectRatio) => void;
+    handleApplyAdjustments: (dataUrl: string, description: string) => void;
+    selectedProduct: Product | null;
+    canPlaceProduct: boolean;
+    handlePlaceProduct: (placement: Placement, note: string, asLayer: boolean) => void;
+    canOutpaint: boolean;
+    handleOutpaint: (extension: CanvasExtension, prompt: string) => void;
+    timeline: LibraryImage[];
+    libraryImages: LibraryImage[];
+    /** The image to compare the active one against by default, usually the one it was made from. */
+    comparisonBaseId: string | null;
+    editorRef: React.RefObject<EditorCanvasHandle>;
+    maskTool: MaskTool;
+    setMaskTool: (tool: MaskTool) => void;
+    brushSize: number;
+    setBrushSize: (size: number) => void;
+    setHasMask: (hasMask: boolean) => void;
 };
 
-const Canvas: React.FC<CanvasProps> = React.memo(({ isLoading, loadingMessage, error, setError, activeImageUrl, handleDownload }) => (
+const Canvas: React.FC<CanvasProps> = React.memo(({
+    error, retryFailedJob, dismissError, handleOpenDebug, handleOpenSettings, activeImageUrl, activeImageId, compositeUrl, flattenedImageUrl, compositeError,
+    activeLayers, handleChangeLayers, handleOpenExport, variants, isVariantGridOpen, setIsVariantGridOpen, handleSelectVariant, canGenerateMore, handleMoreLikeThis,
+    editorMode, setEditorMode, handleApplyCrop, handleApplyAdjustments, selectedProduct, canPlaceProduct, handlePlaceProduct,
+    canOutpaint, handleOutpaint, timeline, libraryImages, comparisonBaseId, editorRef, maskTool, setMaskTool, brushSize, setBrushSize, setHasMask
+}) => (
     <div className="flex-1 flex flex-col items-center justify-center p-4 md:p-8 relative">
-        {isLoading && (
-            <div className="absolute inset-0 bg-black/50 backdrop-blur-sm flex flex-col items-center justify-center z-10 rounded-2xl">
-                <Spinner />
-                <p className="mt-4 text-white text-lg font-semibold animate-pulse">{loadingMessage}</p>
-            </div>
-        )}
-        
-        {error && (
-            <div className="absolute top-8 max-w-lg w-full bg-red-500/20 border border-red-500 text-red-200 px-4 py-3 rounded-lg z-20" role="alert">
-                <strong className="font-bold">Error: </strong>
-                <span className="block sm:inline">{error}</span>
-                <button onClick={() => setError(null)} className="absolute top-0 bottom-0 right-0 px-4 py-3" aria-label="Close">
-                    <XCircleIcon className="w-6 h-6"/>
-                </button>
-            </div>
-        )}
+        {error && <ErrorBanner error={error} onRetry={retryFailedJob} onDismiss={dismissError} onInspect={handleOpenDebug} onOpenSettings={handleOpenSettings} />}
 
         <div className="w-full h-full max-w-4xl max-h-[80vh] flex flex-col items-center justify-center bg-gray-900/50 border border-dashed border-gray-700 rounded-2xl overflow-hidden">
-            {activeImageUrl ? (
-                <div className="relative w-full h-full flex flex-col items-center justify-center p-4">
-                    <img 
-                        src={activeImageUrl} 
-                        alt="Generated art" 
-                        className="max-w-full max-h-[calc(100%-60px)] object-contain rounded-lg"
-                    />
-                    <button
-                        onClick={() => handleDownload(activeImageUrl)}
-                        className="mt-4 bg-yellow-500 text-gray-900 font-bold py-2 px-6 rounded-lg hover:bg-yellow-400 transition-all duration-300 flex items-center justify-center gap-2 shadow-lg hover:shadow-yellow-500/30"
-                    >
-                       <DownloadIcon className="w-5 h-5"/> Download
+            {editorMode === 'crop' && flattenedImageUrl ? (
+                <CropPanel
+                    key={flattenedImageUrl}
+                    imageUrl={flattenedImageUrl}
+                    onApply={handleApplyCrop}
+                    onCancel={() => setEditorMode('view')}
+                />
+            ) : editorMode === 'adjust' && activeImageUrl ? (
+                <AdjustmentPanel
+                    key={activeImageUrl}
+                    imageUrl={activeImageUrl}
+                    onApply={handleApplyAdjustments}
+                    onCancel={() => setEditorMode('view')}
+                />
+            ) : editorMode === 'compare' && activeImageId && comparisonBaseId ? (
+                <ComparisonView
+                    key={activeImageId}
+                    history={timeline}
+                    library={libraryImages}
+                    initialBeforeId={comparisonBaseId}
+                    initialAfterId={activeImageId}
+                    onClose={() => setEditorMode('view')}
+                />
+            ) : editorMode === 'place' && activeImageUrl && selectedProduct ? (
+                <PlacementPanel
+                    key={`${activeImageUrl}-${selectedProduct.id}`}
+                    imageUrl={activeImageUrl}
+                    product={selectedProduct}
+                    canPlace={canPlaceProduct}
+                    onPlace={handlePlaceProduct}
+                    onCancel={() => setEditorMode('view')}
+                />
+            ) : editorMode === 'layers' && activeImageUrl && activeImageId ? (
+                <LayerEditor
+                    key={activeImageId}
+                    imageUrl={activeImageUrl}
+                    layers={activeLayers}
+                    product={selectedProduct}
+                    onChange={layers => handleChangeLayers(activeImageId, layers)}
+                    onDone={() => setEditorMode('view')}
+                />
+            ) : editorMode === 'outpaint' && flattenedImageUrl ? (
+                <OutpaintPanel
+                    key={flattenedImageUrl}
+                    imageUrl={flattenedImageUrl}
+                    canOutpaint={canOutpaint}
+                    onOutpaint={handleOutpaint}
+                    onCancel={() => setEditorMode('view')}
+                />
+            ) : (editorMode === 'crop' || editorMode === 'outpaint') && activeImageUrl ? (
+                <div className="flex flex-col items-center gap-3 p-4 text-center">
+                    <p className={`text-sm ${compositeError ? 'text-red-300' : 'text-gray-400'}`}>
+                        {compositeError ?? 'Flattening the layers…'}
+                    </p>
+                    <button onClick={() => setEditorMode('view')} className="text-sm font-semibold text-gray-400 hover:text-gray-200 px-4 py-2 transition-colors">
+                        Cancel
                     </button>
                 </div>
+            ) : editorMode === 'mask' && activeImageUrl ? (
+                <div className="relative w-full h-full flex flex-col items-center justify-center p-4 gap-4">
+                    <ToolOptions
+                        tool={maskTool}
+                        setTool={setMaskTool}
+                        brushSize={brushSize}
+                        setBrushSize={setBrushSize}
+                        onInvert={() => editorRef.current?.invert()}
+                        onClear={() => editorRef.current?.clear()}
+                        onDone={() => setEditorMode('view')}
+                    />
+                    <EditorCanvas
+                        key={activeImageUrl}
+                        ref={editorRef}
+                        imageUrl={activeImageUrl}
+                        tool={maskTool}
+                        brushSize={brushSize}
+                        onMaskChange={setHasMask}
+                    />
+                </div>
+            ) : isVariantGridOpen && variants.length > 1 ? (
+                <div className="w-full h-full flex flex-col p-4 gap-4 overflow-y-auto">
+                    <div className="flex items-center justify-between">
+                        <h2 className="font-semibold text-gray-100 flex items-center gap-2">
+                            <Squares2x2Icon className="w-5 h-5" />
+                            Pick a variant
+                        </h2>
+                        <button
+                            onClick={() => setIsVariantGridOpen(false)}
+                            className="text-sm font-semibold text-gray-400 hover:text-gray-200 transition-colors"
+                        >
+                            Close grid
+                        </button>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4 flex-1 min-h-0">
+                        {variants.map((variant, index) => (
+                            <div
+                                key={variant.id}
+                                className={`relative group flex items-center justify-center bg-gray-900/70 rounded-lg border-2 overflow-hidden ${
+                                    variant.id === activeImageId ? 'border-yellow-500' : 'border-gray-700'
+                                }`}
+                            >
+                                <button onClick={() => handleSelectVariant(variant.id)} className="w-full h-full flex items-center justify-center" aria-label={`Use variant ${index + 1}`}>
+                                    <img src={variant.url} alt={`Variant ${index + 1}`} className="max-w-full max-h-full object-contain" />
+                                </button>
+                                <span className="absolute top-2 left-2 bg-black/60 text-xs font-semibold text-gray-200 px-2 py-0.5 rounded-full">
+                                    {index + 1}
+                                </span>
+                                <button
+                                    onClick={() => handleMoreLikeThis(variant.id)}
+                                    disabled={!canGenerateMore}
+                                    className="absolute bottom-2 right-2 bg-black/60 text-xs font-semibold text-yellow-300 px-3 py-1 rounded-full opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity disabled:hidden"
+                                >
+                                    More like this
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            ) : activeImageUrl ? (
+                <div className="relative w-full h-full flex flex-col items-center justify-center p-4">
+                    {variants.length > 1 && (
+                        <button
+                            onClick={() => setIsVariantGridOpen(true)}
+                            className="absolute top-4 left-4 z-[1] flex items-center gap-1 bg-black/60 text-xs font-semibold text-gray-200 px-3 py-1 rounded-full hover:bg-black/80 transition-colors"
+                        >
+                            <Squares2x2Icon className="w-4 h-4" />
+                            Variant {variants.findIndex(variant => variant.id === activeImageId) + 1} of {variants.length}
+                        </button>
+                    )}
+                    <ImageViewer imageUrl={compositeUrl ?? activeImageUrl} />
+                    <div className="mt-4 flex items-center gap-3">
+                        <button
+                            onClick={handleOpenExport}
+                            className="bg-yellow-500 text-gray-900 font-bold py-2 px-6 rounded-lg hover:bg-yellow-400 transition-all duration-300 flex items-center justify-center gap-2 shadow-lg hover:shadow-yellow-500/30"
+                        >
+                           <DownloadIcon className="w-5 h-5"/> Export
+                        </button>
+                        {activeImageId && comparisonBaseId && (
+                            <button
+                                onClick={() => setEditorMode('compare')}
+                                className="bg-gray-700/50 text-gray-300 font-semibold py-2 px-4 rounded-lg hover:bg-gray-700 transition-colors flex items-center gap-2"
+                            >
+                                <ArrowsRightLeftIcon className="w-5 h-5" /> Compare
+                            </button>
+                        )}
+                        {activeImageId && canGenerateMore && (
+                            <button
+                                onClick={() => handleMoreLikeThis(activeImageId)}
+                                className="bg-gray-700/50 text-gray-300 font-semibold py-2 px-4 rounded-lg hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                More like this
+                            </button>
+                        )}
+                    </div>
+                </div>
             ) : (
                 <div className="text-center text-gray-500">
                     <ImageIcon className="w-24 h-24 mx-auto" />
@@ -326,100 +644,380 @@ const Canvas: React.FC<CanvasProps> = React.memo(({ isLoading, loadingMessage, e
 ));
 
 
-const App: React.FC = () => {
+type WorkspaceProps = {
+    project: Project;
+    onCloseProject: () => void;
+};
+
+// Everything the user works on inside one project. It is remounted when another project is
+// opened, so no state carries over between projects.
+const Workspace: React.FC<WorkspaceProps> = ({ project, onCloseProject }) => {
     const [prompt, setPrompt] = useState<string>('');
-    const [aspectRatio, setAspectRatio] = useState<AspectRatio>('1:1');
-    const [generatedImages, setGeneratedImages] = useState<string[]>([]);
-    const [isLoading, setIsLoading] = useState<boolean>(false);
-    const [error, setError] = useState<string | null>(null);
-    const [promptHistory, setPromptHistory] = useState<string[]>([]);
-    const [uploadedImage, setUploadedImage] = useState<File | null>(null);
-    const [uploadedImageUrl, setUploadedImageUrl] = useState<string | null>(null);
-    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [aspectRatio, setAspectRatio] = useState<AspectRatio>(initialAspectRatio);
+    const [numberOfImages, setNumberOfImages] = useState<number>(initialNumberOfImages);
+    const [error, setError] = useState<string | ImageServiceError | null>(null);
+    const [retryFailedJob, setRetryFailedJob] = useState<(() => void) | null>(null);
+    const [referenceImages, setReferenceImages] = useState<ReferenceImage[]>([]);
+
+    // Prompt library and template filling
+    const [savedPrompts, setSavedPrompts] = useState<SavedPrompt[]>([]);
+    const [templateValues, setTemplateValues] = useState<Record<string, string>>({});
+    const [isWildcardMode, setIsWildcardMode] = useState(false);
+    const promptVariables = useMemo(() => templateVariables(prompt), [prompt]);
 
     // New states for editing
     const [activeImageUrl, setActiveImageUrl] = useState<string | null>(null);
     const [editPrompt, setEditPrompt] = useState<string>('');
-    const [loadingMessage, setLoadingMessage] = useState<string>('AI is creating...');
     const [isUploadPanelOpen, setIsUploadPanelOpen] = useState(false);
 
+    // Product catalog
+    const [products, setProducts] = useState<Product[]>([]);
+    const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
+    const [isAddProductOpen, setIsAddProductOpen] = useState(false);
+
+    // Mask painting for inpainting
+    const editorRef = useRef<EditorCanvasHandle>(null);
+    const [editorMode, setEditorMode] = useState<EditorMode>('view');
+    const [maskTool, setMaskTool] = useState<MaskTool>('brush');
+    const [brushSize, setBrushSize] = useState<number>(40);
+    const [hasMask, setHasMask] = useState(false);
+
+    // Library state
+    const [libraryImages, setLibraryImages] = useState<LibraryImage[]>([]);
+    const [activeImageId, setActiveImageId] = useState<string | null>(null);
+    const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+    const [isExportOpen, setIsExportOpen] = useState(false);
+    // Read by jobs when they finish, to tell whether the user has moved on since they started.
+    const activeImageIdRef = useRef<string | null>(null);
+    activeImageIdRef.current = activeImageId;
+
+    // Background jobs
+    const [jobs, setJobs] = useState<Job<LibraryImage[]>[]>([]);
+    const [isJobsOpen, setIsJobsOpen] = useState(false);
+    const [isUsageOpen, setIsUsageOpen] = useState(false);
+    const [isDebugOpen, setIsDebugOpen] = useState(false);
+    // Open settings straight away when Gemini is called directly but has no usable key yet,
+    // e.g. on first run or to unlock it.
+    const [isSettingsOpen, setIsSettingsOpen] = useState(
+        () => imageProvider.id === 'gemini' && getSettings().connection.mode === 'direct' && getApiKey() === null,
+    );
+    const [concurrency, setConcurrency] = useState(initialConcurrency);
+    const activeJobCount = jobs.filter(job => job.status === 'queued' || job.status === 'running').length;
+
+    // Edit history
+    const [preferredChildren, setPreferredChildren] = useState<PreferredChildren>({});
+    const historyGraph = useMemo(() => buildHistoryGraph(libraryImages), [libraryImages]);
+    const timeline = useMemo(
+        () => (activeImageId ? getTimeline(historyGraph, activeImageId, preferredChildren) : []),
+        [historyGraph, activeImageId, preferredChildren],
+    );
+    const undoTarget = activeImageId ? getUndoTarget(historyGraph, activeImageId) : null;
+    const redoTarget = activeImageId ? getRedoTarget(historyGraph, activeImageId, preferredChildren) : null;
+
+    // Variants of the active image's generation request
+    const [isVariantGridOpen, setIsVariantGridOpen] = useState(false);
+    const activeImage = activeImageId ? historyGraph.nodes.get(activeImageId) ?? null : null;
+    const activeBatchId = activeImage?.batchId ?? null;
+    const variants = useMemo(
+        () => libraryImages
+            .filter(image => activeBatchId !== null && image.batchId === activeBatchId)
+            .sort((a, b) => a.batchIndex - b.batchIndex)
+            .map(image => ({ id: image.id, url: URL.createObjectURL(image.blob) })),
+        [libraryImages, activeBatchId],
+    );
+    useEffect(() => () => variants.forEach(variant => URL.revokeObjectURL(variant.url)), [variants]);
+
+    // Compare against the image the active one was made from, or failing that any other image.
+    const comparisonBaseId = activeImage?.parentId && historyGraph.nodes.has(activeImage.parentId)
+        ? activeImage.parentId
+        : libraryImages.find(image => image.id !== activeImageId)?.id ?? null;
+
+    // The active image as it looks with its layers, for viewing and export. Most tools work on
+    // the image itself, and the layers carry over to what they produce.
+    const activeLayers = useMemo(() => activeImage?.layers ?? [], [activeImage]);
+    const [compositeUrl, setCompositeUrl] = useState<string | null>(null);
+    const [compositeError, setCompositeError] = useState<string | null>(null);
     useEffect(() => {
-        if (generatedImages.length > 0) {
-            setActiveImageUrl(generatedImages[generatedImages.length - 1]);
+        setCompositeUrl(null);
+        setCompositeError(null);
+        if (!activeImageUrl || !hasVisibleLayers(activeLayers)) return;
+        let isCancelled = false;
+        flattenLayers(activeImageUrl, activeLayers)
+            .then(url => { if (!isCancelled) setCompositeUrl(url); })
+            .catch((err: any) => { if (!isCancelled) setCompositeError(err.message || 'Could not flatten the layers.'); });
+        return () => { isCancelled = true; };
+    }, [activeImageUrl, activeLayers]);
+    // Crops, outpaints and exports take the layers with them, so they wait for the composite.
+    const flattenedImageUrl = hasVisibleLayers(activeLayers) ? compositeUrl : activeImageUrl;
+
+    // PWA state
+    const [isNetworkDown, setIsNetworkDown] = useState<boolean>(!navigator.onLine);
+    const [isUpdateAvailable, setIsUpdateAvailable] = useState(false);
+    const [canInstall, setCanInstall] = useState(false);
+
+    // Restore the library, reopening the most recent image.
+    useEffect(() => {
+        let isCancelled = false;
+        listImages()
+            .then(async images => {
+                if (isCancelled) return;
+                setLibraryImages(images);
+                if (images.length > 0) {
+                    const latestUrl = await blobToDataUrl(images[0].blob);
+                    if (isCancelled) return;
+                    setActiveImageUrl(current => current ?? latestUrl);
+                    setActiveImageId(current => current ?? images[0].id);
+                }
+            })
+            .catch(err => console.error('Could not load the image library.', err));
+        return () => { isCancelled = true; };
+    }, []);
+
+    useEffect(() => {
+        listPrompts()
+            .then(setSavedPrompts)
+            .catch(err => console.error('Could not load the prompt library.', err));
+    }, []);
+
+    useEffect(() => {
+        listProducts()
+            .then(setProducts)
+            .catch(err => console.error('Could not load the product catalog.', err));
+    }, []);
+
+    // Leave placement mode if its product is deselected or deleted.
+    useEffect(() => {
+        if (!selectedProduct) setEditorMode(mode => (mode === 'place' ? 'view' : mode));
+    }, [selectedProduct]);
+
+    useEffect(() => {
+        const handleOnline = () => setIsNetworkDown(false);
+        const handleOffline = () => setIsNetworkDown(true);
+        window.addEventListener('online', handleOnline);
+        window.addEventListener('offline', handleOffline);
+        return () => {
+            window.removeEventListener('online', handleOnline);
+            window.removeEventListener('offline', handleOffline);
+        };
+    }, []);
+
+    // Only network-backed providers are unusable offline.
+    const isOffline = isNetworkDown && imageProvider.capabilities.requiresNetwork;
+
+    useEffect(() => jobQueue.subscribe(setJobs), []);
+    useEffect(() => {
+        jobQueue.setConcurrency(concurrency);
+        localStorage.setItem(CONCURRENCY_STORAGE_KEY, String(concurrency));
+    }, [concurrency]);
+
+    useEffect(() => onUpdateAvailable(setIsUpdateAvailable), []);
+    useEffect(() => onInstallAvailable(setCanInstall), []);
+
+    // Shows new results and records them in the library, grouping several results from one
+    // request into a batch. A failed save is logged but does not hide the image, since the
+    // user can still download it.
+    const showResults = async (
+        dataUrls: string[],
+        details: ResultDetails,
+        activate = true,
+    ): Promise<LibraryImage[]> => {
+        if (activate) {
+            setActiveImageUrl(dataUrls[0]);
+            setActiveImageId(null);
+            setIsVariantGridOpen(dataUrls.length > 1);
         }
-    }, [generatedImages]);
+        const batchId = dataUrls.length > 1 ? crypto.randomUUID() : null;
+        const parentLayers = details.parentId && LAYER_KEEPING_OPERATIONS.has(details.operation)
+            ? historyGraph.nodes.get(details.parentId)?.layers
+            : undefined;
+        try {
+            const images: LibraryImage[] = [];
+            for (const [batchIndex, dataUrl] of dataUrls.entries()) {
+                images.push(await addImage(dataUrl, { ...details, layers: details.layers ?? parentLayers, batchId, batchIndex }));
+            }
+            setLibraryImages(prev => [...[...images].reverse(), ...prev]);
+            const [first] = images;
+            if (activate) {
+                setActiveImageId(first.id);
+                if (first.parentId) {
+                    setPreferredChildren(prev => ({ ...prev, [first.parentId!]: first.id }));
+                }
+            }
+            return images;
+        } catch (err) {
+            console.error('Could not save image to the library.', err);
+            if (!activate) setActiveImageUrl(dataUrls[0]);
+            return [];
+        }
+    };
+
+    // Queues a provider request. The result only replaces the active image if the user is
+    // still looking at the image the job started from; otherwise it is saved quietly and
+    // can be opened from the jobs drawer. Cancelled jobs are dropped without an error.
+    const runJob = async (label: string, details: ResultDetails, run: (signal: AbortSignal) => Promise<string[]>) => {
+        const sourceId = activeImageIdRef.current;
+        setError(null);
+        setRetryFailedJob(null);
+        try {
+            await jobQueue.enqueue(label, async signal => {
+                const dataUrls = await run(signal);
+                signal.throwIfAborted();
+                // Every provider call in the job was sent with its signal, so this is the job's full usage.
+                return showResults(dataUrls, { ...details, generation: takeCalls(signal) }, activeImageIdRef.current === sourceId);
+            });
+        } catch (err: any) {
+            if (isAbortError(err)) return;
+            setError(err instanceof ImageServiceError ? err : err.message || 'An unknown error occurred.');
+            setRetryFailedJob(() => () => runJob(label, details, run));
+        }
+    };
+
+    const generateFromText = (request: { prompt: string; aspectRatio: AspectRatio; numberOfImages: number; seed?: number }) => {
+        const label = request.numberOfImages > 1 ? `Generate ${request.numberOfImages} variants: ${request.prompt}` : `Generate: ${request.prompt}`;
+        return runJob(
+            label,
+            { prompt: request.prompt, operation: 'generate', aspectRatio: request.aspectRatio },
+            signal => imageProvider.generateImages({ ...request, signal }),
+        );
+    };
 
     const handleGenerate = async () => {
-        if (!prompt.trim() && !uploadedImage) {
+        if (!prompt.trim() && referenceImages.length === 0) {
             setError('Please enter a prompt or upload an image.');
             return;
         }
-        setIsLoading(true);
-        setError(null);
-        if (!promptHistory.includes(prompt) && prompt.trim()) {
-            setPromptHistory([prompt, ...promptHistory].slice(0, 10));
+        if (isOffline) {
+            setError('You are offline. Reconnect to generate images.');
+            return;
+        }
+        const missing = promptVariables.filter(name => !templateValues[name]?.trim());
+        if (missing.length > 0) {
+            setError(`Fill in the template variable${missing.length === 1 ? '' : 's'} ${missing.join(', ')}.`);
+            return;
+        }
+        // A wildcard template becomes one prompt, and one job, per combination of its values.
+        const prompts = isWildcardMode && promptVariables.length > 0
+            ? expandTemplate(prompt, templateValues)
+            : [fillTemplate(prompt, templateValues)];
+        if (prompts.length > MAX_PROMPT_BATCH) {
+            setError(`This template expands into ${prompts.length} prompts. Use at most ${MAX_PROMPT_BATCH}.`);
+            return;
+        }
+        if (prompt.trim()) {
+            recordPromptUse(prompt)
+                .then(setSavedPrompts)
+                .catch(err => console.error('Could not save the prompt to the library.', err));
         }
 
-        try {
-            let newImages: string[];
-            if (uploadedImage) {
-                setLoadingMessage('AI is editing...');
-                const newImage = await generateImageFromImageAndText(uploadedImage, prompt);
-                newImages = [newImage];
-            } else {
-                setLoadingMessage('AI is creating...');
-                newImages = await generateImageFromText(prompt, aspectRatio);
-            }
-            setGeneratedImages(prev => [...prev, ...newImages]);
-            setUploadedImage(null);
-            setUploadedImageUrl(null);
+        if (referenceImages.length > 0) {
+            // The first image is the one being edited; the rest are sent after it, in order.
+            const [base, ...others] = referenceImages;
+            referenceImages.forEach(image => URL.revokeObjectURL(image.url));
+            setReferenceImages([]);
             setIsUploadPanelOpen(false);
+            await Promise.all(prompts.map(text => runJob(
+                referenceImages.length === 1 ? `Edit upload: ${text}` : `Combine ${referenceImages.length} images: ${text}`,
+                { prompt: text, operation: 'edit' },
+                async signal => [
+                    await imageProvider.editImage({
+                        image: base.file,
+                        imageRole: base.role,
+                        references: others.map(image => ({ image: image.file, role: image.role })),
+                        prompt: text,
+                        signal,
+                    }),
+                ],
+            )));
+        } else {
+            await Promise.all(prompts.map(text => generateFromText({ prompt: text, aspectRatio, numberOfImages })));
+        }
+    };
+
+    const updateSavedPrompt = async (updated: SavedPrompt) => {
+        try {
+            await savePrompt(updated);
+            setSavedPrompts(prev => prev.map(saved => (saved.id === updated.id ? updated : saved)));
         } catch (err: any) {
-            setError(err.message || 'An unknown error occurred.');
-        } finally {
-            setIsLoading(false);
+            setError(err.message || 'Could not update the prompt.');
         }
     };
 
-    const handleUpscale = async () => {
-        if (!activeImageUrl) {
-            setError('No active image to upscale.');
-            return;
+    const handleStarCurrentPrompt = async () => {
+        if (!prompt.trim()) return;
+        try {
+            setSavedPrompts(await upsertPrompt(prompt, saved => ({ ...saved, starred: !saved.starred })));
+        } catch (err: any) {
+            setError(err.message || 'Could not save the prompt.');
         }
-        setIsLoading(true);
-        setError(null);
-        setLoadingMessage('Upscaling image...');
+    };
+
+    const handleToggleStar = (saved: SavedPrompt) => updateSavedPrompt({ ...saved, starred: !saved.starred });
 
+    const handleUpdatePromptTags = (saved: SavedPrompt, tags: string[]) => updateSavedPrompt({ ...saved, tags });
+
+    const handleDeletePrompt = async (saved: SavedPrompt) => {
         try {
-            const upscalePrompt = "Upscale this image, increasing its resolution and enhancing details. Make it sharper and clearer without altering the content.";
-            const newImage = await generateImageFromImageAndText(activeImageUrl, upscalePrompt);
-            setActiveImageUrl(newImage);
+            await deletePrompt(saved.id);
+            setSavedPrompts(prev => prev.filter(other => other.id !== saved.id));
         } catch (err: any) {
-            setError(err.message || 'An unknown error occurred.');
-        } finally {
-            setIsLoading(false);
+            setError(err.message || 'Could not delete the prompt.');
         }
     };
-    
-    const handleApplyFilter = async (filterPrompt: string) => {
+
+    // Generates a fresh batch using a previous result's prompt and settings. The seed is
+    // derived from the source image so providers that support seeds give new variations.
+    const handleMoreLikeThis = async (id: string) => {
+        const source = historyGraph.nodes.get(id);
+        if (!source) return;
+        if (isOffline) {
+            setError('You are offline. Reconnect to generate images.');
+            return;
+        }
+        const batchSize = source.batchId
+            ? libraryImages.filter(image => image.batchId === source.batchId).length
+            : 1;
+        const request = {
+            prompt: source.prompt,
+            aspectRatio: source.aspectRatio,
+            numberOfImages: Math.min(batchSize, imageProvider.capabilities.maxImages),
+            seed: source.createdAt % 2147483647,
+        };
+        setPrompt(request.prompt);
+        setAspectRatio(request.aspectRatio);
+        setNumberOfImages(request.numberOfImages);
+        await generateFromText(request);
+    };
+
+    const handleUpscale = async (method: UpscaleMethod, factor: UpscaleFactor) => {
         if (!activeImageUrl) {
-            setError('No active image to apply a filter to.');
+            setError('No active image to upscale.');
             return;
         }
-        setIsLoading(true);
-        setError(null);
-        setLoadingMessage('Applying filter...');
+        const image = activeImageUrl;
+        const description = method === 'local' ? `Upscale ${factor}× (Lanczos)` : `Upscale ${factor}× (AI detail)`;
+        await runJob(description, { prompt: description, operation: 'upscale', parentId: activeImageId }, async signal => [
+            method === 'local'
+                ? await upscaleLocally(image, factor, signal)
+                : await upscaleWithTiles(imageProvider, { imageUrl: image, factor, signal }),
+        ]);
+    };
 
-        try {
-            const newImage = await generateImageFromImageAndText(activeImageUrl, filterPrompt);
-            setActiveImageUrl(newImage);
-        } catch (err: any) {
-            setError(err.message || 'An unknown error occurred.');
-        } finally {
-            setIsLoading(false);
+    const handleApplyFilter = async (filterPrompt: string) => {
+        if (!activeImageUrl) {
+            setError('No active image to apply a filter to.');
+            return;
         }
+        const image = activeImageUrl;
+        await runJob(`Filter: ${filterPrompt}`, { prompt: filterPrompt, operation: 'filter', parentId: activeImageId }, async signal => [
+            await imageProvider.editImage({ image, prompt: filterPrompt, signal }),
+        ]);
     };
 
+    // Filter previews are rendered from the current image, so they need one and a reachable provider.
+    const handleGenerateFilterPreview = activeImageUrl && !isOffline
+        ? (filterPrompt: string) => generateFilterThumbnail(imageProvider, activeImageUrl, filterPrompt)
+        : null;
+
     const handleEditWithPrompt = async () => {
         if (!activeImageUrl) {
             setError('No active image to edit.');
@@ -429,104 +1027,397 @@ const App: React.FC = () => {
             setError('Please enter an edit instruction.');
             return;
         }
-        setIsLoading(true);
-        setError(null);
-        setLoadingMessage('Applying your edit...');
+        if (isOffline) {
+            setError('You are offline. Reconnect to edit images.');
+            return;
+        }
+        const isMaskMode = editorMode === 'mask';
+        const mask = isMaskMode ? editorRef.current?.getMask() ?? null : null;
+        if (isMaskMode && !mask) {
+            setError('Paint over the area you want to change, or turn off the mask to edit the whole image.');
+            return;
+        }
+        const image = activeImageUrl;
+        const instruction = editPrompt;
+        setEditPrompt('');
 
-        try {
-            const newImage = await generateImageFromImageAndText(activeImageUrl, editPrompt);
-            setActiveImageUrl(newImage);
-            setEditPrompt('');
-        } catch (err: any) {
-            setError(err.message || 'An unknown error occurred.');
-        } finally {
-            setIsLoading(false);
+        if (mask) {
+            await runJob(`Inpaint: ${instruction}`, { prompt: instruction, operation: 'inpaint', parentId: activeImageId }, async signal => {
+                // The model may still touch unmasked pixels, so composite its output back
+                // through the mask to guarantee everything outside it is unchanged.
+                const modelMask = await alphaMaskToBlackAndWhite(mask);
+                const edited = await imageProvider.editImage({ image, prompt: instruction, mask: modelMask, signal });
+                return [await compositeWithMask(image, edited, mask)];
+            });
+        } else {
+            await runJob(`Edit: ${instruction}`, { prompt: instruction, operation: 'edit', parentId: activeImageId }, async signal => [
+                await imageProvider.editImage({ image, prompt: instruction, signal }),
+            ]);
         }
     };
 
-    const handleChangeAspectRatio = async (newAspectRatio: AspectRatio) => {
-        if (!activeImageUrl) {
-            setError('No active image to edit.');
+    // The original pixels are composited back over the model's output, so only the new area changes.
+    const handleOutpaint = async (extension: CanvasExtension, outpaintPrompt: string) => {
+        if (!flattenedImageUrl) return;
+        if (isOffline) {
+            setError('You are offline. Reconnect to outpaint.');
             return;
         }
-        setIsLoading(true);
-        setError(null);
-        setLoadingMessage('Changing aspect ratio...');
+        setEditorMode('view');
+        const image = flattenedImageUrl;
+        const description = [describeExtension(extension), outpaintPrompt.trim()].filter(Boolean).join(': ');
+        await runJob(`Outpaint: ${description}`, { prompt: description, operation: 'outpaint', parentId: activeImageId }, async signal => [
+            await outpaintImage(imageProvider, { imageUrl: image, extension, prompt: outpaintPrompt, signal }),
+        ]);
+    };
+
+    // Crops and orientation changes run entirely in the browser, so they work offline and
+    // never alter the image content.
+    const handleApplyCrop = async (dataUrl: string, description: string, cropAspectRatio?: AspectRatio) => {
+        setEditorMode('view');
+        await showResults([dataUrl], { prompt: description, operation: 'transform', aspectRatio: cropAspectRatio, parentId: activeImageId });
+    };
+
+    // Adjustments are previewed live and only baked into a new history entry on apply.
+    const handleApplyAdjustments = async (dataUrl: string, description: string) => {
+        setEditorMode('view');
+        await showResults([dataUrl], { prompt: description, operation: 'adjust', parentId: activeImageId });
+    };
 
+    // The product is composited by the edit model, but only around the chosen point; the
+    // rest of the scene comes back unchanged. Placed as a layer, the scene itself is kept and
+    // the product goes on a new layer above the existing ones.
+    const handlePlaceProduct = async (placement: Placement, note: string, asLayer: boolean) => {
+        if (!activeImageUrl || !selectedProduct) return;
+        if (isOffline) {
+            setError('You are offline. Reconnect to place products.');
+            return;
+        }
+        setEditorMode('view');
+        const sceneUrl = activeImageUrl;
+        const product = selectedProduct;
+        const details: ResultDetails = { prompt: describePlacement(product, note), operation: 'place', parentId: activeImageId };
+        if (!asLayer) {
+            await runJob(`Place ${product.name}`, details, async signal => [
+                await placeProduct(imageProvider, { sceneUrl, product, placement, note, signal }),
+            ]);
+            return;
+        }
+        const sceneLayers = activeLayers;
+        await runJob(`Place ${product.name} as a layer`, details, async signal => {
+            const layer = await placeProductAsLayer(imageProvider, { sceneUrl, product, placement, note, signal });
+            // The layer is only known once the model has answered, so record it on the result here.
+            details.layers = [...sceneLayers, layer];
+            return [sceneUrl];
+        });
+    };
+
+    const handleChangeLayers = useCallback(async (imageId: string, layers: Layer[]) => {
+        setLibraryImages(prev => prev.map(image => (image.id === imageId ? { ...image, layers } : image)));
         try {
-            const editInstruction = `Render this image at a new aspect ratio of ${newAspectRatio}. Intelligently expand the scene and composition to fill the new dimensions. Do not crop, stretch, or distort the original subject.`;
-            const newImage = await generateImageFromImageAndText(activeImageUrl, editInstruction);
-            setActiveImageUrl(newImage);
+            await updateImageLayers(imageId, layers);
         } catch (err: any) {
-            setError(err.message || 'An unknown error occurred.');
-        } finally {
-            setIsLoading(false);
+            setError(err.message || 'Could not save the layers.');
         }
-    };
+    }, []);
 
-    const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-        if (e.target.files && e.target.files[0]) {
-            const file = e.target.files[0];
-            setUploadedImage(file);
-            setUploadedImageUrl(URL.createObjectURL(file));
+    const handleAddedProduct = useCallback((product: Product) => {
+        setProducts(prev => [product, ...prev]);
+        setSelectedProduct(product);
+    }, []);
+
+    const handleDeleteProduct = useCallback(async (product: Product) => {
+        if (!window.confirm(`Delete "${product.name}" from the catalog?`)) return;
+        try {
+            await deleteProduct(product.id);
+            setProducts(prev => prev.filter(p => p.id !== product.id));
+            setSelectedProduct(current => (current?.id === product.id ? null : current));
+        } catch (err: any) {
+            setError(err.message || 'Could not delete the product.');
         }
-    };
+    }, []);
+
+    const openAddProduct = useCallback(() => setIsAddProductOpen(true), []);
+    const handleCloseAddProduct = useCallback(() => setIsAddProductOpen(false), []);
+
+    const handleOpenExport = useCallback(() => setIsExportOpen(true), []);
+    const handleCloseExport = useCallback(() => setIsExportOpen(false), []);
 
-    const handleRemoveUploadedImage = () => {
-        setUploadedImage(null);
-        setUploadedImageUrl(null);
-        if (fileInputRef.current) {
-            fileInputRef.current.value = '';
+    // Makes a library image the active one. Moving through the history this way never
+    // discards anything; it only changes which branch redo follows.
+    const activateImage = useCallback(async (image: LibraryImage) => {
+        try {
+            setActiveImageUrl(await blobToDataUrl(image.blob));
+            setActiveImageId(image.id);
+            setPreferredChildren(prev => preferLineage(historyGraph, image.id, prev));
+        } catch (err: any) {
+            setError(err.message || 'Could not open the image.');
         }
-    };
+    }, [historyGraph]);
+
+    const handleUndo = useCallback(() => {
+        if (undoTarget) activateImage(undoTarget);
+    }, [undoTarget, activateImage]);
 
-    const handleDownload = (imageUrl: string) => {
-        const link = document.createElement('a');
-        link.href = imageUrl;
-        link.download = `generated-image-${Date.now()}.png`;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-      };
+    const handleRedo = useCallback(() => {
+        if (redoTarget) activateImage(redoTarget);
+    }, [redoTarget, activateImage]);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey)) return;
+            // Leave text fields their own undo.
+            const target = e.target as HTMLElement;
+            if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                handleUndo();
+            } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+                e.preventDefault();
+                handleRedo();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [handleUndo, handleRedo]);
+
+    const handleSelectVariant = useCallback((id: string) => {
+        const variant = historyGraph.nodes.get(id);
+        if (!variant) return;
+        activateImage(variant);
+        setIsVariantGridOpen(false);
+    }, [historyGraph, activateImage]);
+
+    const handleOpenLibraryImage = useCallback(async (image: LibraryImage) => {
+        await activateImage(image);
+        setIsLibraryOpen(false);
+    }, [activateImage]);
+
+    const handleDeleteLibraryImages = useCallback(async (ids: string[]) => {
+        try {
+            await deleteImages(ids);
+            setLibraryImages(prev => prev.filter(image => !ids.includes(image.id)));
+        } catch (err: any) {
+            setError(err.message || 'Could not delete the selected images.');
+        }
+    }, []);
+
+    const handleExportLibraryImages = useCallback(async (images: LibraryImage[]) => {
+        try {
+            const archive = await exportImages(images);
+            const url = URL.createObjectURL(archive);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `library-export-${Date.now()}.zip`;
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+            URL.revokeObjectURL(url);
+        } catch (err: any) {
+            setError(err.message || 'Could not export the selected images.');
+        }
+    }, []);
+
+    const handleCloseLibrary = useCallback(() => setIsLibraryOpen(false), []);
+    const handleCloseJobs = useCallback(() => setIsJobsOpen(false), []);
+    const handleCloseUsage = useCallback(() => setIsUsageOpen(false), []);
+    const handleOpenDebug = useCallback(() => setIsDebugOpen(true), []);
+    const handleCloseDebug = useCallback(() => setIsDebugOpen(false), []);
+    const handleOpenSettings = useCallback(() => setIsSettingsOpen(true), []);
+    const handleCloseSettings = useCallback(() => setIsSettingsOpen(false), []);
+    const dismissError = useCallback(() => {
+        setError(null);
+        setRetryFailedJob(null);
+    }, []);
+
+    // Jobs save into whichever project is open when they finish, so stop them before leaving.
+    const handleCloseProject = useCallback(() => {
+        const pending = jobs.filter(job => job.status === 'queued' || job.status === 'running');
+        if (pending.length > 0 && !window.confirm(`Leaving ${project.name} cancels ${pending.length} unfinished job${pending.length === 1 ? '' : 's'}. Continue?`)) return;
+        pending.forEach(job => jobQueue.cancel(job.id));
+        jobQueue.clearFinished();
+        onCloseProject();
+    }, [jobs, project.name, onCloseProject]);
 
     return (
         <div className="min-h-screen bg-transparent text-white flex flex-col">
-            <Header />
+            <Header
+                projectName={project.name}
+                onOpenProjects={handleCloseProject}
+                canInstall={canInstall}
+                onInstall={promptInstall}
+                onOpenLibrary={() => setIsLibraryOpen(true)}
+                activeJobCount={activeJobCount}
+                onOpenJobs={() => setIsJobsOpen(true)}
+                onOpenUsage={() => setIsUsageOpen(true)}
+                onOpenDebug={handleOpenDebug}
+                onOpenSettings={handleOpenSettings}
+            />
             <main className="flex-1 flex flex-col md:flex-row p-4 md:p-8 gap-8">
                 <ControlPanel
                     prompt={prompt}
                     setPrompt={setPrompt}
                     aspectRatio={aspectRatio}
                     setAspectRatio={setAspectRatio}
-                    isLoading={isLoading}
-                    promptHistory={promptHistory}
-                    uploadedImage={uploadedImage}
+                    numberOfImages={numberOfImages}
+                    setNumberOfImages={setNumberOfImages}
+                    isOffline={isOffline}
+                    savedPrompts={savedPrompts}
+                    handleStarCurrentPrompt={handleStarCurrentPrompt}
+                    handleToggleStar={handleToggleStar}
+                    handleUpdatePromptTags={handleUpdatePromptTags}
+                    handleDeletePrompt={handleDeletePrompt}
+                    promptVariables={promptVariables}
+                    templateValues={templateValues}
+                    setTemplateValues={setTemplateValues}
+                    isWildcardMode={isWildcardMode}
+                    setIsWildcardMode={setIsWildcardMode}
+                    referenceImages={referenceImages}
+                    setReferenceImages={setReferenceImages}
+                    maxReferenceImages={imageProvider.capabilities.maxReferenceImages}
                     handleGenerate={handleGenerate}
                     isUploadPanelOpen={isUploadPanelOpen}
                     setIsUploadPanelOpen={setIsUploadPanelOpen}
-                    handleImageUpload={handleImageUpload}
-                    handleRemoveUploadedImage={handleRemoveUploadedImage}
-                    fileInputRef={fileInputRef}
-                    uploadedImageUrl={uploadedImageUrl}
                     activeImageUrl={activeImageUrl}
                     editPrompt={editPrompt}
                     setEditPrompt={setEditPrompt}
                     handleEditWithPrompt={handleEditWithPrompt}
+                    editorMode={editorMode}
+                    setEditorMode={setEditorMode}
+                    hasMask={hasMask}
                     handleUpscale={handleUpscale}
                     handleApplyFilter={handleApplyFilter}
-                    handleChangeAspectRatio={handleChangeAspectRatio}
-                />
-                <Canvas
-                    isLoading={isLoading}
-                    loadingMessage={loadingMessage}
-                    error={error}
-                    setError={setError}
-                    activeImageUrl={activeImageUrl}
-                    handleDownload={handleDownload}
+                    handleGenerateFilterPreview={handleGenerateFilterPreview}
+                    products={products}
+                    selectedProduct={selectedProduct}
+                    setSelectedProduct={setSelectedProduct}
+                    openAddProduct={openAddProduct}
+                    handleDeleteProduct={handleDeleteProduct}
                 />
+                <div className="flex-1 flex flex-col gap-4 min-w-0">
+                    <Canvas
+                        error={error}
+                        retryFailedJob={retryFailedJob}
+                        dismissError={dismissError}
+                        handleOpenDebug={handleOpenDebug}
+                        handleOpenSettings={handleOpenSettings}
+                        activeImageUrl={activeImageUrl}
+                        activeImageId={activeImageId}
+                        compositeUrl={compositeUrl}
+                        flattenedImageUrl={flattenedImageUrl}
+                        compositeError={compositeError}
+                        activeLayers={activeLayers}
+                        handleChangeLayers={handleChangeLayers}
+                        handleOpenExport={handleOpenExport}
+                        variants={variants}
+                        isVariantGridOpen={isVariantGridOpen}
+                        setIsVariantGridOpen={setIsVariantGridOpen}
+                        handleSelectVariant={handleSelectVariant}
+                        canGenerateMore={activeImage?.operation === 'generate' && !isOffline}
+                        handleMoreLikeThis={handleMoreLikeThis}
+                        editorMode={editorMode}
+                        setEditorMode={setEditorMode}
+                        handleApplyCrop={handleApplyCrop}
+                        handleApplyAdjustments={handleApplyAdjustments}
+                        selectedProduct={selectedProduct}
+                        canPlaceProduct={!isOffline}
+                        handlePlaceProduct={handlePlaceProduct}
+                        canOutpaint={!isOffline}
+                        handleOutpaint={handleOutpaint}
+                        timeline={timeline}
+                        libraryImages={libraryImages}
+                        comparisonBaseId={comparisonBaseId}
+                        editorRef={editorRef}
+                        maskTool={maskTool}
+                        setMaskTool={setMaskTool}
+                        brushSize={brushSize}
+                        setBrushSize={setBrushSize}
+                        setHasMask={setHasMask}
+                    />
+                    {activeImageId && timeline.length > 0 && (
+                        <HistoryTimeline
+                            graph={historyGraph}
+                            timeline={timeline}
+                            activeImageId={activeImageId}
+                            canUndo={undoTarget !== null}
+                            canRedo={redoTarget !== null}
+                            onUndo={handleUndo}
+                            onRedo={handleRedo}
+                            onSelect={activateImage}
+                        />
+                    )}
+                </div>
             </main>
+            {isLibraryOpen && (
+                <LibraryGallery
+                    images={libraryImages}
+                    activeImageId={activeImageId}
+                    onClose={handleCloseLibrary}
+                    onOpen={handleOpenLibraryImage}
+                    onDelete={handleDeleteLibraryImages}
+                    onExport={handleExportLibraryImages}
+                />
+            )}
+            {isJobsOpen && (
+                <JobsDrawer
+                    jobs={jobs}
+                    concurrency={concurrency}
+                    setConcurrency={setConcurrency}
+                    onCancel={jobQueue.cancel}
+                    onClearFinished={jobQueue.clearFinished}
+                    onOpenResult={activateImage}
+                    onClose={handleCloseJobs}
+                />
+            )}
+            {isUsageOpen && <UsageDashboard onClose={handleCloseUsage} />}
+            {isDebugOpen && <DebugModal onClose={handleCloseDebug} />}
+            {isSettingsOpen && (
+                <SettingsModal
+                    aspectRatios={aspectRatios.map(({ value }) => value)}
+                    maxImages={imageProvider.capabilities.maxImages}
+                    onClose={handleCloseSettings}
+                />
+            )}
+            {isExportOpen && activeImageUrl && (
+                <ExportDialog
+                    imageUrl={flattenedImageUrl}
+                    imageError={compositeError}
+                    image={activeImage}
+                    lineage={activeImageId ? getLineage(historyGraph, activeImageId) : []}
+                    models={imageProvider.models}
+                    onClose={handleCloseExport}
+                />
+            )}
+            {isAddProductOpen && (
+                <AddProductModal onAdded={handleAddedProduct} onClose={handleCloseAddProduct} />
+            )}
+            {isUpdateAvailable && (
+                <UpdateBanner onReload={applyUpdate} onDismiss={() => setIsUpdateAvailable(false)} />
+            )}
         </div>
     );
 };
 
+const App: React.FC = () => {
+    // No project is open until the user picks one on the start screen.
+    const [project, setProject] = useState<Project | null>(null);
+
+    const handleOpenProject = useCallback(async (selected: Project) => {
+        setProject(await openProject(selected));
+    }, []);
+    const handleCloseProject = useCallback(() => setProject(null), []);
+
+    if (!project) {
+        return (
+            <div className="min-h-screen bg-transparent text-white flex flex-col">
+                <Header />
+                <StartScreen onOpen={handleOpenProject} />
+            </div>
+        );
+    }
+    return <Workspace key={project.id} project={project} onCloseProject={handleCloseProject} />;
+};
+
 export default App;
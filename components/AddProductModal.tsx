@@ -2,3 +2,143 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { Product } from '../types';
+import { addProduct } from '../services/productService';
+import { parseTags } from '../services/tags';
+import { UploadIcon, XCircleIcon } from './icons';
+
+type AddProductModalProps = {
+    onAdded: (product: Product) => void;
+    onClose: () => void;
+};
+
+const AddProductModal: React.FC<AddProductModalProps> = ({ onAdded, onClose }) => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [file, setFile] = useState<File | null>(null);
+    const [name, setName] = useState('');
+    const [description, setDescription] = useState('');
+    const [tags, setTags] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const previewUrl = useMemo(() => (file ? URL.createObjectURL(file) : null), [file]);
+    useEffect(() => () => { if (previewUrl) URL.revokeObjectURL(previewUrl); }, [previewUrl]);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    const chooseFile = (chosen: File | undefined) => {
+        if (!chosen) return;
+        if (!chosen.type.startsWith('image/')) {
+            setError(`${chosen.name} is not an image.`);
+            return;
+        }
+        setError(null);
+        setFile(chosen);
+        // Suggest a name from the filename, e.g. "blue-ceramic-mug.png" becomes "blue ceramic mug".
+        if (!name.trim()) setName(chosen.name.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' ').trim());
+    };
+
+    const handleSave = async () => {
+        if (!file) return;
+        setIsSaving(true);
+        setError(null);
+        try {
+            const product = await addProduct({ name, description, tags: parseTags(tags), image: file });
+            onAdded(product);
+            onClose();
+        } catch (err: any) {
+            setError(err.message || 'Could not save the product.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const inputClass = 'w-full bg-gray-900/70 border border-gray-700 text-gray-200 rounded-lg p-2 text-sm font-normal focus:ring-2 focus:ring-yellow-500 focus:outline-none placeholder:text-gray-500';
+
+    return (
+        <div className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+            <div
+                className="w-full max-w-md max-h-full overflow-y-auto bg-gray-800/90 backdrop-blur-lg border border-gray-700 rounded-2xl flex flex-col gap-5 p-5 text-gray-200 shadow-2xl"
+                onClick={e => e.stopPropagation()}
+                role="dialog"
+                aria-label="Add product"
+            >
+                <div className="flex items-center justify-between">
+                    <h2 className="text-lg font-bold text-gray-100">Add product</h2>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-200 transition-colors" aria-label="Close">
+                        <XCircleIcon className="w-6 h-6" />
+                    </button>
+                </div>
+
+                <input
+                    type="file"
+                    accept="image/*"
+                    onChange={(e) => { chooseFile(e.target.files?.[0]); e.target.value = ''; }}
+                    ref={fileInputRef}
+                    className="hidden"
+                />
+                <button
+                    onClick={() => fileInputRef.current?.click()}
+                    onDragOver={(e) => e.preventDefault()}
+                    onDrop={(e) => { e.preventDefault(); chooseFile(e.dataTransfer.files[0]); }}
+                    className="border border-dashed border-gray-600 rounded-lg p-4 flex flex-col items-center justify-center gap-2 text-gray-400 hover:text-yellow-400 hover:border-yellow-500 transition-colors"
+                >
+                    {previewUrl ? (
+                        <img src={previewUrl} alt="Product preview" className="max-h-40 object-contain" />
+                    ) : (
+                        <>
+                            <UploadIcon className="w-8 h-8" />
+                            <span className="text-sm font-semibold">Choose or drop a product cutout</span>
+                            <span className="text-xs">A PNG with a transparent background works best</span>
+                        </>
+                    )}
+                </button>
+
+                <label className="flex flex-col gap-1 text-sm font-semibold text-gray-100">
+                    Name
+                    <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder="Ceramic mug" className={inputClass} />
+                </label>
+                <label className="flex flex-col gap-1 text-sm font-semibold text-gray-100">
+                    Description
+                    <textarea
+                        value={description}
+                        onChange={(e) => setDescription(e.target.value)}
+                        placeholder="Matte blue glaze, 350 ml, white logo on the front"
+                        rows={2}
+                        className={`${inputClass} resize-none`}
+                    />
+                    <span className="text-xs font-normal text-gray-500">Sent to the model to help it keep the product accurate.</span>
+                </label>
+                <label className="flex flex-col gap-1 text-sm font-semibold text-gray-100">
+                    Tags
+                    <input type="text" value={tags} onChange={(e) => setTags(e.target.value)} placeholder="kitchen, drinkware" className={inputClass} />
+                    <span className="text-xs font-normal text-gray-500">Separate tags with commas.</span>
+                </label>
+
+                {error && <p className="text-sm text-red-300">{error}</p>}
+
+                <div className="flex justify-end gap-2">
+                    <button onClick={onClose} className="text-sm font-semibold bg-gray-700/50 text-gray-300 px-4 py-2 rounded-lg hover:bg-gray-700 transition-colors">
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        disabled={!file || isSaving}
+                        className="text-sm font-bold bg-yellow-500 text-gray-900 px-4 py-2 rounded-lg hover:bg-yellow-400 transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed"
+                    >
+                        {isSaving ? 'Saving...' : 'Add product'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default AddProductModal;
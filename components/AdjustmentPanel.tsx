@@ -2,3 +2,155 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import React, { useEffect, useRef, useState } from 'react';
+import { createCanvas, loadImage } from '../services/imageUtils';
+import {
+    ADJUSTMENT_CONTROLS, Adjustments, AdjustmentRenderer, DEFAULT_ADJUSTMENTS, applyAdjustments, createAdjustmentRenderer, describeAdjustments,
+} from '../services/adjustmentService';
+import { EyeIcon } from './icons';
+
+const PREVIEW_LONG_EDGE = 1200;
+
+type AdjustmentPanelProps = {
+    imageUrl: string;
+    onApply: (dataUrl: string, description: string) => void;
+    onCancel: () => void;
+};
+
+const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ imageUrl, onApply, onCancel }) => {
+    const previewRef = useRef<HTMLCanvasElement>(null);
+    const rendererRef = useRef<AdjustmentRenderer | null>(null);
+    const [adjustments, setAdjustments] = useState<Adjustments>(DEFAULT_ADJUSTMENTS);
+    const [isReady, setIsReady] = useState(false);
+    const [showOriginal, setShowOriginal] = useState(false);
+    const [isApplying, setIsApplying] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Upload a downscaled copy of the image once; slider changes only update shader uniforms.
+    useEffect(() => {
+        let isCancelled = false;
+        loadImage(imageUrl).then(image => {
+            const preview = previewRef.current;
+            if (isCancelled || !preview) return;
+            const scale = Math.min(1, PREVIEW_LONG_EDGE / Math.max(image.naturalWidth, image.naturalHeight));
+            const width = Math.round(image.naturalWidth * scale);
+            const height = Math.round(image.naturalHeight * scale);
+            const { canvas: scaled, ctx } = createCanvas(width, height);
+            ctx.drawImage(image, 0, 0, width, height);
+            try {
+                rendererRef.current = createAdjustmentRenderer(preview, scaled, width, height);
+                setIsReady(true);
+            } catch (err: any) {
+                setError(err.message || 'Could not start the adjustment preview.');
+            }
+        }).catch((err: any) => {
+            if (!isCancelled) setError(err.message || 'Could not load the image.');
+        });
+        return () => {
+            isCancelled = true;
+            rendererRef.current?.dispose();
+            rendererRef.current = null;
+        };
+    }, [imageUrl]);
+
+    useEffect(() => {
+        if (isReady) rendererRef.current?.render(adjustments);
+    }, [isReady, adjustments]);
+
+    const setAdjustment = (key: keyof Adjustments, value: number) => {
+        setAdjustments(prev => ({ ...prev, [key]: value }));
+    };
+
+    const handleApply = async () => {
+        setIsApplying(true);
+        setError(null);
+        try {
+            const result = await applyAdjustments(imageUrl, adjustments);
+            onApply(result, describeAdjustments(adjustments));
+        } catch (err: any) {
+            setError(err.message || 'Could not apply the adjustments.');
+        } finally {
+            setIsApplying(false);
+        }
+    };
+
+    const isUnchanged = describeAdjustments(adjustments) === '';
+
+    return (
+        <div className="relative w-full h-full flex flex-col md:flex-row p-4 gap-4">
+            <div className="relative flex-1 min-h-0 min-w-0 flex items-center justify-center overflow-hidden">
+                <canvas
+                    ref={previewRef}
+                    className={`max-w-full max-h-full object-contain select-none ${showOriginal ? 'hidden' : ''}`}
+                />
+                {showOriginal && (
+                    <img src={imageUrl} alt="Original" className="max-w-full max-h-full object-contain select-none" draggable={false} />
+                )}
+                {showOriginal && (
+                    <span className="absolute top-2 left-2 bg-black/60 text-gray-200 text-xs font-semibold uppercase tracking-wide px-2 py-1 rounded-md">
+                        Before
+                    </span>
+                )}
+                {error && (
+                    <p className="absolute bottom-2 left-1/2 -translate-x-1/2 bg-red-500/10 border border-red-500/20 text-red-300 text-sm px-3 py-2 rounded-lg">
+                        {error}
+                    </p>
+                )}
+            </div>
+
+            <div className="w-full md:w-64 flex-shrink-0 flex flex-col gap-3 bg-gray-800/80 backdrop-blur-lg border border-gray-700 rounded-xl p-4 text-gray-200 shadow-lg overflow-y-auto">
+                <div className="flex items-center justify-between">
+                    <h3 className="text-sm font-bold text-gray-100">Adjustments</h3>
+                    <button
+                        onClick={() => setAdjustments(DEFAULT_ADJUSTMENTS)}
+                        disabled={isUnchanged}
+                        className="text-xs font-semibold text-gray-400 hover:text-gray-200 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                    >
+                        Reset all
+                    </button>
+                </div>
+                {ADJUSTMENT_CONTROLS.map(control => (
+                    <label key={control.key} className="flex flex-col gap-1 text-xs font-semibold text-gray-300">
+                        <span className="flex items-center justify-between">
+                            {control.label}
+                            <span className="tabular-nums text-gray-400">{control.format(adjustments[control.key])}</span>
+                        </span>
+                        <input
+                            type="range"
+                            min={control.min}
+                            max={control.max}
+                            step={control.step}
+                            value={adjustments[control.key]}
+                            onChange={(e) => setAdjustment(control.key, Number(e.target.value))}
+                            onDoubleClick={() => setAdjustment(control.key, DEFAULT_ADJUSTMENTS[control.key])}
+                            className="w-full accent-yellow-500"
+                        />
+                    </label>
+                ))}
+                <button
+                    onClick={() => setShowOriginal(!showOriginal)}
+                    aria-pressed={showOriginal}
+                    className={`flex items-center justify-center gap-2 text-sm font-semibold py-2 rounded-lg transition-colors ${
+                        showOriginal ? 'bg-yellow-500/20 text-yellow-300' : 'bg-gray-700/50 text-gray-300 hover:bg-gray-700'
+                    }`}
+                >
+                    <EyeIcon className="w-4 h-4" /> {showOriginal ? 'Showing before' : 'Compare with before'}
+                </button>
+                <div className="flex items-center justify-end gap-2 mt-auto pt-2">
+                    <button onClick={onCancel} className="text-sm font-semibold text-gray-400 hover:text-gray-200 px-4 py-2 transition-colors">
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleApply}
+                        disabled={!isReady || isApplying || isUnchanged}
+                        className="bg-yellow-500 text-gray-900 font-bold py-2 px-6 rounded-lg hover:bg-yellow-400 transition-all duration-300 disabled:bg-gray-600 disabled:cursor-not-allowed"
+                    >
+                        Apply
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default AdjustmentPanel;
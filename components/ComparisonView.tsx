@@ -0,0 +1,286 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { LibraryImage } from '../types';
+import { XCircleIcon } from './icons';
+
+type ComparisonMode = 'split' | 'side-by-side' | 'onion';
+type Viewport = { zoom: number; x: number; y: number };
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 16;
+const ZOOM_STEP = 1.25;
+const FIT: Viewport = { zoom: 1, x: 0, y: 0 };
+
+const modes: { value: ComparisonMode; label: string }[] = [
+    { value: 'split', label: 'Slider' },
+    { value: 'side-by-side', label: 'Side by side' },
+    { value: 'onion', label: 'Onion skin' },
+];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Zooms so the content under (px, py) stays put. Coordinates are relative to the pane.
+const zoomAt = (viewport: Viewport, zoom: number, px: number, py: number): Viewport => {
+    const next = clamp(zoom, MIN_ZOOM, MAX_ZOOM);
+    if (next === MIN_ZOOM) return FIT;
+    const ratio = next / viewport.zoom;
+    return { zoom: next, x: px - (px - viewport.x) * ratio, y: py - (py - viewport.y) * ratio };
+};
+
+const describeImage = (image: LibraryImage) => {
+    const prompt = image.prompt.length > 40 ? `${image.prompt.slice(0, 40)}...` : image.prompt;
+    return `${prompt || image.operation} (${image.width}×${image.height})`;
+};
+
+type ImagePickerProps = {
+    label: string;
+    value: string;
+    history: LibraryImage[];
+    library: LibraryImage[];
+    onChange: (id: string) => void;
+};
+
+const ImagePicker: React.FC<ImagePickerProps> = ({ label, value, history, library, onChange }) => (
+    <label className="flex items-center gap-2 text-xs font-semibold text-gray-300 min-w-0">
+        {label}
+        <select
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            className="min-w-0 max-w-[14rem] bg-gray-900/70 border border-gray-700 rounded-md px-2 py-1 text-xs focus:ring-2 focus:ring-yellow-500 focus:outline-none"
+        >
+            <optgroup label="Edit history">
+                {history.map((image, index) => (
+                    <option key={image.id} value={image.id}>{`${index + 1}. ${describeImage(image)}`}</option>
+                ))}
+            </optgroup>
+            <optgroup label="Library">
+                {library.filter(image => !history.some(step => step.id === image.id)).map(image => (
+                    <option key={image.id} value={image.id}>{describeImage(image)}</option>
+                ))}
+            </optgroup>
+        </select>
+    </label>
+);
+
+type ComparisonViewProps = {
+    /** The active image's edit history, oldest first. */
+    history: LibraryImage[];
+    /** Every image in the library. */
+    library: LibraryImage[];
+    initialBeforeId: string;
+    initialAfterId: string;
+    onClose: () => void;
+};
+
+/**
+ * Compares two library images with a split slider, side by side or as an onion skin.
+ * Both images are fitted to the same frame, and zoom and pan apply to both at once,
+ * so the same detail is always under the cursor in each.
+ */
+const ComparisonView: React.FC<ComparisonViewProps> = ({ history, library, initialBeforeId, initialAfterId, onClose }) => {
+    const [mode, setMode] = useState<ComparisonMode>('split');
+    const [beforeId, setBeforeId] = useState(initialBeforeId);
+    const [afterId, setAfterId] = useState(initialAfterId);
+    const [viewport, setViewport] = useState<Viewport>(FIT);
+    const [split, setSplit] = useState(0.5);
+    const [opacity, setOpacity] = useState(0.5);
+    const rootRef = useRef<HTMLDivElement>(null);
+    const paneRef = useRef<HTMLDivElement>(null);
+    const dragRef = useRef<{ kind: 'pan' | 'split'; startX: number; startY: number; start: Viewport } | null>(null);
+
+    const findImage = (id: string) => library.find(image => image.id === id) ?? history.find(image => image.id === id) ?? null;
+    const before = findImage(beforeId);
+    const after = findImage(afterId);
+
+    const beforeUrl = useMemo(() => (before ? URL.createObjectURL(before.blob) : null), [before?.blob]);
+    const afterUrl = useMemo(() => (after ? URL.createObjectURL(after.blob) : null), [after?.blob]);
+    useEffect(() => () => { if (beforeUrl) URL.revokeObjectURL(beforeUrl); }, [beforeUrl]);
+    useEffect(() => () => { if (afterUrl) URL.revokeObjectURL(afterUrl); }, [afterUrl]);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    // React registers wheel listeners as passive, so stop the page scrolling with a native one.
+    useEffect(() => {
+        const root = rootRef.current;
+        if (!root) return;
+        const preventScroll = (e: WheelEvent) => e.preventDefault();
+        root.addEventListener('wheel', preventScroll, { passive: false });
+        return () => root.removeEventListener('wheel', preventScroll);
+    }, []);
+
+    const handleWheel = (e: React.WheelEvent<HTMLDivElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        const factor = e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP;
+        setViewport(current => zoomAt(current, current.zoom * factor, e.clientX - rect.left, e.clientY - rect.top));
+    };
+
+    const zoomFromCenter = (factor: number, pane: HTMLElement | null) => {
+        const width = pane?.clientWidth ?? 0;
+        const height = pane?.clientHeight ?? 0;
+        setViewport(current => zoomAt(current, current.zoom * factor, width / 2, height / 2));
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>, kind: 'pan' | 'split') => {
+        e.stopPropagation();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragRef.current = { kind, startX: e.clientX, startY: e.clientY, start: viewport };
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        const drag = dragRef.current;
+        if (!drag) return;
+        if (drag.kind === 'split') {
+            const rect = paneRef.current?.getBoundingClientRect();
+            if (rect) setSplit(clamp((e.clientX - rect.left) / rect.width, 0, 1));
+        } else if (drag.start.zoom > MIN_ZOOM) {
+            setViewport({ ...drag.start, x: drag.start.x + e.clientX - drag.startX, y: drag.start.y + e.clientY - drag.startY });
+        }
+    };
+
+    const handlePointerUp = () => {
+        dragRef.current = null;
+    };
+
+    const layerStyle: React.CSSProperties = {
+        transform: `translate(${viewport.x}px, ${viewport.y}px) scale(${viewport.zoom})`,
+        transformOrigin: '0 0',
+    };
+
+    // Every pane shares the viewport, so the panes stay in sync as the user zooms and pans any of them.
+    const renderPane = (children: React.ReactNode, ref?: React.Ref<HTMLDivElement>) => (
+        <div
+            ref={ref}
+            className={`relative flex-1 min-w-0 h-full overflow-hidden rounded-lg bg-gray-900/70 touch-none select-none ${viewport.zoom > MIN_ZOOM ? 'cursor-grab active:cursor-grabbing' : ''}`}
+            onWheel={handleWheel}
+            onPointerDown={(e) => handlePointerDown(e, 'pan')}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            onDoubleClick={() => setViewport(FIT)}
+        >
+            {children}
+        </div>
+    );
+
+    const renderLayer = (url: string | null, alt: string, style?: React.CSSProperties) => (
+        <div className="absolute inset-0" style={style}>
+            <div className="absolute inset-0" style={layerStyle}>
+                {url && <img src={url} alt={alt} draggable={false} className="w-full h-full object-contain" />}
+            </div>
+        </div>
+    );
+
+    const renderCaption = (label: string, image: LibraryImage | null, position: string) => image && (
+        <span className={`absolute top-2 ${position} bg-black/60 text-xs font-semibold text-gray-200 px-2 py-0.5 rounded-full pointer-events-none`}>
+            {label} · {image.width}×{image.height}
+        </span>
+    );
+
+    const chipClass = (isActive: boolean) => `px-3 py-1 text-xs font-semibold rounded-md transition-colors ${
+        isActive ? 'bg-yellow-500 text-gray-900' : 'bg-gray-700/50 text-gray-300 hover:bg-gray-700'
+    }`;
+    const smallButtonClass = 'text-xs font-semibold bg-gray-700/50 text-gray-300 px-2 py-1 rounded-md hover:bg-gray-700 transition-colors';
+
+    return (
+        <div ref={rootRef} className="w-full h-full flex flex-col p-4 gap-3">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="flex gap-1">
+                    {modes.map(option => (
+                        <button key={option.value} onClick={() => setMode(option.value)} className={chipClass(mode === option.value)}>
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+                <div className="flex items-center gap-1">
+                    <button onClick={() => zoomFromCenter(1 / ZOOM_STEP, paneRef.current)} className={smallButtonClass} aria-label="Zoom out">−</button>
+                    <button onClick={() => setViewport(FIT)} className={`${smallButtonClass} w-14 tabular-nums`} title="Fit">
+                        {Math.round(viewport.zoom * 100)}%
+                    </button>
+                    <button onClick={() => zoomFromCenter(ZOOM_STEP, paneRef.current)} className={smallButtonClass} aria-label="Zoom in">+</button>
+                    <button onClick={onClose} className="ml-2 text-gray-400 hover:text-gray-200 transition-colors" aria-label="Close comparison">
+                        <XCircleIcon className="w-6 h-6" />
+                    </button>
+                </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3">
+                <ImagePicker label="Before" value={beforeId} history={history} library={library} onChange={setBeforeId} />
+                <button
+                    onClick={() => { setBeforeId(afterId); setAfterId(beforeId); }}
+                    className={smallButtonClass}
+                    aria-label="Swap images"
+                >
+                    ⇄
+                </button>
+                <ImagePicker label="After" value={afterId} history={history} library={library} onChange={setAfterId} />
+                {mode === 'onion' && (
+                    <label className="flex items-center gap-2 text-xs font-semibold text-gray-300">
+                        Opacity
+                        <input
+                            type="range"
+                            min={0}
+                            max={100}
+                            value={Math.round(opacity * 100)}
+                            onChange={(e) => setOpacity(Number(e.target.value) / 100)}
+                            className="w-28 accent-yellow-500"
+                        />
+                    </label>
+                )}
+            </div>
+
+            <div className="flex-1 min-h-0 flex gap-2">
+                {mode === 'side-by-side' ? (
+                    <>
+                        {renderPane(<>{renderLayer(beforeUrl, 'Before')}{renderCaption('Before', before, 'left-2')}</>, paneRef)}
+                        {renderPane(<>{renderLayer(afterUrl, 'After')}{renderCaption('After', after, 'left-2')}</>)}
+                    </>
+                ) : mode === 'onion' ? (
+                    renderPane(<>
+                        {renderLayer(beforeUrl, 'Before')}
+                        {renderLayer(afterUrl, 'After', { opacity })}
+                        {renderCaption('Before', before, 'left-2')}
+                        {renderCaption('After', after, 'right-2')}
+                    </>, paneRef)
+                ) : (
+                    renderPane(<>
+                        {renderLayer(beforeUrl, 'Before')}
+                        {/* The clip is applied outside the zoomed layer, so the divider stays where it is on screen. */}
+                        {renderLayer(afterUrl, 'After', { clipPath: `inset(0 0 0 ${split * 100}%)` })}
+                        <div
+                            className="absolute top-0 bottom-0 w-6 -ml-3 flex justify-center cursor-ew-resize"
+                            style={{ left: `${split * 100}%` }}
+                            onPointerDown={(e) => handlePointerDown(e, 'split')}
+                            role="slider"
+                            aria-label="Comparison divider"
+                            aria-valuemin={0}
+                            aria-valuemax={100}
+                            aria-valuenow={Math.round(split * 100)}
+                            tabIndex={0}
+                            onKeyDown={(e) => {
+                                if (e.key === 'ArrowLeft') setSplit(value => clamp(value - 0.05, 0, 1));
+                                if (e.key === 'ArrowRight') setSplit(value => clamp(value + 0.05, 0, 1));
+                            }}
+                        >
+                            <div className="w-0.5 h-full bg-yellow-400 shadow" />
+                            <div className="absolute top-1/2 -translate-y-1/2 w-6 h-6 rounded-full bg-yellow-400 text-gray-900 text-xs font-bold flex items-center justify-center">⇔</div>
+                        </div>
+                        {renderCaption('Before', before, 'left-2')}
+                        {renderCaption('After', after, 'right-2')}
+                    </>, paneRef)
+                )}
+            </div>
+            <p className="text-xs text-center text-gray-500">Scroll to zoom, drag to pan, double-click to fit.</p>
+        </div>
+    );
+};
+
+export default ComparisonView;
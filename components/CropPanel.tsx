@@ -2,3 +2,293 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import React, { useEffect, useRef, useState } from 'react';
+import type { AspectRatio } from '../types';
+import {
+    ASPECT_RATIO_VALUES, CropRect, ImageTransform, drawTransformed, loadImage, transformAndCrop, transformedSize,
+} from '../services/imageUtils';
+import { UndoIcon, RedoIcon, ArrowsRightLeftIcon, ArrowsUpDownIcon, CropIcon } from './icons';
+
+type CropAspect = 'free' | AspectRatio;
+type DragMode = 'move' | 'nw' | 'ne' | 'sw' | 'se';
+
+const PREVIEW_LONG_EDGE = 1200;
+const MIN_CROP_SIZE = 0.05;
+const FULL_CROP: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+const IDENTITY_TRANSFORM: ImageTransform = { rotation: 0, straighten: 0, flipHorizontal: false, flipVertical: false };
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const ratioOf = (aspect: AspectRatio) => {
+    const [w, h] = aspect.split(':').map(Number);
+    return w / h;
+};
+
+// The largest centered crop with the given pixel aspect ratio, in normalized coordinates.
+const centeredCrop = (aspect: CropAspect, imageRatio: number): CropRect => {
+    if (aspect === 'free') return FULL_CROP;
+    const normalizedRatio = ratioOf(aspect) / imageRatio;
+    const width = normalizedRatio >= 1 ? 1 : normalizedRatio;
+    const height = normalizedRatio >= 1 ? 1 / normalizedRatio : 1;
+    return { x: (1 - width) / 2, y: (1 - height) / 2, width, height };
+};
+
+const describeChanges = (transform: ImageTransform, aspect: CropAspect, crop: CropRect): string => {
+    const parts: string[] = [];
+    if (crop.width < 1 || crop.height < 1) parts.push(aspect === 'free' ? 'Crop' : `Crop ${aspect}`);
+    if (transform.rotation) parts.push(`Rotate ${transform.rotation}°`);
+    if (transform.straighten) parts.push(`Straighten ${transform.straighten}°`);
+    if (transform.flipHorizontal) parts.push('Flip horizontal');
+    if (transform.flipVertical) parts.push('Flip vertical');
+    return parts.join(' · ');
+};
+
+type CropPanelProps = {
+    imageUrl: string;
+    onApply: (dataUrl: string, description: string, aspectRatio?: AspectRatio) => void;
+    onCancel: () => void;
+};
+
+const CropPanel: React.FC<CropPanelProps> = ({ imageUrl, onApply, onCancel }) => {
+    const previewRef = useRef<HTMLCanvasElement>(null);
+    const dragRef = useRef<{ mode: DragMode; startX: number; startY: number; startCrop: CropRect } | null>(null);
+    const [image, setImage] = useState<HTMLImageElement | null>(null);
+    const [transform, setTransform] = useState<ImageTransform>(IDENTITY_TRANSFORM);
+    const [aspect, setAspect] = useState<CropAspect>('free');
+    const [crop, setCrop] = useState<CropRect>(FULL_CROP);
+    const [box, setBox] = useState({ left: 0, top: 0, width: 0, height: 0 });
+    const [isApplying, setIsApplying] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let isCancelled = false;
+        loadImage(imageUrl)
+            .then(loaded => { if (!isCancelled) setImage(loaded); })
+            .catch((err: any) => { if (!isCancelled) setError(err.message || 'Could not load the image.'); });
+        return () => { isCancelled = true; };
+    }, [imageUrl]);
+
+    const size = image ? transformedSize(image.naturalWidth, image.naturalHeight, transform) : { width: 1, height: 1 };
+    const imageRatio = size.width / size.height;
+
+    // Redraw the preview whenever the orientation changes.
+    useEffect(() => {
+        const preview = previewRef.current;
+        if (!image || !preview) return;
+        const scale = Math.min(1, PREVIEW_LONG_EDGE / Math.max(image.naturalWidth, image.naturalHeight));
+        const rendered = drawTransformed(image, transform, scale);
+        preview.width = rendered.width;
+        preview.height = rendered.height;
+        preview.getContext('2d')?.drawImage(rendered, 0, 0);
+    }, [image, transform]);
+
+    // Keep the crop overlay aligned with the preview as the layout changes.
+    useEffect(() => {
+        const preview = previewRef.current;
+        if (!preview) return;
+        const updateBox = () => setBox({
+            left: preview.offsetLeft,
+            top: preview.offsetTop,
+            width: preview.offsetWidth,
+            height: preview.offsetHeight,
+        });
+        const observer = new ResizeObserver(updateBox);
+        observer.observe(preview);
+        if (preview.parentElement) observer.observe(preview.parentElement);
+        updateBox();
+        return () => observer.disconnect();
+    }, []);
+
+    const selectAspect = (value: CropAspect) => {
+        setAspect(value);
+        setCrop(centeredCrop(value, imageRatio));
+    };
+
+    const rotate = (quarterTurns: 1 | -1) => {
+        const rotation = ((transform.rotation + quarterTurns * 90 + 360) % 360) as ImageTransform['rotation'];
+        setTransform({ ...transform, rotation });
+        // A quarter turn swaps the frame's width and height, so the old crop no longer fits.
+        setCrop(centeredCrop(aspect, 1 / imageRatio));
+    };
+
+    const handlePointerDown = (mode: DragMode) => (e: React.PointerEvent) => {
+        e.stopPropagation();
+        (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+        dragRef.current = { mode, startX: e.clientX, startY: e.clientY, startCrop: crop };
+    };
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        const drag = dragRef.current;
+        const preview = previewRef.current;
+        if (!drag || !preview) return;
+        const rect = preview.getBoundingClientRect();
+        const { startCrop } = drag;
+
+        if (drag.mode === 'move') {
+            const dx = (e.clientX - drag.startX) / rect.width;
+            const dy = (e.clientY - drag.startY) / rect.height;
+            setCrop({
+                ...startCrop,
+                x: clamp(startCrop.x + dx, 0, 1 - startCrop.width),
+                y: clamp(startCrop.y + dy, 0, 1 - startCrop.height),
+            });
+            return;
+        }
+
+        // Resize from a corner, keeping the opposite corner fixed.
+        const anchorX = drag.mode.includes('w') ? startCrop.x + startCrop.width : startCrop.x;
+        const anchorY = drag.mode.includes('n') ? startCrop.y + startCrop.height : startCrop.y;
+        const pointerX = clamp((e.clientX - rect.left) / rect.width, 0, 1);
+        const pointerY = clamp((e.clientY - rect.top) / rect.height, 0, 1);
+        let width = Math.max(MIN_CROP_SIZE, Math.abs(pointerX - anchorX));
+        let height = Math.max(MIN_CROP_SIZE, Math.abs(pointerY - anchorY));
+        if (aspect !== 'free') {
+            const normalizedRatio = ratioOf(aspect) / imageRatio;
+            if (width / height > normalizedRatio) width = height * normalizedRatio;
+            else height = width / normalizedRatio;
+        }
+        const x = drag.mode.includes('w') ? anchorX - width : anchorX;
+        const y = drag.mode.includes('n') ? anchorY - height : anchorY;
+        if (x < 0 || y < 0 || x + width > 1 || y + height > 1) return;
+        setCrop({ x, y, width, height });
+    };
+
+    const handlePointerUp = () => {
+        dragRef.current = null;
+    };
+
+    const handleApply = async () => {
+        setIsApplying(true);
+        setError(null);
+        try {
+            const result = await transformAndCrop(imageUrl, transform, crop);
+            onApply(result, describeChanges(transform, aspect, crop), aspect === 'free' ? undefined : aspect);
+        } catch (err: any) {
+            setError(err.message || 'Could not apply the crop.');
+        } finally {
+            setIsApplying(false);
+        }
+    };
+
+    const isUnchanged = describeChanges(transform, aspect, crop) === '';
+    const chipClass = (isActive: boolean) => `px-2.5 py-1 text-xs font-semibold rounded-md transition-colors ${
+        isActive ? 'bg-yellow-500 text-gray-900' : 'bg-gray-700/50 text-gray-300 hover:bg-gray-700'
+    }`;
+    const iconButtonClass = 'p-2 rounded-lg bg-gray-700/50 text-gray-300 hover:bg-gray-700 transition-colors';
+
+    return (
+        <div className="relative w-full h-full flex flex-col items-center p-4 gap-4">
+            <div className="flex flex-wrap items-center justify-center gap-3 bg-gray-800/80 backdrop-blur-lg border border-gray-700 rounded-xl px-4 py-2 text-gray-200 shadow-lg">
+                <div className="flex items-center gap-1">
+                    <CropIcon className="w-4 h-4 text-gray-400 mr-1" />
+                    <button onClick={() => selectAspect('free')} className={chipClass(aspect === 'free')}>Free</button>
+                    {ASPECT_RATIO_VALUES.map(value => (
+                        <button key={value} onClick={() => selectAspect(value)} className={chipClass(aspect === value)}>{value}</button>
+                    ))}
+                </div>
+                <div className="flex items-center gap-1">
+                    <button onClick={() => rotate(-1)} className={iconButtonClass} aria-label="Rotate left" title="Rotate left">
+                        <UndoIcon className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => rotate(1)} className={iconButtonClass} aria-label="Rotate right" title="Rotate right">
+                        <RedoIcon className="w-4 h-4" />
+                    </button>
+                    <button
+                        onClick={() => setTransform({ ...transform, flipHorizontal: !transform.flipHorizontal })}
+                        className={iconButtonClass}
+                        aria-label="Flip horizontal"
+                        title="Flip horizontal"
+                    >
+                        <ArrowsRightLeftIcon className="w-4 h-4" />
+                    </button>
+                    <button
+                        onClick={() => setTransform({ ...transform, flipVertical: !transform.flipVertical })}
+                        className={iconButtonClass}
+                        aria-label="Flip vertical"
+                        title="Flip vertical"
+                    >
+                        <ArrowsUpDownIcon className="w-4 h-4" />
+                    </button>
+                </div>
+                <label className="flex items-center gap-2 text-xs font-semibold text-gray-300">
+                    Straighten
+                    <input
+                        type="range"
+                        min={-45}
+                        max={45}
+                        step={0.5}
+                        value={transform.straighten}
+                        onChange={(e) => setTransform({ ...transform, straighten: Number(e.target.value) })}
+                        onDoubleClick={() => setTransform({ ...transform, straighten: 0 })}
+                        className="w-28 accent-yellow-500"
+                    />
+                    <span className="w-10 text-right tabular-nums">{transform.straighten}°</span>
+                </label>
+            </div>
+
+            <div
+                className="relative w-full flex-1 min-h-0 flex items-center justify-center overflow-hidden"
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+            >
+                <canvas ref={previewRef} className="max-w-full max-h-full object-contain select-none" />
+                {image && (
+                    <div
+                        className="absolute border-2 border-yellow-400 cursor-move touch-none"
+                        style={{
+                            left: box.left + crop.x * box.width,
+                            top: box.top + crop.y * box.height,
+                            width: crop.width * box.width,
+                            height: crop.height * box.height,
+                            boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.6)',
+                        }}
+                        onPointerDown={handlePointerDown('move')}
+                    >
+                        {/* Rule-of-thirds guides */}
+                        <div className="absolute inset-0 pointer-events-none grid grid-cols-3 grid-rows-3">
+                            {Array.from({ length: 9 }, (_, i) => (
+                                <div key={i} className="border border-white/20" />
+                            ))}
+                        </div>
+                        {(['nw', 'ne', 'sw', 'se'] as const).map(corner => (
+                            <div
+                                key={corner}
+                                onPointerDown={handlePointerDown(corner)}
+                                className={`absolute w-4 h-4 bg-yellow-400 rounded-sm touch-none ${
+                                    corner === 'nw' ? '-left-2 -top-2 cursor-nwse-resize'
+                                        : corner === 'ne' ? '-right-2 -top-2 cursor-nesw-resize'
+                                        : corner === 'sw' ? '-left-2 -bottom-2 cursor-nesw-resize'
+                                        : '-right-2 -bottom-2 cursor-nwse-resize'
+                                }`}
+                            />
+                        ))}
+                    </div>
+                )}
+                {error && (
+                    <p className="absolute bottom-2 left-1/2 -translate-x-1/2 bg-red-500/10 border border-red-500/20 text-red-300 text-sm px-3 py-2 rounded-lg">
+                        {error}
+                    </p>
+                )}
+            </div>
+
+            <div className="flex items-center gap-3">
+                <span className="text-xs text-gray-400 tabular-nums">
+                    {Math.round(crop.width * size.width)} × {Math.round(crop.height * size.height)} px
+                </span>
+                <button onClick={onCancel} className="text-sm font-semibold text-gray-400 hover:text-gray-200 px-4 py-2 transition-colors">
+                    Cancel
+                </button>
+                <button
+                    onClick={handleApply}
+                    disabled={!image || isApplying || isUnchanged}
+                    className="bg-yellow-500 text-gray-900 font-bold py-2 px-6 rounded-lg hover:bg-yellow-400 transition-all duration-300 disabled:bg-gray-600 disabled:cursor-not-allowed"
+                >
+                    Apply
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default CropPanel;
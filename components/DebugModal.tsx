@@ -2,3 +2,218 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import React, { useEffect, useMemo, useState } from 'react';
+import { canReplay, clearDebugLog, DebugEntry, DebugStatus, replayRequest, subscribeDebugLog } from '../services/debugLog';
+import { ArrowPathIcon, BugAntIcon, XCircleIcon } from './icons';
+
+type StatusFilter = 'all' | DebugStatus;
+
+const STATUS_FILTERS: { value: StatusFilter; label: string }[] = [
+    { value: 'all', label: 'All' },
+    { value: 'failed', label: 'Failed' },
+    { value: 'succeeded', label: 'Succeeded' },
+    { value: 'pending', label: 'Pending' },
+];
+
+const statusStyles: Record<DebugStatus, string> = {
+    'pending': 'text-yellow-300',
+    'succeeded': 'text-green-300',
+    'failed': 'text-red-300',
+};
+
+const formatTime = (time: number) => new Date(time).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+// Everything a search can match: the request (including the prompt), errors and reasons.
+const searchableText = (entry: DebugEntry) => [
+    entry.method, entry.model, entry.finishReason, entry.blockReason, entry.error?.message, JSON.stringify(entry.request),
+].filter(Boolean).join(' ').toLowerCase();
+
+const JsonBlock: React.FC<{ title: string; value: unknown }> = ({ title, value }) => (
+    <details open className="flex flex-col gap-1">
+        <summary className="text-xs font-semibold text-gray-400 cursor-pointer select-none">{title}</summary>
+        <pre className="text-[11px] leading-snug text-gray-300 bg-gray-900/70 rounded-lg p-2 overflow-auto max-h-72 whitespace-pre-wrap break-all">
+            {JSON.stringify(value, null, 2)}
+        </pre>
+    </details>
+);
+
+type DebugModalProps = {
+    onClose: () => void;
+};
+
+/**
+ * Inspects the raw requests sent to the model API and what came back, so failures can be
+ * diagnosed without the browser's developer tools.
+ */
+const DebugModal: React.FC<DebugModalProps> = ({ onClose }) => {
+    const [entries, setEntries] = useState<DebugEntry[]>([]);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [query, setQuery] = useState('');
+    const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+    const [copiedId, setCopiedId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => subscribeDebugLog(setEntries), []);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    const matching = useMemo(() => {
+        const needle = query.trim().toLowerCase();
+        return entries.filter(entry => (statusFilter === 'all' || entry.status === statusFilter) && (!needle || searchableText(entry).includes(needle)));
+    }, [entries, query, statusFilter]);
+
+    // Until something is picked, show the newest failure, or else the newest request.
+    const selected = entries.find(entry => entry.id === selectedId)
+        ?? matching.find(entry => entry.status === 'failed')
+        ?? matching[0]
+        ?? null;
+    const replaysOfSelected = selected ? entries.filter(entry => entry.replayOf === selected.id) : [];
+
+    const handleCopy = async (entry: DebugEntry) => {
+        setError(null);
+        try {
+            await navigator.clipboard.writeText(JSON.stringify(entry, null, 2));
+            setCopiedId(entry.id);
+            window.setTimeout(() => setCopiedId(null), 1500);
+        } catch (err: any) {
+            setError(err.message || 'Could not copy to the clipboard.');
+        }
+    };
+
+    const handleReplay = async (entry: DebugEntry) => {
+        setError(null);
+        try {
+            await replayRequest(entry.id);
+        } catch (err: any) {
+            setError(err.message || 'Could not replay the request.');
+        }
+    };
+
+    const chipClass = (isActive: boolean) => `px-2 py-1 text-xs font-semibold rounded-md transition-colors ${
+        isActive ? 'bg-yellow-500 text-gray-900' : 'bg-gray-700/50 text-gray-300 hover:bg-gray-700'
+    }`;
+
+    return (
+        <div className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+            <div
+                className="w-full max-w-5xl h-full max-h-[48rem] bg-gray-800/90 backdrop-blur-lg border border-gray-700 rounded-2xl flex flex-col gap-4 p-5 text-gray-200 shadow-2xl"
+                onClick={e => e.stopPropagation()}
+                role="dialog"
+                aria-label="Debug inspector"
+            >
+                <div className="flex items-center justify-between">
+                    <h2 className="text-lg font-bold text-gray-100 flex items-center gap-2">
+                        <BugAntIcon className="w-5 h-5" /> Requests
+                    </h2>
+                    <div className="flex items-center gap-4">
+                        <button
+                            onClick={clearDebugLog}
+                            disabled={entries.length === 0}
+                            className="text-xs font-semibold text-gray-400 hover:text-gray-200 transition-colors disabled:opacity-50"
+                        >
+                            Clear log
+                        </button>
+                        <button onClick={onClose} className="text-gray-400 hover:text-gray-200 transition-colors" aria-label="Close debug inspector">
+                            <XCircleIcon className="w-6 h-6" />
+                        </button>
+                    </div>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2">
+                    <input
+                        type="search"
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value)}
+                        placeholder="Filter by prompt, model, reason or error"
+                        className="flex-1 min-w-[12rem] bg-gray-900/70 border border-gray-700 text-gray-200 rounded-lg px-2 py-1.5 text-sm focus:ring-2 focus:ring-yellow-500 focus:outline-none placeholder:text-gray-500"
+                    />
+                    {STATUS_FILTERS.map(option => (
+                        <button key={option.value} onClick={() => setStatusFilter(option.value)} className={chipClass(statusFilter === option.value)}>
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+
+                {error && <p className="text-sm text-red-300">{error}</p>}
+
+                {entries.length === 0 ? (
+                    <p className="text-sm text-gray-400">No requests yet. Requests to the model API appear here as they are sent, until the page is reloaded.</p>
+                ) : (
+                    <div className="flex-1 min-h-0 flex gap-4">
+                        <ul className="w-72 flex-shrink-0 overflow-y-auto flex flex-col gap-1">
+                            {matching.map(entry => (
+                                <li key={entry.id}>
+                                    <button
+                                        onClick={() => setSelectedId(entry.id)}
+                                        className={`w-full text-left rounded-lg px-2 py-1.5 text-xs transition-colors ${
+                                            entry.id === selected?.id ? 'bg-yellow-500/20' : 'bg-gray-900/50 hover:bg-gray-900'
+                                        }`}
+                                    >
+                                        <span className="flex items-center justify-between gap-2">
+                                            <span className="font-semibold text-gray-200 truncate">{entry.method}</span>
+                                            <span className={`flex-shrink-0 ${statusStyles[entry.status]}`}>
+                                                {entry.status === 'pending' ? 'Pending' : entry.error?.status ?? entry.blockReason ?? entry.finishReason ?? (entry.status === 'failed' ? 'Failed' : 'OK')}
+                                            </span>
+                                        </span>
+                                        <span className="flex items-center justify-between gap-2 text-gray-500 tabular-nums">
+                                            <span>{formatTime(entry.startedAt)}{entry.replayOf ? ' · replay' : ''}</span>
+                                            <span>{entry.durationMs !== null ? `${(entry.durationMs / 1000).toFixed(1)}s` : ''}</span>
+                                        </span>
+                                    </button>
+                                </li>
+                            ))}
+                            {matching.length === 0 && <li className="text-xs text-gray-400">No requests match.</li>}
+                        </ul>
+
+                        {selected && (
+                            <div className="flex-1 min-w-0 overflow-y-auto flex flex-col gap-3">
+                                <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-gray-400">
+                                    <span className={`font-semibold ${statusStyles[selected.status]}`}>{selected.status}</span>
+                                    <span>{selected.provider} · {selected.model}</span>
+                                    <span>key {selected.apiKey}</span>
+                                    <span className="tabular-nums">{formatTime(selected.startedAt)}{selected.durationMs !== null ? ` · ${selected.durationMs} ms` : ''}</span>
+                                    {selected.finishReason && <span>finish: {selected.finishReason}</span>}
+                                    {selected.blockReason && <span className="text-red-300">blocked: {selected.blockReason}</span>}
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    <button onClick={() => handleCopy(selected)} className="text-xs font-semibold bg-gray-700/50 text-gray-300 px-3 py-1.5 rounded-md hover:bg-gray-700 transition-colors">
+                                        {copiedId === selected.id ? 'Copied' : 'Copy as JSON'}
+                                    </button>
+                                    <button
+                                        onClick={() => handleReplay(selected)}
+                                        disabled={!canReplay(selected.id)}
+                                        className="text-xs font-semibold bg-gray-700/50 text-gray-300 px-3 py-1.5 rounded-md hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
+                                        title={canReplay(selected.id) ? 'Send the same request again. The result is logged here, not added to the library.' : 'Only the most recent requests are kept in full and can be replayed.'}
+                                    >
+                                        <ArrowPathIcon className="w-3.5 h-3.5" /> Replay request
+                                    </button>
+                                </div>
+                                {replaysOfSelected.length > 0 && (
+                                    <div className="flex flex-wrap items-center gap-1 text-xs text-gray-400">
+                                        Replays:
+                                        {replaysOfSelected.map(replay => (
+                                            <button key={replay.id} onClick={() => setSelectedId(replay.id)} className={`underline hover:text-gray-200 ${statusStyles[replay.status]}`}>
+                                                {formatTime(replay.startedAt)}
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
+                                {selected.error && <JsonBlock title="Error" value={selected.error} />}
+                                <JsonBlock title="Request" value={selected.request} />
+                                {selected.response !== null && <JsonBlock title="Response" value={selected.response} />}
+                            </div>
+                        )}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default DebugModal;
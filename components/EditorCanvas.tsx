@@ -2,3 +2,182 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import React, { forwardRef, useCallback, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import { createCanvas } from '../services/imageUtils';
+
+export type MaskTool = 'brush' | 'eraser';
+
+export type EditorCanvasHandle = {
+    /** Returns the mask as a PNG data URL at the image's full resolution; painted pixels are opaque. */
+    getMask: () => string | null;
+    clear: () => void;
+    invert: () => void;
+};
+
+type EditorCanvasProps = {
+    imageUrl: string;
+    tool: MaskTool;
+    /** Brush diameter in screen pixels. */
+    brushSize: number;
+    onMaskChange: (hasMask: boolean) => void;
+};
+
+const MASK_COLOR = 'rgb(239, 68, 68)';
+
+const isCanvasEmpty = (canvas: HTMLCanvasElement): boolean => {
+    const ctx = canvas.getContext('2d');
+    if (!ctx || canvas.width === 0) return true;
+    const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    for (let i = 3; i < data.length; i += 4) {
+        if (data[i] !== 0) return false;
+    }
+    return true;
+};
+
+/**
+ * Shows an image with a paintable mask layer on top. The mask canvas matches the
+ * image's natural size, so the mask lines up pixel-for-pixel with the original.
+ */
+const EditorCanvas = forwardRef<EditorCanvasHandle, EditorCanvasProps>(({ imageUrl, tool, brushSize, onMaskChange }, ref) => {
+    const imageRef = useRef<HTMLImageElement>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+    const [box, setBox] = useState({ left: 0, top: 0, width: 0, height: 0 });
+    const [cursor, setCursor] = useState<{ x: number; y: number } | null>(null);
+
+    // Keep the overlay aligned with wherever the image is laid out.
+    useEffect(() => {
+        const image = imageRef.current;
+        if (!image) return;
+        const updateBox = () => setBox({
+            left: image.offsetLeft,
+            top: image.offsetTop,
+            width: image.offsetWidth,
+            height: image.offsetHeight,
+        });
+        const observer = new ResizeObserver(updateBox);
+        observer.observe(image);
+        if (image.parentElement) observer.observe(image.parentElement);
+        updateBox();
+        return () => observer.disconnect();
+    }, []);
+
+    const handleImageLoad = () => {
+        const image = imageRef.current;
+        const canvas = canvasRef.current;
+        if (!image || !canvas) return;
+        canvas.width = image.naturalWidth;
+        canvas.height = image.naturalHeight;
+        onMaskChange(false);
+    };
+
+    const notifyChange = useCallback(() => {
+        if (canvasRef.current) onMaskChange(!isCanvasEmpty(canvasRef.current));
+    }, [onMaskChange]);
+
+    useImperativeHandle(ref, () => ({
+        getMask: () => {
+            const canvas = canvasRef.current;
+            return canvas && !isCanvasEmpty(canvas) ? canvas.toDataURL('image/png') : null;
+        },
+        clear: () => {
+            const canvas = canvasRef.current;
+            canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+            onMaskChange(false);
+        },
+        invert: () => {
+            const canvas = canvasRef.current;
+            const ctx = canvas?.getContext('2d');
+            if (!canvas || !ctx) return;
+            const { canvas: inverted, ctx: invertedCtx } = createCanvas(canvas.width, canvas.height);
+            invertedCtx.fillStyle = MASK_COLOR;
+            invertedCtx.fillRect(0, 0, canvas.width, canvas.height);
+            invertedCtx.globalCompositeOperation = 'destination-out';
+            invertedCtx.drawImage(canvas, 0, 0);
+            ctx.clearRect(0, 0, canvas.width, canvas.height);
+            ctx.drawImage(inverted, 0, 0);
+            notifyChange();
+        },
+    }), [onMaskChange, notifyChange]);
+
+    const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const canvas = e.currentTarget;
+        const rect = canvas.getBoundingClientRect();
+        return {
+            x: (e.clientX - rect.left) * (canvas.width / rect.width),
+            y: (e.clientY - rect.top) * (canvas.height / rect.height),
+        };
+    };
+
+    const paintTo = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const canvas = e.currentTarget;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return;
+        const point = toCanvasPoint(e);
+        const from = lastPointRef.current ?? point;
+        ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+        ctx.strokeStyle = MASK_COLOR;
+        ctx.lineCap = 'round';
+        ctx.lineJoin = 'round';
+        ctx.lineWidth = brushSize * (canvas.width / canvas.getBoundingClientRect().width);
+        ctx.beginPath();
+        ctx.moveTo(from.x, from.y);
+        ctx.lineTo(point.x, point.y);
+        ctx.stroke();
+        lastPointRef.current = point;
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        lastPointRef.current = null;
+        paintTo(e);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        setCursor({ x: e.clientX - rect.left, y: e.clientY - rect.top });
+        if (lastPointRef.current) paintTo(e);
+    };
+
+    const handlePointerUp = () => {
+        if (!lastPointRef.current) return;
+        lastPointRef.current = null;
+        notifyChange();
+    };
+
+    return (
+        <div className="relative w-full flex-1 min-h-0 flex items-center justify-center">
+            <img
+                ref={imageRef}
+                src={imageUrl}
+                alt="Image being masked"
+                onLoad={handleImageLoad}
+                draggable={false}
+                className="max-w-full max-h-full object-contain rounded-lg select-none"
+            />
+            <canvas
+                ref={canvasRef}
+                style={{ left: box.left, top: box.top, width: box.width, height: box.height }}
+                className="absolute opacity-50 rounded-lg touch-none cursor-none"
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+                onPointerLeave={() => setCursor(null)}
+            />
+            {cursor && (
+                <div
+                    className={`absolute pointer-events-none rounded-full border-2 ${tool === 'eraser' ? 'border-gray-200' : 'border-red-400'}`}
+                    style={{
+                        width: brushSize,
+                        height: brushSize,
+                        left: box.left + cursor.x - brushSize / 2,
+                        top: box.top + cursor.y - brushSize / 2,
+                    }}
+                />
+            )}
+        </div>
+    );
+});
+
+export default EditorCanvas;
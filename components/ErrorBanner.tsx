@@ -0,0 +1,116 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { ImageServiceError, NoImageError, RateLimitError } from '../services/errors';
+import { XCircleIcon } from './icons';
+
+const REPHRASE_SUGGESTIONS = [
+    'Describe the scene in neutral, factual terms.',
+    'Leave out real people, brands, weapons or graphic detail.',
+    'Focus on style, lighting and composition rather than sensitive specifics.',
+];
+
+const titles: Record<ImageServiceError['kind'], string> = {
+    'safety': 'Blocked by safety filters',
+    'rate-limit': 'Rate limit reached',
+    'network': 'Connection problem',
+    'invalid-key': 'API key rejected',
+    'no-image': 'No image returned',
+};
+
+type ErrorBannerProps = {
+    error: string | ImageServiceError;
+    /** Re-runs the request that failed, if there is one. */
+    onRetry: (() => void) | null;
+    onDismiss: () => void;
+    /** Opens the request log, to see what the service actually returned. */
+    onInspect?: () => void;
+    /** Opens settings, where a missing or rejected API key is fixed. */
+    onOpenSettings?: () => void;
+};
+
+const ErrorBanner: React.FC<ErrorBannerProps> = ({ error, onRetry, onDismiss, onInspect, onOpenSettings }) => {
+    const retryAfterMs = error instanceof RateLimitError ? error.retryAfterMs : null;
+    const [secondsLeft, setSecondsLeft] = useState(retryAfterMs ? Math.ceil(retryAfterMs / 1000) : 0);
+
+    useEffect(() => {
+        setSecondsLeft(retryAfterMs ? Math.ceil(retryAfterMs / 1000) : 0);
+    }, [error, retryAfterMs]);
+
+    useEffect(() => {
+        if (secondsLeft <= 0) return;
+        const timer = window.setTimeout(() => setSecondsLeft(secondsLeft - 1), 1000);
+        return () => window.clearTimeout(timer);
+    }, [secondsLeft]);
+
+    const typed = typeof error === 'string' ? null : error;
+    const canRetry = onRetry !== null && typed !== null && typed.kind !== 'safety' && typed.kind !== 'invalid-key';
+    const canOpenSettings = typed?.kind === 'invalid-key' && onOpenSettings !== undefined;
+
+    const handleRetry = () => {
+        onDismiss();
+        onRetry?.();
+    };
+
+    return (
+        <div className="absolute top-8 max-w-lg w-full bg-red-500/20 border border-red-500 text-red-200 px-4 py-3 pr-12 rounded-lg z-20 flex flex-col gap-2" role="alert">
+            <p>
+                <strong className="font-bold">{typed ? `${titles[typed.kind]}: ` : 'Error: '}</strong>
+                <span>{typeof error === 'string' ? error : error.message}</span>
+            </p>
+
+            {typed?.kind === 'safety' && (
+                <div className="text-sm">
+                    <p className="font-semibold">Try rephrasing your prompt:</p>
+                    <ul className="list-disc list-inside text-red-100/80">
+                        {REPHRASE_SUGGESTIONS.map(suggestion => <li key={suggestion}>{suggestion}</li>)}
+                    </ul>
+                </div>
+            )}
+            {typed instanceof NoImageError && typed.modelText && (
+                <p className="text-sm text-red-100/80">The model replied: “{typed.modelText}”</p>
+            )}
+            {typed?.kind === 'invalid-key' && (
+                <p className="text-sm text-red-100/80">Check the API key, or the proxy access token, in Settings, then try again.</p>
+            )}
+            {typed?.kind === 'network' && (
+                <p className="text-sm text-red-100/80">Check your internet connection, then try again.</p>
+            )}
+
+            {(canRetry || canOpenSettings || (typed && onInspect)) && (
+                <div className="flex items-center gap-2">
+                    {canRetry && (
+                        <button
+                            onClick={handleRetry}
+                            disabled={secondsLeft > 0}
+                            className="text-sm font-semibold bg-red-500/30 text-red-100 px-3 py-1.5 rounded-lg hover:bg-red-500/50 transition-colors disabled:opacity-60 disabled:cursor-not-allowed tabular-nums"
+                        >
+                            {secondsLeft > 0 ? `Retry in ${secondsLeft}s` : 'Retry'}
+                        </button>
+                    )}
+                    {canOpenSettings && (
+                        <button
+                            onClick={onOpenSettings}
+                            className="text-sm font-semibold bg-red-500/30 text-red-100 px-3 py-1.5 rounded-lg hover:bg-red-500/50 transition-colors"
+                        >
+                            Open Settings
+                        </button>
+                    )}
+                    {typed && onInspect && (
+                        <button onClick={onInspect} className="text-sm font-semibold text-red-100/80 hover:text-red-100 underline transition-colors">
+                            Inspect request
+                        </button>
+                    )}
+                </div>
+            )}
+
+            <button onClick={onDismiss} className="absolute top-0 right-0 px-4 py-3" aria-label="Close">
+                <XCircleIcon className="w-6 h-6"/>
+            </button>
+        </div>
+    );
+};
+
+export default ErrorBanner;
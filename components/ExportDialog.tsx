@@ -0,0 +1,249 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import type { LibraryImage } from '../types';
+import { loadImage } from '../services/imageUtils';
+import {
+    DEFAULT_FILENAME_TEMPLATE, EXPORT_FORMATS, ExportFormat, buildExportMetadata, canEncode, embedMetadata, formatFilename, renderExport,
+} from '../services/exportService';
+import { DownloadIcon, XCircleIcon } from './icons';
+
+const MAX_DIMENSION = 8192;
+const SCALE_PRESETS = [0.5, 1, 2];
+
+type ExportDialogProps = {
+    /** The image to export, or null while its layers are still being flattened into it. */
+    imageUrl: string | null;
+    /** Why the image to export could not be prepared. */
+    imageError: string | null;
+    /** The library record for the image, used for the filename and metadata. Null if it was never saved. */
+    image: LibraryImage | null;
+    /** The image's edit history, oldest first. */
+    lineage: LibraryImage[];
+    models: { generate: string; edit: string };
+    onClose: () => void;
+};
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ imageUrl, imageError, image, lineage, models, onClose }) => {
+    const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+    const [format, setFormat] = useState<ExportFormat>('image/png');
+    const [quality, setQuality] = useState(90);
+    const [width, setWidth] = useState(0);
+    const [height, setHeight] = useState(0);
+    const [keepAspect, setKeepAspect] = useState(true);
+    const [template, setTemplate] = useState(DEFAULT_FILENAME_TEMPLATE);
+    const [includeMetadata, setIncludeMetadata] = useState(true);
+    const [supportedFormats, setSupportedFormats] = useState<Set<ExportFormat>>(new Set(['image/png']));
+    const [isExporting, setIsExporting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!imageUrl) return;
+        loadImage(imageUrl).then(loaded => {
+            setNaturalSize({ width: loaded.naturalWidth, height: loaded.naturalHeight });
+            setWidth(loaded.naturalWidth);
+            setHeight(loaded.naturalHeight);
+        }).catch((err: any) => setError(err.message || 'Could not load the image.'));
+    }, [imageUrl]);
+
+    useEffect(() => {
+        Promise.all(EXPORT_FORMATS.map(async ({ value }) => ((await canEncode(value)) ? value : null)))
+            .then(values => setSupportedFormats(new Set(values.filter((value): value is ExportFormat => value !== null))));
+    }, []);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    const aspect = naturalSize ? naturalSize.width / naturalSize.height : 1;
+    const clampDimension = (value: number) => Math.min(MAX_DIMENSION, Math.max(1, Math.round(value) || 1));
+
+    const updateWidth = (value: number) => {
+        const next = clampDimension(value);
+        setWidth(next);
+        if (keepAspect) setHeight(clampDimension(next / aspect));
+    };
+
+    const updateHeight = (value: number) => {
+        const next = clampDimension(value);
+        setHeight(next);
+        if (keepAspect) setWidth(clampDimension(next * aspect));
+    };
+
+    const applyScale = (scale: number) => {
+        if (!naturalSize) return;
+        setKeepAspect(true);
+        setWidth(clampDimension(naturalSize.width * scale));
+        setHeight(clampDimension(naturalSize.height * scale));
+    };
+
+    const formatInfo = EXPORT_FORMATS.find(option => option.value === format)!;
+    const filename = formatFilename(template, {
+        prompt: image?.prompt ?? '',
+        createdAt: image?.createdAt ?? Date.now(),
+        index: Math.max(1, lineage.length),
+        operation: image?.operation ?? 'image',
+        id: image?.id ?? 'unsaved',
+    }, format);
+
+    const handleExport = async () => {
+        if (!imageUrl) return;
+        setIsExporting(true);
+        setError(null);
+        try {
+            let blob = await renderExport(imageUrl, format, quality / 100, width, height);
+            if (includeMetadata && lineage.length > 0) {
+                blob = await embedMetadata(blob, buildExportMetadata(lineage, models), width, height);
+            }
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = filename;
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+            URL.revokeObjectURL(url);
+            onClose();
+        } catch (err: any) {
+            setError(err.message || 'An unknown error occurred.');
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const chipClass = (isActive: boolean) => `px-3 py-1.5 text-sm font-semibold rounded-md transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+        isActive ? 'bg-yellow-500 text-gray-900' : 'bg-gray-700/50 text-gray-300 hover:bg-gray-700'
+    }`;
+    const inputClass = 'w-full bg-gray-900/70 border border-gray-700 text-gray-200 rounded-lg p-2 text-sm focus:ring-2 focus:ring-yellow-500 focus:outline-none';
+
+    return (
+        <div className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+            <div
+                className="w-full max-w-md max-h-full overflow-y-auto bg-gray-800/90 backdrop-blur-lg border border-gray-700 rounded-2xl flex flex-col gap-5 p-5 text-gray-200 shadow-2xl"
+                onClick={e => e.stopPropagation()}
+                role="dialog"
+                aria-label="Export image"
+            >
+                <div className="flex items-center justify-between">
+                    <h2 className="text-lg font-bold text-gray-100 flex items-center gap-2">
+                        <DownloadIcon className="w-5 h-5" /> Export
+                    </h2>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-200 transition-colors" aria-label="Close export">
+                        <XCircleIcon className="w-6 h-6" />
+                    </button>
+                </div>
+
+                <div className="flex flex-col gap-2">
+                    <span className="text-sm font-semibold text-gray-100">Format</span>
+                    <div className="flex gap-2">
+                        {EXPORT_FORMATS.map(option => (
+                            <button
+                                key={option.value}
+                                onClick={() => setFormat(option.value)}
+                                disabled={!supportedFormats.has(option.value)}
+                                title={supportedFormats.has(option.value) ? undefined : 'Not supported by this browser'}
+                                className={chipClass(format === option.value)}
+                            >
+                                {option.label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                <label className={`flex flex-col gap-1 text-sm font-semibold text-gray-100 ${formatInfo.lossy ? '' : 'opacity-50'}`}>
+                    <span className="flex items-center justify-between">
+                        Quality
+                        <span className="text-xs tabular-nums text-gray-400">{formatInfo.lossy ? quality : 'Lossless'}</span>
+                    </span>
+                    <input
+                        type="range"
+                        min={10}
+                        max={100}
+                        value={quality}
+                        disabled={!formatInfo.lossy}
+                        onChange={(e) => setQuality(Number(e.target.value))}
+                        className="w-full accent-yellow-500"
+                    />
+                </label>
+
+                <div className="flex flex-col gap-2">
+                    <span className="text-sm font-semibold text-gray-100">Size</span>
+                    <div className="flex items-center gap-2">
+                        <input type="number" min={1} max={MAX_DIMENSION} value={width} onChange={(e) => updateWidth(Number(e.target.value))} className={inputClass} aria-label="Width" />
+                        <span className="text-gray-500">×</span>
+                        <input type="number" min={1} max={MAX_DIMENSION} value={height} onChange={(e) => updateHeight(Number(e.target.value))} className={inputClass} aria-label="Height" />
+                        <span className="text-xs text-gray-500">px</span>
+                    </div>
+                    <div className="flex items-center justify-between">
+                        <label className="flex items-center gap-2 text-xs text-gray-300">
+                            <input type="checkbox" checked={keepAspect} onChange={(e) => setKeepAspect(e.target.checked)} className="accent-yellow-500" />
+                            Keep aspect ratio
+                        </label>
+                        <div className="flex gap-1">
+                            {SCALE_PRESETS.map(scale => (
+                                <button
+                                    key={scale}
+                                    onClick={() => applyScale(scale)}
+                                    className="px-2 py-1 text-xs font-semibold rounded-md bg-gray-700/50 text-gray-300 hover:bg-gray-700 transition-colors"
+                                >
+                                    {scale * 100}%
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+
+                <label className="flex flex-col gap-1 text-sm font-semibold text-gray-100">
+                    Filename
+                    <input type="text" value={template} onChange={(e) => setTemplate(e.target.value)} className={inputClass} spellCheck={false} />
+                    <span className="text-xs font-normal text-gray-500">
+                        Tokens: {'{prompt} {date} {time} {index} {operation} {id}'}
+                    </span>
+                    <span className="text-xs font-normal text-gray-300 truncate" title={filename}>{filename}</span>
+                </label>
+
+                <label className="flex items-start gap-2 text-sm text-gray-300">
+                    <input
+                        type="checkbox"
+                        checked={includeMetadata && formatInfo.embedsMetadata}
+                        disabled={!formatInfo.embedsMetadata || lineage.length === 0}
+                        onChange={(e) => setIncludeMetadata(e.target.checked)}
+                        className="mt-0.5 accent-yellow-500"
+                    />
+                    <span>
+                        Embed prompt, model and edit history
+                        {!formatInfo.embedsMetadata && <span className="block text-xs text-gray-500">Not available for {formatInfo.label} files.</span>}
+                    </span>
+                </label>
+
+                {!imageUrl && !imageError && (
+                    <p className="text-sm text-gray-400 bg-gray-900/50 border border-gray-700 rounded-lg px-3 py-2">Flattening the layers…</p>
+                )}
+                {(error || imageError) && (
+                    <p className="text-sm text-red-300 bg-red-500/10 border border-red-500/20 rounded-lg px-3 py-2">{error ?? imageError}</p>
+                )}
+
+                <div className="flex justify-end gap-2">
+                    <button onClick={onClose} className="text-sm font-semibold text-gray-400 hover:text-gray-200 px-4 py-2 transition-colors">
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleExport}
+                        disabled={!naturalSize || isExporting}
+                        className="bg-yellow-500 text-gray-900 font-bold py-2 px-6 rounded-lg hover:bg-yellow-400 transition-all duration-300 disabled:bg-gray-600 disabled:cursor-not-allowed flex items-center gap-2"
+                    >
+                        <DownloadIcon className="w-5 h-5" /> {isExporting ? 'Exporting…' : 'Export'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ExportDialog;
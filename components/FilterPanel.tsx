@@ -2,3 +2,264 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import React, { useEffect, useRef, useState } from 'react';
+import type { FilterPreset } from '../types';
+import { deleteFilter, exportFilters, importFilters, listFilters, reorderFilters, saveFilters } from '../services/filterService';
+import { PaletteIcon, TrashIcon, DownloadIcon, UploadIcon, ArrowPathIcon } from './icons';
+
+type Draft = { id: string | null; name: string; prompt: string; thumbnail: string | null };
+
+type FilterPanelProps = {
+    /** Whether filters can currently be applied to the active image. */
+    canApply: boolean;
+    onApply: (prompt: string) => void;
+    /** Renders a thumbnail for a prompt, or null when previews cannot be generated right now. */
+    onGeneratePreview: ((prompt: string) => Promise<string>) | null;
+};
+
+const FilterPanel: React.FC<FilterPanelProps> = ({ canApply, onApply, onGeneratePreview }) => {
+    const importInputRef = useRef<HTMLInputElement>(null);
+    const [presets, setPresets] = useState<FilterPreset[]>([]);
+    const [isManaging, setIsManaging] = useState(false);
+    const [draft, setDraft] = useState<Draft | null>(null);
+    const [previewingIds, setPreviewingIds] = useState<Set<string>>(new Set());
+    const [error, setError] = useState<string | null>(null);
+    // The latest presets, for previews that finish after the list has changed.
+    const presetsRef = useRef(presets);
+    presetsRef.current = presets;
+
+    useEffect(() => {
+        listFilters()
+            .then(setPresets)
+            .catch((err: any) => setError(err.message || 'Could not load filters.'));
+    }, []);
+
+    const run = async (action: () => Promise<void>) => {
+        setError(null);
+        try {
+            await action();
+        } catch (err: any) {
+            setError(err.message || 'An unknown error occurred.');
+        }
+    };
+
+    const withPreviewing = async (id: string, action: () => Promise<void>) => {
+        setPreviewingIds(prev => new Set(prev).add(id));
+        try {
+            await run(action);
+        } finally {
+            setPreviewingIds(prev => {
+                const next = new Set(prev);
+                next.delete(id);
+                return next;
+            });
+        }
+    };
+
+    const handleMove = (index: number, offset: -1 | 1) => run(async () => {
+        const next = [...presets];
+        [next[index], next[index + offset]] = [next[index + offset], next[index]];
+        setPresets(await reorderFilters(next));
+    });
+
+    const handleDelete = (preset: FilterPreset) => run(async () => {
+        if (!window.confirm(`Delete the "${preset.name}" filter?`)) return;
+        await deleteFilter(preset.id);
+        setPresets(prev => prev.filter(p => p.id !== preset.id));
+    });
+
+    const handleSaveDraft = () => run(async () => {
+        if (!draft || !draft.prompt.trim()) return;
+        const existing = presets.find(p => p.id === draft.id);
+        const preset: FilterPreset = {
+            id: existing?.id ?? crypto.randomUUID(),
+            name: draft.name.trim() || 'Untitled',
+            prompt: draft.prompt.trim(),
+            thumbnail: draft.thumbnail,
+            order: existing?.order ?? presets.length,
+        };
+        await saveFilters([preset]);
+        setPresets(prev => (existing ? prev.map(p => (p.id === preset.id ? preset : p)) : [...prev, preset]));
+        setDraft(null);
+    });
+
+    const handleDraftPreview = () => {
+        if (!draft || !onGeneratePreview) return;
+        const { id } = draft;
+        const prompt = draft.prompt.trim();
+        withPreviewing('draft', async () => {
+            const thumbnail = await onGeneratePreview(prompt);
+            // The prompt may have been edited, or the draft replaced, while the preview rendered.
+            setDraft(prev => (prev?.id === id && prev.prompt.trim() === prompt ? { ...prev, thumbnail } : prev));
+        });
+    };
+
+    const handlePresetPreview = (preset: FilterPreset) => {
+        if (!onGeneratePreview) return;
+        withPreviewing(preset.id, async () => {
+            const thumbnail = await onGeneratePreview(preset.prompt);
+            const current = presetsRef.current.find(p => p.id === preset.id);
+            if (!current || current.prompt !== preset.prompt) return;
+            const updated = { ...current, thumbnail };
+            await saveFilters([updated]);
+            setPresets(prev => prev.map(p => (p.id === updated.id ? updated : p)));
+        });
+    };
+
+    const handleExport = () => {
+        const url = URL.createObjectURL(exportFilters(presets));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `filter-presets-${Date.now()}.json`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    };
+
+    const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        run(async () => {
+            const imported = await importFilters(file, presets.length);
+            setPresets(prev => [...prev, ...imported]);
+        });
+    };
+
+    const renderThumbnail = (thumbnail: string | null, isBusy: boolean, className: string) => (
+        <div className={`relative flex-shrink-0 bg-gray-900/70 rounded-md overflow-hidden flex items-center justify-center ${className}`}>
+            {thumbnail ? <img src={thumbnail} alt="" className="w-full h-full object-cover" /> : <PaletteIcon className="w-1/3 h-1/3 text-gray-600" />}
+            {isBusy && (
+                <div className="absolute inset-0 bg-black/60 flex items-center justify-center">
+                    <ArrowPathIcon className="w-4 h-4 text-gray-200 animate-spin" />
+                </div>
+            )}
+        </div>
+    );
+
+    const smallButtonClass = 'text-xs font-semibold bg-gray-700/50 text-gray-300 px-2 py-1 rounded-md hover:bg-gray-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+
+    return (
+        <div className="flex flex-col gap-2">
+            <div className="flex items-center justify-between">
+                <label className="text-sm font-semibold text-gray-100 flex items-center gap-2">
+                   <PaletteIcon className="w-4 h-4"/> Artistic Filters
+                </label>
+                <button
+                    onClick={() => { setIsManaging(!isManaging); setDraft(null); }}
+                    className="text-xs font-semibold text-gray-400 hover:text-gray-200 transition-colors"
+                >
+                    {isManaging ? 'Done' : 'Manage'}
+                </button>
+            </div>
+
+            {error && <p className="text-xs text-red-300">{error}</p>}
+
+            {!isManaging ? (
+                presets.length === 0 ? (
+                    <p className="text-xs text-gray-400">No filters yet. Choose Manage to create or import some.</p>
+                ) : (
+                    <div className="grid grid-cols-2 gap-2">
+                        {presets.map(preset => (
+                            <button
+                                key={preset.id}
+                                onClick={() => onApply(preset.prompt)}
+                                disabled={!canApply}
+                                title={preset.prompt}
+                                className="flex items-center gap-2 bg-gray-700/50 text-gray-300 font-semibold p-1.5 pr-3 rounded-lg hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm text-left"
+                            >
+                                {renderThumbnail(preset.thumbnail, previewingIds.has(preset.id), 'w-8 h-8')}
+                                <span className="truncate">{preset.name}</span>
+                            </button>
+                        ))}
+                    </div>
+                )
+            ) : draft ? (
+                <div className="flex flex-col gap-2 bg-gray-900/50 border border-gray-700 rounded-lg p-3">
+                    <input
+                        type="text"
+                        value={draft.name}
+                        onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                        placeholder="Filter name"
+                        className="w-full bg-gray-900/70 border border-gray-700 text-gray-200 rounded-lg p-2 text-sm focus:ring-2 focus:ring-yellow-500 focus:outline-none"
+                    />
+                    <textarea
+                        value={draft.prompt}
+                        onChange={(e) => setDraft({ ...draft, prompt: e.target.value, thumbnail: null })}
+                        placeholder="e.g., Give this a soft pastel look with lifted shadows."
+                        className="w-full h-20 bg-gray-900/70 border border-gray-700 text-gray-200 rounded-lg p-2 text-sm focus:ring-2 focus:ring-yellow-500 focus:outline-none resize-none"
+                    />
+                    <div className="flex items-center gap-2">
+                        {renderThumbnail(draft.thumbnail, previewingIds.has('draft'), 'w-16 h-16')}
+                        <div className="flex flex-col gap-1">
+                            <button
+                                onClick={handleDraftPreview}
+                                disabled={!onGeneratePreview || !draft.prompt.trim() || previewingIds.has('draft')}
+                                className={smallButtonClass}
+                            >
+                                Generate preview
+                            </button>
+                            <span className="text-[10px] text-gray-500">
+                                {onGeneratePreview ? 'Uses the current image as the sample.' : 'Open an image while online to preview.'}
+                            </span>
+                        </div>
+                    </div>
+                    <div className="flex justify-end gap-2">
+                        <button onClick={() => setDraft(null)} className="text-xs font-semibold text-gray-400 hover:text-gray-200 px-2 py-1 transition-colors">
+                            Cancel
+                        </button>
+                        <button
+                            onClick={handleSaveDraft}
+                            disabled={!draft.prompt.trim()}
+                            className="text-xs font-bold bg-yellow-500 text-gray-900 px-3 py-1 rounded-md hover:bg-yellow-400 transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed"
+                        >
+                            Save
+                        </button>
+                    </div>
+                </div>
+            ) : (
+                <div className="flex flex-col gap-2">
+                    {presets.map((preset, index) => (
+                        <div key={preset.id} className="flex items-center gap-2 bg-gray-900/50 border border-gray-700 rounded-lg p-1.5">
+                            <button
+                                onClick={() => handlePresetPreview(preset)}
+                                disabled={!onGeneratePreview || previewingIds.has(preset.id)}
+                                title={onGeneratePreview ? 'Regenerate preview from the current image' : 'Open an image while online to preview'}
+                                className="disabled:cursor-not-allowed"
+                            >
+                                {renderThumbnail(preset.thumbnail, previewingIds.has(preset.id), 'w-10 h-10')}
+                            </button>
+                            <button
+                                onClick={() => setDraft({ id: preset.id, name: preset.name, prompt: preset.prompt, thumbnail: preset.thumbnail })}
+                                className="flex-1 min-w-0 text-left text-sm font-semibold text-gray-300 hover:text-white truncate"
+                                title="Edit filter"
+                            >
+                                {preset.name}
+                            </button>
+                            <button onClick={() => handleMove(index, -1)} disabled={index === 0} className={smallButtonClass} aria-label={`Move ${preset.name} up`}>↑</button>
+                            <button onClick={() => handleMove(index, 1)} disabled={index === presets.length - 1} className={smallButtonClass} aria-label={`Move ${preset.name} down`}>↓</button>
+                            <button onClick={() => handleDelete(preset)} className="p-1 text-gray-400 hover:text-red-300 transition-colors" aria-label={`Delete ${preset.name}`}>
+                                <TrashIcon className="w-4 h-4" />
+                            </button>
+                        </div>
+                    ))}
+                    <div className="flex items-center gap-2">
+                        <button onClick={() => setDraft({ id: null, name: '', prompt: '', thumbnail: null })} className={`${smallButtonClass} flex-1 py-1.5`}>
+                            + New filter
+                        </button>
+                        <button onClick={() => importInputRef.current?.click()} className={`${smallButtonClass} flex items-center gap-1 py-1.5`}>
+                            <UploadIcon className="w-3.5 h-3.5" /> Import
+                        </button>
+                        <button onClick={handleExport} disabled={presets.length === 0} className={`${smallButtonClass} flex items-center gap-1 py-1.5`}>
+                            <DownloadIcon className="w-3.5 h-3.5" /> Export
+                        </button>
+                        <input ref={importInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default FilterPanel;
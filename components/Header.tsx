@@ -3,6 +3,7 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React from 'react';
+import { DownloadIcon, Squares2x2Icon, ArrowPathIcon, ChartBarIcon, BugAntIcon, Cog6ToothIcon, FolderIcon } from './icons';
 
 const SparkleIcon: React.FC<{ className?: string }> = ({ className }) => (
   <svg className={className} xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
@@ -10,7 +11,20 @@ const SparkleIcon: React.FC<{ className?: string }> = ({ className }) => (
   </svg>
 );
 
-const Header: React.FC = () => {
+type HeaderProps = {
+  projectName?: string;
+  onOpenProjects?: () => void;
+  canInstall?: boolean;
+  onInstall?: () => void;
+  onOpenLibrary?: () => void;
+  activeJobCount?: number;
+  onOpenJobs?: () => void;
+  onOpenUsage?: () => void;
+  onOpenDebug?: () => void;
+  onOpenSettings?: () => void;
+};
+
+const Header: React.FC<HeaderProps> = ({ projectName, onOpenProjects, canInstall = false, onInstall, onOpenLibrary, activeJobCount = 0, onOpenJobs, onOpenUsage, onOpenDebug, onOpenSettings }) => {
   return (
     <header className="w-full py-4 px-8 border-b border-gray-700 bg-gray-800/30 backdrop-blur-sm sticky top-0 z-50">
       <div className="flex items-center justify-center gap-3">
@@ -18,6 +32,80 @@ const Header: React.FC = () => {
           <h1 className="text-xl font-bold tracking-tight text-gray-100">
             Blob's Project
           </h1>
+          {projectName && (
+            <span className="text-sm font-semibold text-gray-400 truncate max-w-[12rem]" title={projectName}>/ {projectName}</span>
+          )}
+      </div>
+      {onOpenProjects && (
+        <div className="absolute left-4 md:left-8 top-1/2 -translate-y-1/2">
+          <button
+            onClick={onOpenProjects}
+            className="flex items-center gap-2 text-sm font-semibold text-gray-300 hover:text-white transition-colors"
+          >
+            <FolderIcon className="w-5 h-5" />
+            <span className="hidden sm:inline">Projects</span>
+          </button>
+        </div>
+      )}
+      <div className="absolute right-4 md:right-8 top-1/2 -translate-y-1/2 flex items-center gap-4">
+        {onOpenJobs && (
+          <button
+            onClick={onOpenJobs}
+            className="flex items-center gap-2 text-sm font-semibold text-gray-300 hover:text-white transition-colors"
+          >
+            <ArrowPathIcon className={`w-5 h-5 ${activeJobCount > 0 ? 'animate-spin text-yellow-400' : ''}`} />
+            <span className="hidden sm:inline">Jobs</span>
+            {activeJobCount > 0 && (
+              <span className="bg-yellow-500 text-gray-900 text-xs font-bold rounded-full px-1.5">{activeJobCount}</span>
+            )}
+          </button>
+        )}
+        {onOpenDebug && (
+          <button
+            onClick={onOpenDebug}
+            className="flex items-center gap-2 text-sm font-semibold text-gray-300 hover:text-white transition-colors"
+            title="Inspect requests to the model API"
+          >
+            <BugAntIcon className="w-5 h-5" />
+            <span className="hidden sm:inline">Debug</span>
+          </button>
+        )}
+        {onOpenUsage && (
+          <button
+            onClick={onOpenUsage}
+            className="flex items-center gap-2 text-sm font-semibold text-gray-300 hover:text-white transition-colors"
+          >
+            <ChartBarIcon className="w-5 h-5" />
+            <span className="hidden sm:inline">Usage</span>
+          </button>
+        )}
+        {onOpenLibrary && (
+          <button
+            onClick={onOpenLibrary}
+            className="flex items-center gap-2 text-sm font-semibold text-gray-300 hover:text-white transition-colors"
+          >
+            <Squares2x2Icon className="w-5 h-5" />
+            <span className="hidden sm:inline">Library</span>
+          </button>
+        )}
+        {onOpenSettings && (
+          <button
+            onClick={onOpenSettings}
+            className="flex items-center gap-2 text-sm font-semibold text-gray-300 hover:text-white transition-colors"
+          >
+            <Cog6ToothIcon className="w-5 h-5" />
+            <span className="hidden sm:inline">Settings</span>
+          </button>
+        )}
+        {canInstall && (
+          <button
+            onClick={onInstall}
+            className="flex items-center gap-2 text-sm font-semibold text-yellow-400 hover:text-yellow-300 transition-colors"
+          >
+            <DownloadIcon className="w-5 h-5" />
+            <span className="hidden sm:inline">Install app</span>
+          </button>
+        )}
       </div>
     </header>
   );
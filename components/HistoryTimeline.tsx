@@ -0,0 +1,116 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useMemo, useRef } from 'react';
+import type { ImageOperation, LibraryImage } from '../types';
+import { getSiblings, HistoryGraph } from '../services/historyService';
+import { UndoIcon, RedoIcon } from './icons';
+
+const operationLabels: Record<ImageOperation, string> = {
+    'generate': 'Original',
+    'edit': 'Edit',
+    'inpaint': 'Inpaint',
+    'upscale': 'Upscale',
+    'filter': 'Filter',
+    'aspect-ratio': 'Reframe',
+    'transform': 'Transform',
+    'adjust': 'Adjust',
+    'place': 'Place',
+    'outpaint': 'Outpaint',
+};
+
+type HistoryTimelineProps = {
+    graph: HistoryGraph;
+    timeline: LibraryImage[];
+    activeImageId: string;
+    canUndo: boolean;
+    canRedo: boolean;
+    onUndo: () => void;
+    onRedo: () => void;
+    onSelect: (image: LibraryImage) => void;
+};
+
+const HistoryTimeline: React.FC<HistoryTimelineProps> = ({ graph, timeline, activeImageId, canUndo, canRedo, onUndo, onRedo, onSelect }) => {
+    const activeRef = useRef<HTMLDivElement>(null);
+
+    const thumbnailUrls = useMemo(
+        () => new Map(timeline.map(image => [image.id, URL.createObjectURL(image.blob)])),
+        [timeline],
+    );
+    useEffect(() => () => thumbnailUrls.forEach(url => URL.revokeObjectURL(url)), [thumbnailUrls]);
+
+    useEffect(() => {
+        activeRef.current?.scrollIntoView({ block: 'nearest', inline: 'center', behavior: 'smooth' });
+    }, [activeImageId]);
+
+    return (
+        <div className="w-full max-w-4xl mx-auto flex items-center gap-3 bg-gray-800/50 backdrop-blur-lg border border-gray-700 rounded-2xl p-3 text-gray-200">
+            <div className="flex flex-col gap-2">
+                <button
+                    onClick={onUndo}
+                    disabled={!canUndo}
+                    className="p-2 rounded-lg bg-gray-700/50 hover:bg-gray-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                    aria-label="Undo"
+                    title="Undo (Ctrl+Z)"
+                >
+                    <UndoIcon className="w-5 h-5" />
+                </button>
+                <button
+                    onClick={onRedo}
+                    disabled={!canRedo}
+                    className="p-2 rounded-lg bg-gray-700/50 hover:bg-gray-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                    aria-label="Redo"
+                    title="Redo (Ctrl+Shift+Z)"
+                >
+                    <RedoIcon className="w-5 h-5" />
+                </button>
+            </div>
+
+            <div className="flex-1 flex items-start gap-3 overflow-x-auto pb-1">
+                {timeline.map((image, index) => {
+                    const isActive = image.id === activeImageId;
+                    const siblings = getSiblings(graph, image);
+                    const siblingIndex = siblings.findIndex(sibling => sibling.id === image.id);
+                    return (
+                        <div key={image.id} ref={isActive ? activeRef : undefined} className="flex-shrink-0 flex flex-col items-center gap-1 w-20">
+                            <button
+                                onClick={() => onSelect(image)}
+                                className={`w-20 h-20 rounded-lg overflow-hidden border-2 transition-colors ${isActive ? 'border-yellow-500' : 'border-gray-700 hover:border-gray-500'}`}
+                                title={image.prompt}
+                            >
+                                <img src={thumbnailUrls.get(image.id)} alt={`Step ${index + 1}`} className="w-full h-full object-cover" />
+                            </button>
+                            <span className={`text-[10px] font-semibold uppercase tracking-wide ${isActive ? 'text-yellow-400' : 'text-gray-400'}`}>
+                                {index + 1}. {operationLabels[image.operation]}
+                            </span>
+                            {siblings.length > 1 && (
+                                <div className="flex items-center gap-1 text-[10px] text-gray-400" title="Other results from the same step">
+                                    <button
+                                        onClick={() => onSelect(siblings[siblingIndex - 1])}
+                                        disabled={siblingIndex === 0}
+                                        className="px-1 hover:text-white disabled:opacity-30"
+                                        aria-label="Previous branch"
+                                    >
+                                        ‹
+                                    </button>
+                                    <span>{siblingIndex + 1}/{siblings.length}</span>
+                                    <button
+                                        onClick={() => onSelect(siblings[siblingIndex + 1])}
+                                        disabled={siblingIndex === siblings.length - 1}
+                                        className="px-1 hover:text-white disabled:opacity-30"
+                                        aria-label="Next branch"
+                                    >
+                                        ›
+                                    </button>
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+export default HistoryTimeline;
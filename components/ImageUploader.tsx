@@ -2,3 +2,159 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import React, { useEffect, useRef, useState } from 'react';
+import type { ReferenceImage, ReferenceRole } from '../types';
+import { UploadIcon, XCircleIcon } from './icons';
+
+const roleLabels: Record<ReferenceRole, string> = {
+    subject: 'Subject',
+    style: 'Style',
+    background: 'Background',
+    other: 'Other',
+};
+
+// The first image is usually the scene being edited; later ones are things to bring into it.
+const defaultRole = (index: number): ReferenceRole => (index === 0 ? 'background' : 'subject');
+
+const imageFilesFrom = (files: FileList | File[] | null | undefined): File[] =>
+    Array.from(files ?? []).filter(file => file.type.startsWith('image/'));
+
+type ImageUploaderProps = {
+    images: ReferenceImage[];
+    onChange: (images: ReferenceImage[]) => void;
+    maxImages: number;
+};
+
+/**
+ * Collects reference images from a file picker, drag-and-drop or the clipboard, and lets
+ * the user give each a role and put them in order. Images are numbered as the model sees them.
+ */
+const ImageUploader: React.FC<ImageUploaderProps> = ({ images, onChange, maxImages }) => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [isDragging, setIsDragging] = useState(false);
+    const [notice, setNotice] = useState<string | null>(null);
+    const remaining = maxImages - images.length;
+
+    const addFiles = (files: File[]) => {
+        if (files.length === 0) return;
+        const accepted = files.slice(0, Math.max(0, remaining));
+        setNotice(accepted.length < files.length ? `Up to ${maxImages} images can be combined; extra images were skipped.` : null);
+        onChange([
+            ...images,
+            ...accepted.map((file, i) => ({
+                id: crypto.randomUUID(),
+                file,
+                url: URL.createObjectURL(file),
+                role: defaultRole(images.length + i),
+            })),
+        ]);
+    };
+
+    // Paste images from anywhere on the page while the uploader is open. Text pastes are left alone.
+    // The listener is registered once and always calls the latest addFiles.
+    const addFilesRef = useRef(addFiles);
+    addFilesRef.current = addFiles;
+    useEffect(() => {
+        const handlePaste = (e: ClipboardEvent) => {
+            const files = imageFilesFrom(e.clipboardData?.files);
+            if (files.length === 0) return;
+            e.preventDefault();
+            addFilesRef.current(files);
+        };
+        window.addEventListener('paste', handlePaste);
+        return () => window.removeEventListener('paste', handlePaste);
+    }, []);
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        setIsDragging(false);
+        addFiles(imageFilesFrom(e.dataTransfer.files));
+    };
+
+    const handleRemove = (image: ReferenceImage) => {
+        URL.revokeObjectURL(image.url);
+        setNotice(null);
+        onChange(images.filter(other => other.id !== image.id));
+    };
+
+    const handleMove = (index: number, offset: -1 | 1) => {
+        const next = [...images];
+        [next[index], next[index + offset]] = [next[index + offset], next[index]];
+        onChange(next);
+    };
+
+    const handleRoleChange = (id: string, role: ReferenceRole) => {
+        onChange(images.map(image => (image.id === id ? { ...image, role } : image)));
+    };
+
+    const smallButtonClass = 'text-xs font-semibold bg-gray-700/50 text-gray-300 px-1.5 py-0.5 rounded hover:bg-gray-700 transition-colors disabled:opacity-30 disabled:cursor-not-allowed';
+
+    return (
+        <div
+            className={`border border-dashed rounded-lg p-3 mt-2 flex flex-col gap-2 transition-colors ${isDragging ? 'border-yellow-500 bg-yellow-500/10' : 'border-gray-600'}`}
+            onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+        >
+            <input
+                type="file"
+                accept="image/*"
+                multiple
+                onChange={(e) => { addFiles(imageFilesFrom(e.target.files)); e.target.value = ''; }}
+                ref={fileInputRef}
+                className="hidden"
+            />
+
+            {images.map((image, index) => (
+                <div key={image.id} className="flex items-center gap-2 bg-gray-900/50 rounded-md p-1.5">
+                    <div className="relative flex-shrink-0">
+                        <img src={image.url} alt={`Reference ${index + 1}`} className="w-14 h-14 object-cover rounded" />
+                        <span className="absolute top-0.5 left-0.5 bg-black/70 text-[10px] font-bold text-gray-100 px-1 rounded">{index + 1}</span>
+                    </div>
+                    <div className="flex-1 min-w-0 flex flex-col gap-1">
+                        <span className="text-xs text-gray-300 truncate" title={image.file.name}>Image {index + 1}</span>
+                        {images.length > 1 && (
+                            <select
+                                value={image.role}
+                                onChange={(e) => handleRoleChange(image.id, e.target.value as ReferenceRole)}
+                                className="bg-gray-900/70 border border-gray-700 rounded px-1 py-0.5 text-xs text-gray-200 focus:ring-2 focus:ring-yellow-500 focus:outline-none"
+                                aria-label={`Role of image ${index + 1}`}
+                            >
+                                {(Object.keys(roleLabels) as ReferenceRole[]).map(role => (
+                                    <option key={role} value={role}>{roleLabels[role]}</option>
+                                ))}
+                            </select>
+                        )}
+                    </div>
+                    {images.length > 1 && (
+                        <div className="flex flex-col gap-1">
+                            <button onClick={() => handleMove(index, -1)} disabled={index === 0} className={smallButtonClass} aria-label={`Move image ${index + 1} up`}>↑</button>
+                            <button onClick={() => handleMove(index, 1)} disabled={index === images.length - 1} className={smallButtonClass} aria-label={`Move image ${index + 1} down`}>↓</button>
+                        </div>
+                    )}
+                    <button onClick={() => handleRemove(image)} className="text-gray-400 hover:text-white transition-colors" aria-label={`Remove image ${index + 1}`}>
+                        <XCircleIcon className="w-5 h-5" />
+                    </button>
+                </div>
+            ))}
+
+            {remaining > 0 && (
+                <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="flex flex-col items-center justify-center gap-1 text-gray-400 hover:text-yellow-400 transition-colors w-full py-2"
+                >
+                    <UploadIcon className={images.length === 0 ? 'w-8 h-8' : 'w-5 h-5'} />
+                    <span className="text-sm font-semibold">
+                        {images.length === 0 ? 'Click, drop or paste images' : 'Add another image'}
+                    </span>
+                    <span className="text-xs">
+                        {images.length === 0 ? `PNG, JPG, WEBP · up to ${maxImages}` : `${remaining} more allowed · refer to them as "image 1", "image 2"…`}
+                    </span>
+                </button>
+            )}
+            {notice && <p className="text-xs text-yellow-300">{notice}</p>}
+        </div>
+    );
+};
+
+export default ImageUploader;
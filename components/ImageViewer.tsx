@@ -0,0 +1,284 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { createCanvas, dataUrlByteLength, formatFileSize, loadImage } from '../services/imageUtils';
+import { EyeDropperIcon } from './icons';
+
+type View = { scale: number; x: number; y: number };
+type Sample = { x: number; y: number; r: number; g: number; b: number; a: number };
+
+const MAX_SCALE = 32;
+const WHEEL_ZOOM_STEP = 1.2;
+// Past this zoom each image pixel is big enough to outline.
+const PIXEL_GRID_SCALE = 8;
+const SCALE_PRESETS = [1, 2];
+
+const toHex = ({ r, g, b }: Sample) => `#${[r, g, b].map(value => value.toString(16).padStart(2, '0')).join('')}`.toUpperCase();
+
+// Moves and scales the view so the image point under (px, py) stays put.
+const zoomViewAt = (view: View, scale: number, px: number, py: number): View => {
+    const ratio = scale / view.scale;
+    return { scale, x: px - (px - view.x) * ratio, y: py - (py - view.y) * ratio };
+};
+
+type ImageViewerProps = {
+    imageUrl: string;
+};
+
+/**
+ * Shows an image that can be zoomed with the wheel or a pinch and panned by dragging.
+ * At high zoom it draws a pixel grid, and the eyedropper reads exact pixel values.
+ */
+const ImageViewer: React.FC<ImageViewerProps> = ({ imageUrl }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const samplerRef = useRef<Promise<CanvasRenderingContext2D> | null>(null);
+    const pointersRef = useRef(new Map<number, { x: number; y: number }>());
+    const gestureRef = useRef<{ view: View; x: number; y: number; distance: number } | null>(null);
+    const [natural, setNatural] = useState<{ width: number; height: number } | null>(null);
+    const [container, setContainer] = useState({ width: 0, height: 0 });
+    // Null means "fit to the viewer", which follows the viewer as it resizes.
+    const [zoomedView, setZoomedView] = useState<View | null>(null);
+    const [isPicking, setIsPicking] = useState(false);
+    const [hovered, setHovered] = useState<Sample | null>(null);
+    const [picked, setPicked] = useState<Sample | null>(null);
+    const [copied, setCopied] = useState(false);
+
+    const fileSize = useMemo(() => dataUrlByteLength(imageUrl), [imageUrl]);
+
+    useEffect(() => {
+        const element = containerRef.current;
+        if (!element) return;
+        const observer = new ResizeObserver(() => setContainer({ width: element.clientWidth, height: element.clientHeight }));
+        observer.observe(element);
+        return () => observer.disconnect();
+    }, []);
+
+    useEffect(() => {
+        let isCancelled = false;
+        setZoomedView(null);
+        setHovered(null);
+        setPicked(null);
+        samplerRef.current = null;
+        loadImage(imageUrl).then(image => {
+            if (isCancelled) return;
+            setNatural({ width: image.naturalWidth, height: image.naturalHeight });
+        }).catch(() => setNatural(null));
+        return () => { isCancelled = true; };
+    }, [imageUrl]);
+
+    const fitView = useMemo<View>(() => {
+        if (!natural || container.width === 0) return { scale: 1, x: 0, y: 0 };
+        const scale = Math.min(container.width / natural.width, container.height / natural.height);
+        return { scale, x: (container.width - natural.width * scale) / 2, y: (container.height - natural.height * scale) / 2 };
+    }, [natural, container]);
+    const view = zoomedView ?? fitView;
+    // Never zoom out further than whichever is smaller: fitting the viewer, or actual size.
+    const minScale = Math.min(fitView.scale, 1);
+
+    const zoomTo = (scale: number, px: number, py: number) => {
+        const next = Math.min(MAX_SCALE, Math.max(minScale, scale));
+        const isBackToFit = next === minScale && minScale === fitView.scale;
+        setZoomedView(isBackToFit ? null : zoomViewAt(view, next, px, py));
+    };
+
+    // React registers wheel listeners as passive, which cannot stop the page from scrolling.
+    const wheelRef = useRef<(e: WheelEvent) => void>(() => {});
+    wheelRef.current = (e: WheelEvent) => {
+        e.preventDefault();
+        const rect = containerRef.current!.getBoundingClientRect();
+        const factor = e.deltaY < 0 ? WHEEL_ZOOM_STEP : 1 / WHEEL_ZOOM_STEP;
+        zoomTo(view.scale * factor, e.clientX - rect.left, e.clientY - rect.top);
+    };
+    useEffect(() => {
+        const element = containerRef.current;
+        if (!element) return;
+        const handleWheel = (e: WheelEvent) => wheelRef.current(e);
+        element.addEventListener('wheel', handleWheel, { passive: false });
+        return () => element.removeEventListener('wheel', handleWheel);
+    }, []);
+
+    const toLocal = (e: React.PointerEvent) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    };
+
+    // Drawn once, on first use, so the eyedropper can read pixels at full resolution. A failed
+    // load is forgotten, so the next sample tries again.
+    const sampleAt = async (px: number, py: number): Promise<Sample | null> => {
+        if (!natural) return null;
+        const x = Math.floor((px - view.x) / view.scale);
+        const y = Math.floor((py - view.y) / view.scale);
+        if (x < 0 || y < 0 || x >= natural.width || y >= natural.height) return null;
+        samplerRef.current ??= loadImage(imageUrl).then(image => {
+            const { ctx } = createCanvas(image.naturalWidth, image.naturalHeight);
+            ctx.drawImage(image, 0, 0);
+            return ctx;
+        }).catch(err => {
+            samplerRef.current = null;
+            throw err;
+        });
+        const [r, g, b, a] = (await samplerRef.current).getImageData(x, y, 1, 1).data;
+        return { x, y, r, g, b, a };
+    };
+
+    const startGesture = () => {
+        const points = [...pointersRef.current.values()];
+        const [first, second] = points;
+        gestureRef.current = points.length === 0 ? null : {
+            view,
+            x: second ? (first.x + second.x) / 2 : first.x,
+            y: second ? (first.y + second.y) / 2 : first.y,
+            distance: second ? Math.hypot(second.x - first.x, second.y - first.y) : 0,
+        };
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (isPicking && e.pointerType === 'mouse') return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        pointersRef.current.set(e.pointerId, toLocal(e));
+        startGesture();
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        const point = toLocal(e);
+        if (isPicking && pointersRef.current.size === 0) {
+            sampleAt(point.x, point.y).then(setHovered).catch(() => setHovered(null));
+            return;
+        }
+        if (!pointersRef.current.has(e.pointerId)) return;
+        pointersRef.current.set(e.pointerId, point);
+        const gesture = gestureRef.current;
+        if (!gesture) return;
+
+        const [first, second] = [...pointersRef.current.values()];
+        if (second) {
+            // Pinch: scale by how far the fingers have spread, around where they started, then follow them.
+            const distance = Math.hypot(second.x - first.x, second.y - first.y);
+            const scale = Math.min(MAX_SCALE, Math.max(minScale, gesture.view.scale * (distance / Math.max(1, gesture.distance))));
+            const ratio = scale / gesture.view.scale;
+            const midX = (first.x + second.x) / 2;
+            const midY = (first.y + second.y) / 2;
+            setZoomedView({ scale, x: midX - (gesture.x - gesture.view.x) * ratio, y: midY - (gesture.y - gesture.view.y) * ratio });
+        } else if (zoomedView) {
+            setZoomedView({ ...gesture.view, x: gesture.view.x + first.x - gesture.x, y: gesture.view.y + first.y - gesture.y });
+        }
+    };
+
+    const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+        pointersRef.current.delete(e.pointerId);
+        startGesture();
+    };
+
+    const handleClick = async (e: React.MouseEvent<HTMLDivElement>) => {
+        if (!isPicking) return;
+        const rect = e.currentTarget.getBoundingClientRect();
+        const sample = await sampleAt(e.clientX - rect.left, e.clientY - rect.top).catch(() => null);
+        if (!sample) return;
+        setPicked(sample);
+        try {
+            await navigator.clipboard.writeText(toHex(sample));
+            setCopied(true);
+            window.setTimeout(() => setCopied(false), 1500);
+        } catch {
+            // Clipboard access can be refused; the value is still shown.
+        }
+    };
+
+    const zoomToPreset = (scale: number) => zoomTo(scale, container.width / 2, container.height / 2);
+
+    const isFit = zoomedView === null;
+    const imageWidth = (natural?.width ?? 0) * view.scale;
+    const imageHeight = (natural?.height ?? 0) * view.scale;
+    const shown = hovered ?? picked;
+
+    const chipClass = (isActive: boolean) => `px-2 py-1 text-xs font-semibold rounded-md transition-colors ${
+        isActive ? 'bg-yellow-500 text-gray-900' : 'bg-gray-700/70 text-gray-200 hover:bg-gray-600'
+    }`;
+
+    return (
+        <div className="relative w-full flex-1 min-h-0 flex flex-col gap-2">
+            <div
+                ref={containerRef}
+                className={`relative flex-1 min-h-0 overflow-hidden rounded-lg touch-none select-none ${
+                    isPicking ? 'cursor-crosshair' : view.scale > fitView.scale ? 'cursor-grab active:cursor-grabbing' : ''
+                }`}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+                onPointerLeave={() => setHovered(null)}
+                onClick={handleClick}
+                onDoubleClick={() => !isPicking && setZoomedView(null)}
+            >
+                {natural && (
+                    <>
+                        <img
+                            src={imageUrl}
+                            alt="Generated art"
+                            draggable={false}
+                            className="absolute max-w-none"
+                            style={{
+                                left: view.x,
+                                top: view.y,
+                                width: imageWidth,
+                                height: imageHeight,
+                                imageRendering: view.scale >= 2 ? 'pixelated' : 'auto',
+                            }}
+                        />
+                        {view.scale >= PIXEL_GRID_SCALE && (
+                            <div
+                                className="absolute pointer-events-none"
+                                style={{
+                                    left: view.x,
+                                    top: view.y,
+                                    width: imageWidth,
+                                    height: imageHeight,
+                                    backgroundImage: 'linear-gradient(to right, rgba(0, 0, 0, 0.35) 1px, transparent 1px), linear-gradient(to bottom, rgba(0, 0, 0, 0.35) 1px, transparent 1px)',
+                                    backgroundSize: `${view.scale}px ${view.scale}px`,
+                                }}
+                            />
+                        )}
+                    </>
+                )}
+            </div>
+
+            <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-gray-300">
+                <div className="flex items-center gap-1">
+                    <button onClick={() => setZoomedView(null)} className={chipClass(isFit)}>Fit</button>
+                    {SCALE_PRESETS.map(scale => (
+                        <button key={scale} onClick={() => zoomToPreset(scale)} className={chipClass(!isFit && view.scale === scale)}>
+                            {scale * 100}%
+                        </button>
+                    ))}
+                    <span className="w-12 text-right tabular-nums text-gray-400">{Math.round(view.scale * 100)}%</span>
+                    <button
+                        onClick={() => { setIsPicking(!isPicking); setHovered(null); }}
+                        className={`${chipClass(isPicking)} ml-2 flex items-center gap-1`}
+                        aria-pressed={isPicking}
+                        title="Eyedropper: hover to read pixel values, click to copy"
+                    >
+                        <EyeDropperIcon className="w-4 h-4" />
+                    </button>
+                    {isPicking && shown && (
+                        <span className="flex items-center gap-2 ml-1 tabular-nums">
+                            <span className="w-4 h-4 rounded border border-gray-500" style={{ backgroundColor: toHex(shown) }} />
+                            <span className="font-semibold text-gray-100">{toHex(shown)}</span>
+                            <span className="text-gray-400">rgb({shown.r}, {shown.g}, {shown.b}){shown.a < 255 ? ` α ${shown.a}` : ''}</span>
+                            <span className="text-gray-500">at {shown.x}, {shown.y}</span>
+                            {copied && <span className="text-green-300">Copied</span>}
+                        </span>
+                    )}
+                </div>
+                {natural && (
+                    <span className="tabular-nums text-gray-400">
+                        {natural.width} × {natural.height} px{fileSize !== null ? ` · ${formatFileSize(fileSize)}` : ''}
+                    </span>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default ImageViewer;
@@ -0,0 +1,141 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import type { Job, JobStatus } from '../services/jobQueue';
+import type { LibraryImage } from '../types';
+import { XCircleIcon, ArrowPathIcon } from './icons';
+
+export const MAX_CONCURRENCY = 4;
+
+const statusStyles: Record<JobStatus, { label: string; className: string }> = {
+    'queued': { label: 'Queued', className: 'text-gray-400' },
+    'running': { label: 'Running', className: 'text-yellow-300' },
+    'succeeded': { label: 'Done', className: 'text-green-300' },
+    'failed': { label: 'Failed', className: 'text-red-300' },
+    'cancelled': { label: 'Cancelled', className: 'text-gray-500' },
+};
+
+const formatElapsed = (ms: number) => {
+    const seconds = Math.max(0, Math.floor(ms / 1000));
+    return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`;
+};
+
+type JobsDrawerProps = {
+    jobs: Job<LibraryImage[]>[];
+    concurrency: number;
+    setConcurrency: (concurrency: number) => void;
+    onCancel: (id: string) => void;
+    onClearFinished: () => void;
+    onOpenResult: (image: LibraryImage) => void;
+    onClose: () => void;
+};
+
+const JobsDrawer: React.FC<JobsDrawerProps> = ({ jobs, concurrency, setConcurrency, onCancel, onClearFinished, onOpenResult, onClose }) => {
+    const [now, setNow] = useState(Date.now());
+    const hasActiveJobs = jobs.some(job => job.status === 'queued' || job.status === 'running');
+    const hasFinishedJobs = jobs.length > 0 && !jobs.every(job => job.status === 'queued' || job.status === 'running');
+
+    // Tick once a second while anything is in flight, so elapsed times stay current.
+    useEffect(() => {
+        if (!hasActiveJobs) return;
+        const timer = window.setInterval(() => setNow(Date.now()), 1000);
+        return () => window.clearInterval(timer);
+    }, [hasActiveJobs]);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    const elapsedFor = (job: Job<LibraryImage[]>) => {
+        if (job.status === 'queued') return formatElapsed(now - job.queuedAt);
+        if (!job.startedAt) return '';
+        return formatElapsed((job.finishedAt ?? now) - job.startedAt);
+    };
+
+    return (
+        <aside
+            className="fixed top-0 right-0 bottom-0 z-50 w-full max-w-sm bg-gray-800/95 backdrop-blur-lg border-l border-gray-700 flex flex-col text-gray-200 shadow-2xl"
+            role="dialog"
+            aria-label="Jobs"
+        >
+            <div className="flex items-center justify-between gap-4 p-4 border-b border-gray-700">
+                <h2 className="text-lg font-bold text-gray-100 flex items-center gap-2">
+                    <ArrowPathIcon className={`w-5 h-5 ${hasActiveJobs ? 'animate-spin' : ''}`} />
+                    Jobs
+                </h2>
+                <button onClick={onClose} className="text-gray-400 hover:text-gray-200 transition-colors" aria-label="Close jobs">
+                    <XCircleIcon className="w-6 h-6" />
+                </button>
+            </div>
+
+            <div className="flex items-center justify-between gap-4 px-4 py-3 border-b border-gray-700/50">
+                <label className="flex items-center gap-2 text-sm font-semibold text-gray-300">
+                    Run at once
+                    <select
+                        value={concurrency}
+                        onChange={(e) => setConcurrency(Number(e.target.value))}
+                        className="bg-gray-900/70 border border-gray-700 rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-yellow-500 focus:outline-none"
+                    >
+                        {Array.from({ length: MAX_CONCURRENCY }, (_, i) => i + 1).map(value => (
+                            <option key={value} value={value}>{value}</option>
+                        ))}
+                    </select>
+                </label>
+                <button
+                    onClick={onClearFinished}
+                    disabled={!hasFinishedJobs}
+                    className="text-sm font-semibold text-gray-400 hover:text-gray-200 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                    Clear finished
+                </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-4 flex flex-col gap-2">
+                {jobs.length === 0 ? (
+                    <p className="text-center text-sm text-gray-500 py-16">Generations and edits you start will appear here.</p>
+                ) : (
+                    [...jobs].reverse().map(job => {
+                        const status = statusStyles[job.status];
+                        const result = job.result?.[0];
+                        return (
+                            <div key={job.id} className="bg-gray-900/50 border border-gray-700 rounded-lg p-3 flex flex-col gap-1">
+                                <div className="flex items-start justify-between gap-2">
+                                    <p className="text-sm text-gray-200 line-clamp-2" title={job.label}>{job.label}</p>
+                                    {(job.status === 'queued' || job.status === 'running') && (
+                                        <button
+                                            onClick={() => onCancel(job.id)}
+                                            className="flex-shrink-0 text-xs font-semibold text-gray-400 hover:text-red-300 transition-colors"
+                                        >
+                                            Cancel
+                                        </button>
+                                    )}
+                                    {result && (
+                                        <button
+                                            onClick={() => onOpenResult(result)}
+                                            className="flex-shrink-0 text-xs font-semibold text-yellow-300 hover:text-yellow-200 transition-colors"
+                                        >
+                                            Open
+                                        </button>
+                                    )}
+                                </div>
+                                <div className="flex items-center justify-between text-xs">
+                                    <span className={`font-semibold uppercase tracking-wide ${status.className}`}>{status.label}</span>
+                                    <span className="tabular-nums text-gray-500">{elapsedFor(job)}</span>
+                                </div>
+                                {job.error && <p className="text-xs text-red-300">{job.error}</p>}
+                            </div>
+                        );
+                    })
+                )}
+            </div>
+        </aside>
+    );
+};
+
+export default JobsDrawer;
@@ -0,0 +1,261 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import type { Layer, Product } from '../types';
+import { loadImage } from '../services/imageUtils';
+import {
+    createAdjustmentLayer, createImageLayer, createTextLayer, drawLayers, hitTestLayers, layerSize, loadLayerImages, nudgeLayer,
+} from '../services/layerService';
+import LayersPanel from './LayersPanel';
+import { Square3Stack3DIcon } from './icons';
+
+const PREVIEW_LONG_EDGE = 1200;
+// Layer changes are saved once they settle, rather than on every step of a drag or slider.
+const SAVE_DELAY_MS = 400;
+const SELECTION_COLOR = 'rgb(234, 179, 8)';
+
+type LayerEditorProps = {
+    /** The background: the image the layers sit on. */
+    imageUrl: string;
+    layers: Layer[];
+    /** The selected catalog product, offered as a layer. */
+    product: Product | null;
+    onChange: (layers: Layer[]) => void;
+    onDone: () => void;
+};
+
+/**
+ * Arranges the layers over an image. The preview is drawn by the same renderer that flattens
+ * the layers on export, at a reduced size.
+ */
+const LayerEditor: React.FC<LayerEditorProps> = ({ imageUrl, layers, product, onChange, onDone }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const dragRef = useRef<{ id: string; pointer: { x: number; y: number } } | null>(null);
+    const unsavedRef = useRef<Layer[] | null>(null);
+    const [stack, setStack] = useState(layers);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [background, setBackground] = useState<HTMLImageElement | null>(null);
+    const [images, setImages] = useState<Map<string, HTMLImageElement>>(new Map());
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let isCancelled = false;
+        loadImage(imageUrl)
+            .then(image => {
+                if (isCancelled) return;
+                const canvas = canvasRef.current;
+                if (canvas) {
+                    const scale = Math.min(1, PREVIEW_LONG_EDGE / Math.max(image.naturalWidth, image.naturalHeight));
+                    canvas.width = Math.round(image.naturalWidth * scale);
+                    canvas.height = Math.round(image.naturalHeight * scale);
+                }
+                setBackground(image);
+            })
+            .catch((err: any) => setError(err.message || 'Could not load the image.'));
+        return () => { isCancelled = true; };
+    }, [imageUrl]);
+
+    // Reload layer pictures only when image layers are added or removed, not on every move.
+    const imageLayerKey = stack.filter(layer => layer.kind === 'image').map(layer => layer.id).join(',');
+    useEffect(() => {
+        let isCancelled = false;
+        loadLayerImages(stack)
+            .then(loaded => { if (!isCancelled) setImages(loaded); })
+            .catch((err: any) => setError(err.message || 'Could not load the layer images.'));
+        return () => { isCancelled = true; };
+    }, [imageLayerKey]);
+
+    useEffect(() => {
+        const ctx = canvasRef.current?.getContext('2d');
+        if (!ctx || !background) return;
+        try {
+            drawLayers(ctx, background, stack, images);
+        } catch (err: any) {
+            setError(err.message || 'Could not draw the layers.');
+            return;
+        }
+        const selected = stack.find(layer => layer.id === selectedId);
+        if (!selected || selected.kind === 'adjustment' || !selected.visible) return;
+        const size = layerSize(ctx, selected);
+        ctx.save();
+        ctx.translate(selected.x * ctx.canvas.width, selected.y * ctx.canvas.height);
+        ctx.rotate((selected.rotation * Math.PI) / 180);
+        ctx.strokeStyle = SELECTION_COLOR;
+        ctx.lineWidth = Math.max(1, ctx.canvas.width / 600);
+        ctx.setLineDash([6 * ctx.lineWidth, 4 * ctx.lineWidth]);
+        ctx.strokeRect(-size.width / 2, -size.height / 2, size.width, size.height);
+        ctx.restore();
+    }, [background, images, stack, selectedId]);
+
+    // Save settled changes, and anything still unsaved when the editor closes.
+    useEffect(() => {
+        if (stack === layers) return;
+        unsavedRef.current = stack;
+        const timer = setTimeout(() => {
+            unsavedRef.current = null;
+            onChange(stack);
+        }, SAVE_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [stack]);
+    useEffect(() => () => {
+        if (unsavedRef.current) onChange(unsavedRef.current);
+    }, []);
+
+    const updateLayer = (updated: Layer) => setStack(prev => prev.map(layer => (layer.id === updated.id ? updated : layer)));
+
+    const addLayer = (layer: Layer) => {
+        setStack(prev => [...prev, layer]);
+        setSelectedId(layer.id);
+    };
+
+    const addImageLayer = async (image: Blob, name: string) => {
+        if (!background) return;
+        setError(null);
+        try {
+            addLayer(await createImageLayer(image, name, { width: background.naturalWidth, height: background.naturalHeight }));
+        } catch (err: any) {
+            setError(err.message || 'Could not add the image as a layer.');
+        }
+    };
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (file) addImageLayer(file, file.name.replace(/\.[^.]+$/, ''));
+    };
+
+    const handleMove = (id: string, direction: 1 | -1) => setStack(prev => {
+        const index = prev.findIndex(layer => layer.id === id);
+        const target = index + direction;
+        if (index < 0 || target < 0 || target >= prev.length) return prev;
+        const next = [...prev];
+        [next[index], next[target]] = [next[target], next[index]];
+        return next;
+    });
+
+    const handleDelete = (id: string) => {
+        setStack(prev => prev.filter(layer => layer.id !== id));
+        setSelectedId(current => (current === id ? null : current));
+    };
+
+    const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const canvas = e.currentTarget;
+        const rect = canvas.getBoundingClientRect();
+        return {
+            x: (e.clientX - rect.left) * (canvas.width / rect.width),
+            y: (e.clientY - rect.top) * (canvas.height / rect.height),
+        };
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const ctx = e.currentTarget.getContext('2d');
+        if (!ctx) return;
+        const point = toCanvasPoint(e);
+        const id = hitTestLayers(ctx, stack, point);
+        setSelectedId(id);
+        if (!id) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragRef.current = { id, pointer: point };
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const drag = dragRef.current;
+        if (!drag) return;
+        const canvas = e.currentTarget;
+        const point = toCanvasPoint(e);
+        const dx = point.x - drag.pointer.x;
+        const dy = point.y - drag.pointer.y;
+        drag.pointer = point;
+        setStack(prev => prev.map(layer => (
+            layer.id === drag.id && layer.kind !== 'adjustment' ? nudgeLayer(layer, dx, dy, canvas) : layer
+        )));
+    };
+
+    const handlePointerUp = () => {
+        dragRef.current = null;
+    };
+
+    // Arrow keys nudge the selected layer by a pixel of the preview, or ten with Shift.
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            const target = e.target as HTMLElement;
+            if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') return;
+            const canvas = canvasRef.current;
+            const step = e.shiftKey ? 10 : 1;
+            const offsets: Record<string, [number, number]> = {
+                ArrowLeft: [-step, 0],
+                ArrowRight: [step, 0],
+                ArrowUp: [0, -step],
+                ArrowDown: [0, step],
+            };
+            const offset = offsets[e.key];
+            if (!offset || !canvas || !selectedId) return;
+            e.preventDefault();
+            setStack(prev => prev.map(layer => (
+                layer.id === selectedId && layer.kind !== 'adjustment' ? nudgeLayer(layer, offset[0], offset[1], canvas) : layer
+            )));
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [selectedId]);
+
+    const addButtonClass = 'text-xs font-semibold bg-gray-700/50 text-gray-300 px-2.5 py-1 rounded-md hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+    return (
+        <div className="relative w-full h-full flex flex-col md:flex-row p-4 gap-4">
+            <div className="relative flex-1 min-h-0 min-w-0 flex items-center justify-center overflow-hidden">
+                <canvas
+                    ref={canvasRef}
+                    className="max-w-full max-h-full object-contain select-none touch-none rounded-lg cursor-move"
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerCancel={handlePointerUp}
+                />
+                {error && (
+                    <p className="absolute bottom-2 left-1/2 -translate-x-1/2 bg-red-500/10 border border-red-500/20 text-red-300 text-sm px-3 py-2 rounded-lg">
+                        {error}
+                    </p>
+                )}
+            </div>
+
+            <div className="w-full md:w-64 flex-shrink-0 flex flex-col gap-3 bg-gray-800/80 backdrop-blur-lg border border-gray-700 rounded-xl p-4 text-gray-200 shadow-lg overflow-y-auto">
+                <h3 className="text-sm font-bold text-gray-100 flex items-center gap-2">
+                    <Square3Stack3DIcon className="w-4 h-4" /> Layers
+                </h3>
+                <div className="flex flex-wrap gap-1.5">
+                    <button onClick={() => addLayer(createTextLayer())} className={addButtonClass}>+ Text</button>
+                    <button onClick={() => fileInputRef.current?.click()} disabled={!background} className={addButtonClass}>+ Image</button>
+                    <button onClick={() => addLayer(createAdjustmentLayer())} className={addButtonClass}>+ Adjustment</button>
+                    {product && (
+                        <button onClick={() => addImageLayer(product.image, product.name)} disabled={!background} className={`${addButtonClass} max-w-full truncate`}>
+                            + {product.name}
+                        </button>
+                    )}
+                    <input ref={fileInputRef} type="file" accept="image/*" onChange={handleFileChange} className="hidden" />
+                </div>
+                <LayersPanel
+                    layers={stack}
+                    selectedId={selectedId}
+                    onSelect={setSelectedId}
+                    onUpdate={updateLayer}
+                    onMove={handleMove}
+                    onDelete={handleDelete}
+                />
+                <div className="flex items-center justify-end mt-auto pt-2">
+                    <button
+                        onClick={onDone}
+                        className="bg-yellow-500 text-gray-900 font-bold py-2 px-6 rounded-lg hover:bg-yellow-400 transition-all duration-300"
+                    >
+                        Done
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default LayerEditor;
@@ -0,0 +1,236 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import type { BlendMode, Layer } from '../types';
+import { ADJUSTMENT_CONTROLS, DEFAULT_ADJUSTMENTS } from '../services/adjustmentService';
+import { BLEND_MODES, LAYER_FONTS } from '../services/layerService';
+import { EyeIcon, EyeSlashIcon, ChevronUpIcon, ChevronDownIcon, TrashIcon, ImageIcon, AdjustmentsHorizontalIcon } from './icons';
+
+const MIN_SCALE = 0.1;
+const MAX_SCALE = 4;
+
+const kindLabels: Record<Layer['kind'], string> = {
+    image: 'Image',
+    text: 'Text',
+    adjustment: 'Adjustment',
+};
+
+type LayersPanelProps = {
+    /** Bottom first, as they are drawn. */
+    layers: Layer[];
+    selectedId: string | null;
+    onSelect: (id: string | null) => void;
+    onUpdate: (layer: Layer) => void;
+    /** Moves a layer one step up (1) or down (-1) the stack. */
+    onMove: (id: string, direction: 1 | -1) => void;
+    onDelete: (id: string) => void;
+};
+
+const Slider: React.FC<{
+    label: string;
+    value: number;
+    min: number;
+    max: number;
+    step: number;
+    display: string;
+    onChange: (value: number) => void;
+    onReset?: () => void;
+}> = ({ label, value, min, max, step, display, onChange, onReset }) => (
+    <label className="flex flex-col gap-1 text-xs font-semibold text-gray-300">
+        <span className="flex items-center justify-between">
+            {label}
+            <span className="tabular-nums text-gray-400">{display}</span>
+        </span>
+        <input
+            type="range"
+            min={min}
+            max={max}
+            step={step}
+            value={value}
+            onChange={(e) => onChange(Number(e.target.value))}
+            onDoubleClick={onReset}
+            className="w-full accent-yellow-500"
+        />
+    </label>
+);
+
+/**
+ * Lists the layers over an image, topmost first, and edits the selected one.
+ */
+const LayersPanel: React.FC<LayersPanelProps> = ({ layers, selectedId, onSelect, onUpdate, onMove, onDelete }) => {
+    const selected = layers.find(layer => layer.id === selectedId) ?? null;
+    const inputClass = 'w-full bg-gray-900/70 border border-gray-700 rounded-md px-2 py-1 text-xs focus:ring-2 focus:ring-yellow-500 focus:outline-none';
+
+    return (
+        <div className="flex flex-col gap-3">
+            <ul className="flex flex-col gap-1">
+                {[...layers].reverse().map((layer, index) => {
+                    const position = layers.length - 1 - index;
+                    return (
+                        <li
+                            key={layer.id}
+                            className={`flex items-center gap-2 rounded-lg px-2 py-1.5 text-xs transition-colors ${
+                                layer.id === selectedId ? 'bg-yellow-500/20 text-yellow-200' : 'bg-gray-900/50 text-gray-300 hover:bg-gray-900'
+                            }`}
+                        >
+                            <button
+                                onClick={() => onUpdate({ ...layer, visible: !layer.visible })}
+                                className="text-gray-400 hover:text-gray-200 transition-colors"
+                                aria-label={layer.visible ? `Hide ${layer.name}` : `Show ${layer.name}`}
+                            >
+                                {layer.visible ? <EyeIcon className="w-4 h-4" /> : <EyeSlashIcon className="w-4 h-4" />}
+                            </button>
+                            <button
+                                onClick={() => onSelect(layer.id)}
+                                className={`flex-1 min-w-0 text-left truncate font-semibold ${layer.visible ? '' : 'opacity-50'}`}
+                                title={`${kindLabels[layer.kind]} layer`}
+                            >
+                                {layer.name}
+                            </button>
+                            <button
+                                onClick={() => onMove(layer.id, 1)}
+                                disabled={position === layers.length - 1}
+                                className="text-gray-400 hover:text-gray-200 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                                aria-label={`Move ${layer.name} up`}
+                            >
+                                <ChevronUpIcon className="w-4 h-4" />
+                            </button>
+                            <button
+                                onClick={() => onMove(layer.id, -1)}
+                                disabled={position === 0}
+                                className="text-gray-400 hover:text-gray-200 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                                aria-label={`Move ${layer.name} down`}
+                            >
+                                <ChevronDownIcon className="w-4 h-4" />
+                            </button>
+                            <button
+                                onClick={() => onDelete(layer.id)}
+                                className="text-gray-400 hover:text-red-300 transition-colors"
+                                aria-label={`Delete ${layer.name}`}
+                            >
+                                <TrashIcon className="w-4 h-4" />
+                            </button>
+                        </li>
+                    );
+                })}
+                <li
+                    className={`flex items-center gap-2 rounded-lg px-2 py-1.5 text-xs ${selectedId === null ? 'bg-yellow-500/20 text-yellow-200' : 'bg-gray-900/50 text-gray-400'}`}
+                >
+                    <ImageIcon className="w-4 h-4" />
+                    <button onClick={() => onSelect(null)} className="flex-1 text-left font-semibold">Background</button>
+                </li>
+            </ul>
+
+            {selected ? (
+                <div className="flex flex-col gap-3 border-t border-gray-700 pt-3">
+                    <input
+                        type="text"
+                        value={selected.name}
+                        onChange={(e) => onUpdate({ ...selected, name: e.target.value })}
+                        aria-label="Layer name"
+                        className={`${inputClass} font-semibold`}
+                    />
+                    <Slider
+                        label="Opacity"
+                        value={Math.round(selected.opacity * 100)}
+                        min={0}
+                        max={100}
+                        step={1}
+                        display={`${Math.round(selected.opacity * 100)}%`}
+                        onChange={(value) => onUpdate({ ...selected, opacity: value / 100 })}
+                        onReset={() => onUpdate({ ...selected, opacity: 1 })}
+                    />
+                    <label className="flex items-center justify-between gap-2 text-xs font-semibold text-gray-300">
+                        Blend
+                        <select
+                            value={selected.blendMode}
+                            onChange={(e) => onUpdate({ ...selected, blendMode: e.target.value as BlendMode })}
+                            className="bg-gray-900/70 border border-gray-700 rounded-md px-2 py-1 text-xs focus:ring-2 focus:ring-yellow-500 focus:outline-none"
+                        >
+                            {BLEND_MODES.map(mode => <option key={mode.value} value={mode.value}>{mode.label}</option>)}
+                        </select>
+                    </label>
+
+                    {selected.kind !== 'adjustment' && (
+                        <>
+                            <Slider
+                                label="Scale"
+                                value={selected.scale}
+                                min={MIN_SCALE}
+                                max={MAX_SCALE}
+                                step={0.01}
+                                display={`${Math.round(selected.scale * 100)}%`}
+                                onChange={(scale) => onUpdate({ ...selected, scale })}
+                                onReset={() => onUpdate({ ...selected, scale: 1 })}
+                            />
+                            <Slider
+                                label="Rotation"
+                                value={selected.rotation}
+                                min={-180}
+                                max={180}
+                                step={1}
+                                display={`${selected.rotation}°`}
+                                onChange={(rotation) => onUpdate({ ...selected, rotation })}
+                                onReset={() => onUpdate({ ...selected, rotation: 0 })}
+                            />
+                        </>
+                    )}
+
+                    {selected.kind === 'text' && (
+                        <>
+                            <textarea
+                                value={selected.text}
+                                onChange={(e) => onUpdate({ ...selected, text: e.target.value })}
+                                rows={2}
+                                aria-label="Text"
+                                className={`${inputClass} resize-none`}
+                            />
+                            <div className="flex items-center gap-2">
+                                <input
+                                    type="color"
+                                    value={selected.color}
+                                    onChange={(e) => onUpdate({ ...selected, color: e.target.value })}
+                                    aria-label="Text colour"
+                                    className="w-8 h-7 bg-transparent border border-gray-700 rounded-md cursor-pointer"
+                                />
+                                <select
+                                    value={selected.fontFamily}
+                                    onChange={(e) => onUpdate({ ...selected, fontFamily: e.target.value })}
+                                    aria-label="Font"
+                                    className="flex-1 bg-gray-900/70 border border-gray-700 rounded-md px-2 py-1 text-xs focus:ring-2 focus:ring-yellow-500 focus:outline-none"
+                                >
+                                    {LAYER_FONTS.map(font => <option key={font.value} value={font.value}>{font.label}</option>)}
+                                </select>
+                            </div>
+                        </>
+                    )}
+
+                    {selected.kind === 'adjustment' && ADJUSTMENT_CONTROLS.map(control => (
+                        <Slider
+                            key={control.key}
+                            label={control.label}
+                            value={selected.adjustments[control.key]}
+                            min={control.min}
+                            max={control.max}
+                            step={control.step}
+                            display={control.format(selected.adjustments[control.key])}
+                            onChange={(value) => onUpdate({ ...selected, adjustments: { ...selected.adjustments, [control.key]: value } })}
+                            onReset={() => onUpdate({ ...selected, adjustments: { ...selected.adjustments, [control.key]: DEFAULT_ADJUSTMENTS[control.key] } })}
+                        />
+                    ))}
+                </div>
+            ) : (
+                <p className="flex items-start gap-2 text-xs text-gray-400 border-t border-gray-700 pt-3">
+                    <AdjustmentsHorizontalIcon className="w-4 h-4 flex-shrink-0" />
+                    {layers.length === 0
+                        ? 'Add text, pictures or adjustments above the image. Layers stay editable and are only flattened when you export.'
+                        : 'Select a layer, here or on the canvas, to edit it. Drag it to move it, or nudge it with the arrow keys.'}
+                </p>
+            )}
+        </div>
+    );
+};
+
+export default LayersPanel;
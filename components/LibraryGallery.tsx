@@ -0,0 +1,178 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useMemo } from 'react';
+import type { ImageOperation, LibraryImage } from '../types';
+import { XCircleIcon, DownloadIcon, TrashIcon, CheckCircleIcon, Squares2x2Icon } from './icons';
+
+const operationLabels: Record<ImageOperation, string> = {
+    'generate': 'Generated',
+    'edit': 'Edited',
+    'inpaint': 'Inpainted',
+    'upscale': 'Upscaled',
+    'filter': 'Filtered',
+    'aspect-ratio': 'Reframed',
+    'transform': 'Transformed',
+    'adjust': 'Adjusted',
+    'place': 'Placed',
+    'outpaint': 'Outpainted',
+};
+
+type LibraryGalleryProps = {
+    images: LibraryImage[];
+    activeImageId: string | null;
+    onClose: () => void;
+    onOpen: (image: LibraryImage) => void;
+    onDelete: (ids: string[]) => void;
+    onExport: (images: LibraryImage[]) => void;
+};
+
+const LibraryGallery: React.FC<LibraryGalleryProps> = ({ images, activeImageId, onClose, onOpen, onDelete, onExport }) => {
+    const [isSelecting, setIsSelecting] = useState(false);
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+    const thumbnailUrls = useMemo(
+        () => new Map(images.map(image => [image.id, URL.createObjectURL(image.blob)])),
+        [images],
+    );
+    useEffect(() => () => thumbnailUrls.forEach(url => URL.revokeObjectURL(url)), [thumbnailUrls]);
+
+    // Drop selections for images that no longer exist.
+    useEffect(() => {
+        setSelectedIds(prev => new Set([...prev].filter(id => images.some(image => image.id === id))));
+    }, [images]);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    const toggleSelected = (id: string) => {
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id); else next.add(id);
+            return next;
+        });
+    };
+
+    const stopSelecting = () => {
+        setIsSelecting(false);
+        setSelectedIds(new Set());
+    };
+
+    const selectedImages = images.filter(image => selectedIds.has(image.id));
+
+    const handleDeleteSelected = () => {
+        const count = selectedImages.length;
+        if (!window.confirm(`Delete ${count} image${count === 1 ? '' : 's'} from your library? This cannot be undone.`)) return;
+        onDelete(selectedImages.map(image => image.id));
+        stopSelecting();
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 md:p-8" onClick={onClose}>
+            <div
+                className="w-full max-w-6xl max-h-full bg-gray-800/90 backdrop-blur-lg border border-gray-700 rounded-2xl flex flex-col text-gray-200 shadow-2xl"
+                onClick={e => e.stopPropagation()}
+                role="dialog"
+                aria-label="Image library"
+            >
+                <div className="flex items-center justify-between gap-4 p-4 border-b border-gray-700">
+                    <h2 className="text-lg font-bold text-gray-100 flex items-center gap-2">
+                        <Squares2x2Icon className="w-5 h-5" />
+                        Library
+                        <span className="text-sm font-semibold text-gray-400">({images.length})</span>
+                    </h2>
+                    <div className="flex items-center gap-2">
+                        {isSelecting ? (
+                            <>
+                                <button
+                                    onClick={() => setSelectedIds(new Set(images.map(image => image.id)))}
+                                    className="text-sm font-semibold text-gray-300 hover:text-white px-3 py-1.5 transition-colors"
+                                >
+                                    Select all
+                                </button>
+                                <button
+                                    onClick={() => onExport(selectedImages)}
+                                    disabled={selectedImages.length === 0}
+                                    className="flex items-center gap-1 text-sm font-semibold bg-yellow-500/20 text-yellow-300 px-3 py-1.5 rounded-lg hover:bg-yellow-500/40 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    <DownloadIcon className="w-4 h-4" /> Export ({selectedImages.length})
+                                </button>
+                                <button
+                                    onClick={handleDeleteSelected}
+                                    disabled={selectedImages.length === 0}
+                                    className="flex items-center gap-1 text-sm font-semibold bg-red-500/20 text-red-300 px-3 py-1.5 rounded-lg hover:bg-red-500/40 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    <TrashIcon className="w-4 h-4" /> Delete ({selectedImages.length})
+                                </button>
+                                <button onClick={stopSelecting} className="text-sm font-semibold text-gray-400 hover:text-gray-200 px-3 py-1.5 transition-colors">
+                                    Cancel
+                                </button>
+                            </>
+                        ) : (
+                            <button
+                                onClick={() => setIsSelecting(true)}
+                                disabled={images.length === 0}
+                                className="text-sm font-semibold bg-gray-700/50 text-gray-300 px-3 py-1.5 rounded-lg hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                Select
+                            </button>
+                        )}
+                        <button onClick={onClose} className="text-gray-400 hover:text-gray-200 transition-colors" aria-label="Close library">
+                            <XCircleIcon className="w-6 h-6" />
+                        </button>
+                    </div>
+                </div>
+
+                <div className="overflow-y-auto p-4">
+                    {images.length === 0 ? (
+                        <div className="text-center text-gray-500 py-16">
+                            <Squares2x2Icon className="w-16 h-16 mx-auto" />
+                            <p className="mt-4 font-semibold text-gray-400">Your library is empty</p>
+                            <p className="mt-1 text-sm">Images you generate and edit are saved here automatically.</p>
+                        </div>
+                    ) : (
+                        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-4">
+                            {images.map(image => {
+                                const isSelected = selectedIds.has(image.id);
+                                return (
+                                    <button
+                                        key={image.id}
+                                        onClick={() => (isSelecting ? toggleSelected(image.id) : onOpen(image))}
+                                        className={`group relative flex flex-col text-left bg-gray-900/70 border rounded-lg overflow-hidden transition-colors ${
+                                            isSelected || image.id === activeImageId ? 'border-yellow-500' : 'border-gray-700 hover:border-gray-500'
+                                        }`}
+                                    >
+                                        <img
+                                            src={thumbnailUrls.get(image.id)}
+                                            alt={image.prompt || 'Library image'}
+                                            className="w-full aspect-square object-cover"
+                                            loading="lazy"
+                                        />
+                                        {isSelecting && (
+                                            <CheckCircleIcon className={`absolute top-2 right-2 w-6 h-6 rounded-full ${isSelected ? 'text-yellow-400 bg-black/60' : 'text-gray-400 bg-black/40'}`} />
+                                        )}
+                                        <div className="p-2 flex flex-col gap-1">
+                                            <p className="text-xs text-gray-300 line-clamp-2" title={image.prompt}>{image.prompt || 'No prompt'}</p>
+                                            <div className="flex items-center justify-between text-[10px] uppercase tracking-wide text-gray-500">
+                                                <span>{operationLabels[image.operation]} · {image.aspectRatio}</span>
+                                                <span>{new Date(image.createdAt).toLocaleDateString()}</span>
+                                            </div>
+                                        </div>
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default LibraryGallery;
@@ -2,3 +2,54 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import React, { useEffect, useMemo } from 'react';
+import type { Product } from '../types';
+import { CheckCircleIcon, TrashIcon } from './icons';
+
+type ObjectCardProps = {
+    product: Product;
+    isSelected: boolean;
+    onSelect: (product: Product) => void;
+    onDelete: (product: Product) => void;
+};
+
+const ObjectCard: React.FC<ObjectCardProps> = ({ product, isSelected, onSelect, onDelete }) => {
+    const imageUrl = useMemo(() => URL.createObjectURL(product.image), [product.image]);
+    useEffect(() => () => URL.revokeObjectURL(imageUrl), [imageUrl]);
+
+    return (
+        <div
+            className={`relative group flex flex-col bg-gray-900/50 rounded-lg border-2 overflow-hidden transition-colors ${
+                isSelected ? 'border-yellow-500' : 'border-gray-700 hover:border-gray-500'
+            }`}
+        >
+            <button onClick={() => onSelect(product)} className="flex flex-col text-left" aria-pressed={isSelected} title={product.description || product.name}>
+                {/* A checkerboard behind the cutout shows which parts are transparent. */}
+                <div className="aspect-square w-full flex items-center justify-center p-2 bg-[conic-gradient(#374151_25%,#1f2937_0_50%,#374151_0_75%,#1f2937_0)] bg-[length:16px_16px]">
+                    <img src={imageUrl} alt={product.name} className="max-w-full max-h-full object-contain" />
+                </div>
+                <div className="p-2 flex flex-col gap-1 min-w-0">
+                    <span className="text-xs font-semibold text-gray-200 truncate">{product.name}</span>
+                    {product.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1">
+                            {product.tags.slice(0, 3).map(tag => (
+                                <span key={tag} className="bg-gray-700/50 text-[10px] text-gray-400 px-1.5 rounded-full">{tag}</span>
+                            ))}
+                            {product.tags.length > 3 && <span className="text-[10px] text-gray-500">+{product.tags.length - 3}</span>}
+                        </div>
+                    )}
+                </div>
+            </button>
+            {isSelected && <CheckCircleIcon className="absolute top-1 left-1 w-5 h-5 text-yellow-400" />}
+            <button
+                onClick={() => onDelete(product)}
+                className="absolute top-1 right-1 bg-black/60 rounded-full p-1 text-gray-300 hover:text-red-300 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                aria-label={`Delete ${product.name}`}
+            >
+                <TrashIcon className="w-4 h-4" />
+            </button>
+        </div>
+    );
+};
+
+export default ObjectCard;
@@ -0,0 +1,244 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { ASPECT_RATIO_VALUES, loadImage } from '../services/imageUtils';
+import {
+    CanvasExtension, ExtensionAnchor, MAX_OUTPAINT_EDGE, NO_EXTENSION, describeExtension, extendedSize,
+    extensionForRatio, extensionForSize,
+} from '../services/outpaintService';
+import { RectangleGroupIcon } from './icons';
+
+type Edge = 'top' | 'right' | 'bottom' | 'left';
+
+const ANCHORS: ExtensionAnchor[] = [0, 0.5, 1].flatMap(y => [0, 0.5, 1].map(x => ({ x, y } as ExtensionAnchor)));
+const CENTER: ExtensionAnchor = { x: 0.5, y: 0.5 };
+
+type OutpaintPanelProps = {
+    imageUrl: string;
+    /** Whether outpainting is currently possible, e.g. false while offline. */
+    canOutpaint: boolean;
+    onOutpaint: (extension: CanvasExtension, prompt: string) => void;
+    onCancel: () => void;
+};
+
+/**
+ * Lets the user grow the canvas around an image, by dragging its edges or by picking where
+ * the image should sit and a target ratio or size. The model only fills the new area.
+ */
+const OutpaintPanel: React.FC<OutpaintPanelProps> = ({ imageUrl, canOutpaint, onOutpaint, onCancel }) => {
+    const stageRef = useRef<HTMLDivElement>(null);
+    const dragRef = useRef<{ edge: Edge; startX: number; startY: number; start: CanvasExtension; scale: number } | null>(null);
+    const [natural, setNatural] = useState<{ width: number; height: number } | null>(null);
+    const [stage, setStage] = useState({ width: 0, height: 0 });
+    const [extension, setExtension] = useState<CanvasExtension>(NO_EXTENSION);
+    const [anchor, setAnchor] = useState<ExtensionAnchor>(CENTER);
+    const [prompt, setPrompt] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let isCancelled = false;
+        setError(null);
+        loadImage(imageUrl)
+            .then(image => {
+                if (!isCancelled) setNatural({ width: image.naturalWidth, height: image.naturalHeight });
+            })
+            .catch((err: any) => {
+                if (!isCancelled) setError(err.message || 'Could not load the image.');
+            });
+        return () => { isCancelled = true; };
+    }, [imageUrl]);
+
+    useEffect(() => {
+        const element = stageRef.current;
+        if (!element) return;
+        const observer = new ResizeObserver(() => setStage({ width: element.clientWidth, height: element.clientHeight }));
+        observer.observe(element);
+        return () => observer.disconnect();
+    }, []);
+
+    const width = natural?.width ?? 1;
+    const height = natural?.height ?? 1;
+    const size = extendedSize(width, height, extension);
+    const scale = Math.min(stage.width / size.width, stage.height / size.height) || 0;
+    const isTooLarge = Math.max(size.width, size.height) > MAX_OUTPAINT_EDGE;
+    const isUnchanged = size.width === width && size.height === height;
+
+    // Re-anchoring keeps the canvas size and moves the image within it.
+    const selectAnchor = (next: ExtensionAnchor) => {
+        setAnchor(next);
+        setExtension(extensionForSize(width, height, size, next));
+    };
+
+    const setTargetSize = (target: { width: number; height: number }) => {
+        const clamped = {
+            width: Math.min(MAX_OUTPAINT_EDGE, Math.max(width, target.width || width)),
+            height: Math.min(MAX_OUTPAINT_EDGE, Math.max(height, target.height || height)),
+        };
+        setExtension(extensionForSize(width, height, clamped, anchor));
+    };
+
+    const handlePointerDown = (edge: Edge) => (e: React.PointerEvent) => {
+        e.stopPropagation();
+        (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+        // The preview shrinks as the canvas grows, so measure the drag at the starting scale.
+        dragRef.current = { edge, startX: e.clientX, startY: e.clientY, start: extension, scale };
+    };
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        const drag = dragRef.current;
+        if (!drag || drag.scale === 0) return;
+        const dx = (e.clientX - drag.startX) / drag.scale;
+        const dy = (e.clientY - drag.startY) / drag.scale;
+        const outwards = drag.edge === 'left' ? -dx : drag.edge === 'right' ? dx : drag.edge === 'top' ? -dy : dy;
+        const isHorizontal = drag.edge === 'left' || drag.edge === 'right';
+        const others = isHorizontal
+            ? width + drag.start.left + drag.start.right - drag.start[drag.edge]
+            : height + drag.start.top + drag.start.bottom - drag.start[drag.edge];
+        const value = Math.round(Math.min(MAX_OUTPAINT_EDGE - others, Math.max(0, drag.start[drag.edge] + outwards)));
+        setExtension({ ...drag.start, [drag.edge]: value });
+    };
+
+    const handlePointerUp = () => {
+        dragRef.current = null;
+    };
+
+    const chipClass = (isActive: boolean) => `px-2.5 py-1 text-xs font-semibold rounded-md transition-colors ${
+        isActive ? 'bg-yellow-500 text-gray-900' : 'bg-gray-700/50 text-gray-300 hover:bg-gray-700'
+    }`;
+    const inputClass = 'w-16 bg-gray-900/70 border border-gray-700 rounded-md px-1.5 py-0.5 text-xs tabular-nums focus:ring-2 focus:ring-yellow-500 focus:outline-none';
+    const currentRatio = size.width / size.height;
+
+    return (
+        <div className="relative w-full h-full flex flex-col items-center p-4 gap-4">
+            <div className="flex flex-wrap items-center justify-center gap-3 bg-gray-800/80 backdrop-blur-lg border border-gray-700 rounded-xl px-4 py-2 text-gray-200 shadow-lg">
+                <div className="grid grid-cols-3 gap-0.5" role="group" aria-label="Image position">
+                    {ANCHORS.map(option => (
+                        <button
+                            key={`${option.x}-${option.y}`}
+                            onClick={() => selectAnchor(option)}
+                            className={`w-3.5 h-3.5 rounded-sm transition-colors ${
+                                option.x === anchor.x && option.y === anchor.y ? 'bg-yellow-500' : 'bg-gray-600 hover:bg-gray-500'
+                            }`}
+                            aria-label={`Keep the image ${option.y === 0 ? 'top' : option.y === 1 ? 'bottom' : 'middle'} ${option.x === 0 ? 'left' : option.x === 1 ? 'right' : 'centre'}`}
+                        />
+                    ))}
+                </div>
+                <div className="flex items-center gap-1">
+                    <RectangleGroupIcon className="w-4 h-4 text-gray-400 mr-1" />
+                    {ASPECT_RATIO_VALUES.map(value => {
+                        const [w, h] = value.split(':').map(Number);
+                        return (
+                            <button
+                                key={value}
+                                onClick={() => setExtension(extensionForRatio(width, height, value, anchor))}
+                                className={chipClass(!isUnchanged && Math.abs(currentRatio - w / h) < 0.005)}
+                            >
+                                {value}
+                            </button>
+                        );
+                    })}
+                </div>
+                <label className="flex items-center gap-1 text-xs font-semibold text-gray-300">
+                    <input
+                        type="number"
+                        min={width}
+                        max={MAX_OUTPAINT_EDGE}
+                        value={size.width}
+                        onChange={(e) => setTargetSize({ width: Number(e.target.value), height: size.height })}
+                        className={inputClass}
+                        aria-label="Width"
+                    />
+                    ×
+                    <input
+                        type="number"
+                        min={height}
+                        max={MAX_OUTPAINT_EDGE}
+                        value={size.height}
+                        onChange={(e) => setTargetSize({ width: size.width, height: Number(e.target.value) })}
+                        className={inputClass}
+                        aria-label="Height"
+                    />
+                    px
+                </label>
+            </div>
+
+            <div
+                ref={stageRef}
+                className="relative w-full flex-1 min-h-0 overflow-hidden"
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+            >
+                {natural && scale > 0 && (
+                    <div
+                        className="absolute border-2 border-dashed border-yellow-400"
+                        style={{
+                            left: (stage.width - size.width * scale) / 2,
+                            top: (stage.height - size.height * scale) / 2,
+                            width: size.width * scale,
+                            height: size.height * scale,
+                            backgroundImage: 'repeating-linear-gradient(45deg, rgba(250, 204, 21, 0.12) 0 8px, transparent 8px 16px)',
+                        }}
+                    >
+                        <img
+                            src={imageUrl}
+                            alt="Image to extend"
+                            draggable={false}
+                            className="absolute max-w-none select-none"
+                            style={{ left: extension.left * scale, top: extension.top * scale, width: width * scale, height: height * scale }}
+                        />
+                        {(['top', 'right', 'bottom', 'left'] as const).map(edge => (
+                            <div
+                                key={edge}
+                                onPointerDown={handlePointerDown(edge)}
+                                className={`absolute bg-yellow-400 rounded-sm touch-none ${
+                                    edge === 'top' ? 'left-1/2 -top-2 w-10 h-3 -ml-5 cursor-ns-resize'
+                                        : edge === 'bottom' ? 'left-1/2 -bottom-2 w-10 h-3 -ml-5 cursor-ns-resize'
+                                        : edge === 'left' ? 'top-1/2 -left-2 w-3 h-10 -mt-5 cursor-ew-resize'
+                                        : 'top-1/2 -right-2 w-3 h-10 -mt-5 cursor-ew-resize'
+                                }`}
+                                title={`Drag to extend the ${edge} edge`}
+                            />
+                        ))}
+                    </div>
+                )}
+                {error && (
+                    <p className="absolute bottom-2 left-1/2 -translate-x-1/2 bg-red-500/10 border border-red-500/20 text-red-300 text-sm px-3 py-2 rounded-lg">
+                        {error}
+                    </p>
+                )}
+            </div>
+
+            <input
+                type="text"
+                value={prompt}
+                onChange={(e) => setPrompt(e.target.value)}
+                placeholder="Optional: what the new area should show..."
+                className="w-full max-w-md bg-gray-900/70 border border-gray-700 rounded-lg px-3 py-2 text-sm text-gray-200 focus:ring-2 focus:ring-yellow-500 focus:outline-none placeholder:text-gray-500"
+            />
+
+            <div className="flex items-center gap-3">
+                <span className={`text-xs tabular-nums ${isTooLarge ? 'text-red-300' : 'text-gray-400'}`}>
+                    {isUnchanged ? 'Drag an edge outwards, or pick a ratio.' : `${describeExtension(extension)} · ${size.width} × ${size.height} px`}
+                </span>
+                <button onClick={() => setExtension(NO_EXTENSION)} disabled={isUnchanged} className="text-sm font-semibold text-gray-400 hover:text-gray-200 px-2 py-2 transition-colors disabled:opacity-50">
+                    Reset
+                </button>
+                <button onClick={onCancel} className="text-sm font-semibold text-gray-400 hover:text-gray-200 px-4 py-2 transition-colors">
+                    Cancel
+                </button>
+                <button
+                    onClick={() => onOutpaint(extension, prompt)}
+                    disabled={!natural || isUnchanged || isTooLarge || !canOutpaint}
+                    className="bg-yellow-500 text-gray-900 font-bold py-2 px-6 rounded-lg hover:bg-yellow-400 transition-all duration-300 disabled:bg-gray-600 disabled:cursor-not-allowed"
+                >
+                    Extend
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default OutpaintPanel;
@@ -0,0 +1,151 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { Product } from '../types';
+import type { Placement } from '../services/productService';
+import { ShoppingBagIcon } from './icons';
+
+const MIN_SIZE = 10;
+const MAX_SIZE = 80;
+const DEFAULT_SIZE = 30;
+
+type PlacementPanelProps = {
+    imageUrl: string;
+    product: Product;
+    /** Whether placing is currently possible, e.g. false while offline. */
+    canPlace: boolean;
+    /** `asLayer` keeps the placed product on a layer of its own, so it can be moved afterwards. */
+    onPlace: (placement: Placement, note: string, asLayer: boolean) => void;
+    onCancel: () => void;
+};
+
+/**
+ * Lets the user click where a product should go in the scene, and how big it should be.
+ * A translucent copy of the product shows roughly where it will land.
+ */
+const PlacementPanel: React.FC<PlacementPanelProps> = ({ imageUrl, product, canPlace, onPlace, onCancel }) => {
+    const imageRef = useRef<HTMLImageElement>(null);
+    const [box, setBox] = useState({ left: 0, top: 0, width: 0, height: 0 });
+    const [point, setPoint] = useState<{ x: number; y: number } | null>(null);
+    const [size, setSize] = useState(DEFAULT_SIZE);
+    const [note, setNote] = useState('');
+    const [asLayer, setAsLayer] = useState(true);
+
+    const productUrl = useMemo(() => URL.createObjectURL(product.image), [product.image]);
+    useEffect(() => () => URL.revokeObjectURL(productUrl), [productUrl]);
+
+    // Keep the overlay aligned with wherever the image is laid out.
+    useEffect(() => {
+        const image = imageRef.current;
+        if (!image) return;
+        const updateBox = () => setBox({
+            left: image.offsetLeft,
+            top: image.offsetTop,
+            width: image.offsetWidth,
+            height: image.offsetHeight,
+        });
+        const observer = new ResizeObserver(updateBox);
+        observer.observe(image);
+        if (image.parentElement) observer.observe(image.parentElement);
+        updateBox();
+        return () => observer.disconnect();
+    }, []);
+
+    const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        setPoint({
+            x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+            y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)),
+        });
+    };
+
+    const ghostSize = (size / 100) * Math.min(box.width, box.height);
+
+    return (
+        <div className="relative w-full h-full flex flex-col items-center justify-center p-4 gap-4">
+            <div className="flex flex-wrap items-center justify-center gap-3 bg-gray-800/80 backdrop-blur-lg border border-gray-700 rounded-xl px-4 py-2 text-gray-200 shadow-lg">
+                <span className="flex items-center gap-2 text-xs font-semibold text-gray-300">
+                    <ShoppingBagIcon className="w-4 h-4 text-yellow-400" />
+                    {product.name}
+                </span>
+                <label className="flex items-center gap-2 text-xs font-semibold text-gray-300">
+                    Size
+                    <input
+                        type="range"
+                        min={MIN_SIZE}
+                        max={MAX_SIZE}
+                        value={size}
+                        onChange={(e) => setSize(Number(e.target.value))}
+                        className="w-28 accent-yellow-500"
+                    />
+                    <span className="w-8 text-right tabular-nums">{size}%</span>
+                </label>
+                <input
+                    type="text"
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    placeholder="Optional: on the table, facing left..."
+                    className="w-56 bg-gray-900/70 border border-gray-700 rounded-lg px-2 py-1 text-xs focus:ring-2 focus:ring-yellow-500 focus:outline-none placeholder:text-gray-500"
+                />
+                <label className="flex items-center gap-2 text-xs font-semibold text-gray-300" title="Put the placed product on a layer of its own, so it can be moved later without placing it again">
+                    <input
+                        type="checkbox"
+                        checked={asLayer}
+                        onChange={(e) => setAsLayer(e.target.checked)}
+                        className="accent-yellow-500"
+                    />
+                    As a layer
+                </label>
+            </div>
+
+            <div className="relative w-full flex-1 min-h-0 flex items-center justify-center">
+                <img
+                    ref={imageRef}
+                    src={imageUrl}
+                    alt="Scene for product placement"
+                    draggable={false}
+                    className="max-w-full max-h-full object-contain rounded-lg select-none"
+                />
+                <div
+                    style={{ left: box.left, top: box.top, width: box.width, height: box.height }}
+                    className="absolute cursor-crosshair overflow-hidden rounded-lg"
+                    onClick={handleClick}
+                >
+                    {point && (
+                        <div
+                            className="absolute pointer-events-none flex items-center justify-center rounded-full border-2 border-dashed border-yellow-400"
+                            style={{
+                                width: ghostSize,
+                                height: ghostSize,
+                                left: point.x * box.width - ghostSize / 2,
+                                top: point.y * box.height - ghostSize / 2,
+                            }}
+                        >
+                            <img src={productUrl} alt="" className="max-w-full max-h-full object-contain opacity-60" />
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            <div className="flex items-center gap-3">
+                <p className="text-xs text-gray-400">
+                    {point ? 'Click again to move it. Only the area around the product will change.' : 'Click the spot in the scene where the product should go.'}
+                </p>
+                <button onClick={onCancel} className="text-sm font-semibold bg-gray-700/50 text-gray-300 px-4 py-2 rounded-lg hover:bg-gray-700 transition-colors">
+                    Cancel
+                </button>
+                <button
+                    onClick={() => point && onPlace({ ...point, size: size / 100 }, note, asLayer)}
+                    disabled={!point || !canPlace}
+                    className="text-sm font-bold bg-yellow-500 text-gray-900 px-4 py-2 rounded-lg hover:bg-yellow-400 transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed"
+                >
+                    Place product
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default PlacementPanel;
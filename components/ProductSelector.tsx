@@ -2,3 +2,81 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import React, { useState } from 'react';
+import type { Product } from '../types';
+import { matchesProduct } from '../services/productService';
+import ObjectCard from './ObjectCard';
+import { ShoppingBagIcon } from './icons';
+
+type ProductSelectorProps = {
+    products: Product[];
+    selectedProduct: Product | null;
+    onSelect: (product: Product | null) => void;
+    onAdd: () => void;
+    onDelete: (product: Product) => void;
+    /** Whether the selected product can currently be placed into the active image. */
+    canPlace: boolean;
+    isPlacing: boolean;
+    onTogglePlacement: () => void;
+};
+
+const ProductSelector: React.FC<ProductSelectorProps> = ({ products, selectedProduct, onSelect, onAdd, onDelete, canPlace, isPlacing, onTogglePlacement }) => {
+    const [query, setQuery] = useState('');
+
+    const visibleProducts = products.filter(product => matchesProduct(product, query));
+
+    return (
+        <div className="flex flex-col gap-2">
+            <div className="flex items-center justify-between">
+                <label className="text-sm font-semibold text-gray-100 flex items-center gap-2">
+                   <ShoppingBagIcon className="w-4 h-4"/> Products
+                </label>
+                <button
+                    onClick={onAdd}
+                    className="text-xs font-semibold text-yellow-400 hover:text-yellow-300 transition-colors"
+                >
+                    + Add product
+                </button>
+            </div>
+
+            {products.length === 0 ? (
+                <p className="text-xs text-gray-400">Add product cutouts to place them into your scenes.</p>
+            ) : (
+                <>
+                    {products.length > 4 && (
+                        <input
+                            type="search"
+                            value={query}
+                            onChange={(e) => setQuery(e.target.value)}
+                            placeholder="Search by name or tag"
+                            className="w-full bg-gray-900/70 border border-gray-700 text-gray-200 rounded-lg p-2 text-sm focus:ring-2 focus:ring-yellow-500 focus:outline-none placeholder:text-gray-500"
+                        />
+                    )}
+                    <div className="grid grid-cols-3 gap-2 max-h-64 overflow-y-auto">
+                        {visibleProducts.map(product => (
+                            <ObjectCard
+                                key={product.id}
+                                product={product}
+                                isSelected={product.id === selectedProduct?.id}
+                                onSelect={(p) => onSelect(p.id === selectedProduct?.id ? null : p)}
+                                onDelete={onDelete}
+                            />
+                        ))}
+                    </div>
+                    {visibleProducts.length === 0 && <p className="text-xs text-gray-400">No products match “{query}”.</p>}
+                    <button
+                        onClick={onTogglePlacement}
+                        disabled={!selectedProduct || (!canPlace && !isPlacing)}
+                        className={`w-full font-semibold py-2 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 ${
+                            isPlacing ? 'bg-yellow-500/20 text-yellow-300 hover:bg-yellow-500/40' : 'bg-gray-700/50 text-gray-300 hover:bg-gray-700'
+                        }`}
+                    >
+                        {isPlacing ? 'Close Placement' : selectedProduct ? `Place ${selectedProduct.name}` : 'Select a product to place'}
+                    </button>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default ProductSelector;
@@ -0,0 +1,135 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import type { SavedPrompt } from '../types';
+import { matchesPrompt, templateVariables } from '../services/promptService';
+import { parseTags } from '../services/tags';
+import { HistoryIcon, StarIcon, TrashIcon } from './icons';
+
+const COLLAPSED_COUNT = 6;
+
+type PromptLibraryProps = {
+    prompts: SavedPrompt[];
+    onUse: (text: string) => void;
+    onToggleStar: (prompt: SavedPrompt) => void;
+    onUpdateTags: (prompt: SavedPrompt, tags: string[]) => void;
+    onDelete: (prompt: SavedPrompt) => void;
+};
+
+const PromptLibrary: React.FC<PromptLibraryProps> = ({ prompts, onUse, onToggleStar, onUpdateTags, onDelete }) => {
+    const [query, setQuery] = useState('');
+    const [isStarredOnly, setIsStarredOnly] = useState(false);
+    const [isExpanded, setIsExpanded] = useState(false);
+    const [editingTags, setEditingTags] = useState<{ id: string; text: string } | null>(null);
+
+    // Starred prompts first, then the most recently used.
+    const matching = prompts
+        .filter(prompt => (!isStarredOnly || prompt.starred) && matchesPrompt(prompt, query))
+        .sort((a, b) => Number(b.starred) - Number(a.starred) || b.lastUsedAt - a.lastUsedAt);
+    const isFiltering = query.trim() !== '' || isStarredOnly;
+    const visible = isExpanded || isFiltering ? matching : matching.slice(0, COLLAPSED_COUNT);
+
+    const handleSaveTags = (prompt: SavedPrompt) => {
+        if (editingTags) onUpdateTags(prompt, parseTags(editingTags.text));
+        setEditingTags(null);
+    };
+
+    if (prompts.length === 0) return null;
+
+    return (
+        <div className="flex flex-col gap-2">
+            <div className="flex items-center justify-between">
+                <label className="font-semibold text-gray-100 flex items-center gap-2">
+                    <HistoryIcon className="w-5 h-5" />
+                    Prompt Library
+                </label>
+                <button
+                    onClick={() => setIsStarredOnly(!isStarredOnly)}
+                    className={`text-xs font-semibold flex items-center gap-1 transition-colors ${isStarredOnly ? 'text-yellow-400 hover:text-yellow-300' : 'text-gray-400 hover:text-gray-200'}`}
+                    aria-pressed={isStarredOnly}
+                >
+                    <StarIcon className="w-4 h-4" filled={isStarredOnly} />
+                    Starred
+                </button>
+            </div>
+            <input
+                type="search"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search prompts, or #tag"
+                className="w-full bg-gray-900/70 border border-gray-700 text-gray-200 rounded-lg p-2 text-sm focus:ring-2 focus:ring-yellow-500 focus:outline-none placeholder:text-gray-500"
+            />
+            <div className="flex flex-col gap-1">
+                {visible.map(prompt => (
+                    <div key={prompt.id} className="group flex items-start gap-2 bg-gray-900/50 rounded-lg p-2">
+                        <button
+                            onClick={() => onToggleStar(prompt)}
+                            className={`flex-shrink-0 transition-colors ${prompt.starred ? 'text-yellow-400 hover:text-yellow-300' : 'text-gray-500 hover:text-gray-300'}`}
+                            aria-label={prompt.starred ? 'Unstar prompt' : 'Star prompt'}
+                        >
+                            <StarIcon className="w-4 h-4" filled={prompt.starred} />
+                        </button>
+                        <div className="flex-1 min-w-0 flex flex-col gap-1">
+                            <button onClick={() => onUse(prompt.text)} className="text-left text-xs text-gray-300 hover:text-white line-clamp-2" title={prompt.text}>
+                                {prompt.text}
+                            </button>
+                            {editingTags?.id === prompt.id ? (
+                                <input
+                                    type="text"
+                                    value={editingTags.text}
+                                    onChange={(e) => setEditingTags({ id: prompt.id, text: e.target.value })}
+                                    onKeyDown={(e) => {
+                                        if (e.key === 'Enter') handleSaveTags(prompt);
+                                        if (e.key === 'Escape') setEditingTags(null);
+                                    }}
+                                    onBlur={() => handleSaveTags(prompt)}
+                                    placeholder="Tags, separated by commas"
+                                    autoFocus
+                                    className="w-full bg-gray-900/70 border border-gray-700 text-gray-200 rounded px-1.5 py-0.5 text-[11px] focus:ring-1 focus:ring-yellow-500 focus:outline-none"
+                                />
+                            ) : (
+                                <div className="flex flex-wrap items-center gap-1">
+                                    {templateVariables(prompt.text).length > 0 && (
+                                        <span className="bg-yellow-500/20 text-[10px] font-semibold text-yellow-300 px-1.5 rounded-full">template</span>
+                                    )}
+                                    {prompt.tags.map(tag => (
+                                        <button
+                                            key={tag}
+                                            onClick={() => setQuery(`#${tag}`)}
+                                            className="bg-gray-700/50 text-[10px] text-gray-400 hover:text-gray-200 px-1.5 rounded-full transition-colors"
+                                        >
+                                            #{tag}
+                                        </button>
+                                    ))}
+                                    <button
+                                        onClick={() => setEditingTags({ id: prompt.id, text: prompt.tags.join(', ') })}
+                                        className="text-[10px] text-gray-500 hover:text-gray-300 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                                    >
+                                        {prompt.tags.length > 0 ? 'Edit tags' : '+ Tag'}
+                                    </button>
+                                </div>
+                            )}
+                        </div>
+                        <button
+                            onClick={() => onDelete(prompt)}
+                            className="flex-shrink-0 text-gray-500 hover:text-red-300 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                            aria-label="Delete prompt"
+                        >
+                            <TrashIcon className="w-4 h-4" />
+                        </button>
+                    </div>
+                ))}
+                {matching.length === 0 && <p className="text-xs text-gray-400">No prompts match.</p>}
+            </div>
+            {!isFiltering && matching.length > COLLAPSED_COUNT && (
+                <button onClick={() => setIsExpanded(!isExpanded)} className="text-xs font-semibold text-gray-400 hover:text-gray-200 transition-colors">
+                    {isExpanded ? 'Show fewer' : `Show all ${matching.length}`}
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default PromptLibrary;
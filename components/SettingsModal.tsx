@@ -0,0 +1,326 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import type { AspectRatio } from '../types';
+import { validateApiKey } from '../services/geminiService';
+import { GEMINI_MODELS } from '../services/geminiModels';
+import { checkProxy } from '../services/geminiConnection';
+import {
+    AppSettings, ApiKeyStatus, ConnectionMode, forgetApiKey, getApiKeyStatus, getSettings, saveApiKey, saveSettings, unlockApiKey,
+} from '../services/settingsService';
+import { Cog6ToothIcon, XCircleIcon } from './icons';
+
+const API_KEY_HELP_URL = 'https://aistudio.google.com/apikey';
+
+const CONNECTION_MODES: { value: ConnectionMode; label: string }[] = [
+    { value: 'direct', label: 'Direct, with my key' },
+    { value: 'proxy', label: 'Through a proxy' },
+];
+
+const statusText: Record<ApiKeyStatus, string> = {
+    'none': 'No key is stored. Requests to Gemini fail until you add one.',
+    'stored': 'A key is stored in this browser, unencrypted.',
+    'locked': 'A key is stored encrypted. Enter its passphrase to use it this session.',
+    'unlocked': 'A key is stored encrypted and is unlocked for this session.',
+};
+
+type SettingsModalProps = {
+    /** The ratios and most variants the active provider supports, offered as defaults. */
+    aspectRatios: AspectRatio[];
+    maxImages: number;
+    onClose: () => void;
+};
+
+/**
+ * Picks how to reach Gemini, enters and checks the API key or proxy details, and picks the
+ * models and the defaults new sessions start with. Everything is stored in this browser only.
+ */
+const SettingsModal: React.FC<SettingsModalProps> = ({ aspectRatios, maxImages, onClose }) => {
+    const [status, setStatus] = useState<ApiKeyStatus>(getApiKeyStatus);
+    const [settings, setSettings] = useState<AppSettings>(getSettings);
+    const [keyDraft, setKeyDraft] = useState('');
+    const [isKeyVisible, setIsKeyVisible] = useState(false);
+    const [isEncrypting, setIsEncrypting] = useState(false);
+    const [passphrase, setPassphrase] = useState('');
+    const [unlockPassphrase, setUnlockPassphrase] = useState('');
+    const [isBusy, setIsBusy] = useState(false);
+    const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    const generateModel = settings.generateModel ?? GEMINI_MODELS.generate[0];
+    const editModel = settings.editModel ?? GEMINI_MODELS.edit[0];
+
+    // Settings other than the key apply as soon as they are picked.
+    const updateSettings = (patch: Partial<AppSettings>) => {
+        const next = { ...settings, ...patch };
+        saveSettings(next);
+        setSettings(next);
+    };
+
+    const handleSaveKey = async () => {
+        setIsBusy(true);
+        setMessage(null);
+        try {
+            await validateApiKey(keyDraft.trim(), [generateModel, editModel]);
+            await saveApiKey(keyDraft.trim(), isEncrypting ? passphrase : undefined);
+            setKeyDraft('');
+            setPassphrase('');
+            setStatus(getApiKeyStatus());
+            setMessage({ text: 'The key works with the chosen models and has been saved.', isError: false });
+        } catch (err: any) {
+            setMessage({ text: err.message || 'Could not check the key.', isError: true });
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleUnlock = async () => {
+        setIsBusy(true);
+        setMessage(null);
+        try {
+            await unlockApiKey(unlockPassphrase);
+            setUnlockPassphrase('');
+            setStatus(getApiKeyStatus());
+        } catch (err: any) {
+            setMessage({ text: err.message || 'Could not unlock the key.', isError: true });
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleCheckProxy = async () => {
+        setIsBusy(true);
+        setMessage(null);
+        try {
+            const health = await checkProxy(settings.connection.proxyUrl, settings.connection.proxyToken);
+            setMessage({
+                text: `The proxy is up and forwards to ${health.upstream === 'mock' ? 'a mock upstream' : 'Gemini'}, for ${health.models.join(', ')}.`,
+                isError: false,
+            });
+        } catch (err: any) {
+            setMessage({ text: err.message || 'Could not reach the proxy.', isError: true });
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleForget = () => {
+        if (!window.confirm('Remove the stored API key from this browser?')) return;
+        forgetApiKey();
+        setStatus(getApiKeyStatus());
+        setMessage(null);
+    };
+
+    const chipClass = (isActive: boolean) => `px-2.5 py-1 text-xs font-semibold rounded-md transition-colors ${
+        isActive ? 'bg-yellow-500 text-gray-900' : 'bg-gray-700/50 text-gray-300 hover:bg-gray-700'
+    }`;
+    const inputClass = 'bg-gray-900/70 border border-gray-700 text-gray-200 rounded-lg px-2 py-1.5 text-sm focus:ring-2 focus:ring-yellow-500 focus:outline-none placeholder:text-gray-500';
+    const buttonClass = 'text-xs font-semibold bg-gray-700/50 text-gray-300 px-3 py-1.5 rounded-md hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+    return (
+        <div className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+            <div
+                className="w-full max-w-lg max-h-full overflow-y-auto bg-gray-800/90 backdrop-blur-lg border border-gray-700 rounded-2xl flex flex-col gap-5 p-5 text-gray-200 shadow-2xl"
+                onClick={e => e.stopPropagation()}
+                role="dialog"
+                aria-label="Settings"
+            >
+                <div className="flex items-center justify-between">
+                    <h2 className="text-lg font-bold text-gray-100 flex items-center gap-2">
+                        <Cog6ToothIcon className="w-5 h-5" /> Settings
+                    </h2>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-200 transition-colors" aria-label="Close settings">
+                        <XCircleIcon className="w-6 h-6" />
+                    </button>
+                </div>
+
+                <section className="flex flex-col gap-2">
+                    <h3 className="text-sm font-semibold text-gray-300">Connection</h3>
+                    <div className="flex flex-wrap items-center gap-1">
+                        {CONNECTION_MODES.map(option => (
+                            <button
+                                key={option.value}
+                                onClick={() => {
+                                    updateSettings({ connection: { ...settings.connection, mode: option.value } });
+                                    setMessage(null);
+                                }}
+                                className={chipClass(settings.connection.mode === option.value)}
+                            >
+                                {option.label}
+                            </button>
+                        ))}
+                    </div>
+                    {settings.connection.mode === 'proxy' && (
+                        <>
+                            <p className="text-xs text-gray-400">Requests go to a proxy server that holds the API key, so no key is stored here.</p>
+                            <input
+                                type="url"
+                                value={settings.connection.proxyUrl}
+                                onChange={(e) => updateSettings({ connection: { ...settings.connection, proxyUrl: e.target.value } })}
+                                placeholder="Proxy URL, e.g. http://localhost:8787/api"
+                                className={inputClass}
+                            />
+                            <input
+                                type="password"
+                                value={settings.connection.proxyToken}
+                                onChange={(e) => updateSettings({ connection: { ...settings.connection, proxyToken: e.target.value } })}
+                                placeholder="Access token, if the proxy requires one"
+                                className={`font-mono ${inputClass}`}
+                                autoComplete="off"
+                            />
+                            <div className="flex justify-end">
+                                <button onClick={handleCheckProxy} disabled={!settings.connection.proxyUrl.trim() || isBusy} className={buttonClass}>
+                                    {isBusy ? 'Checking…' : 'Test connection'}
+                                </button>
+                            </div>
+                            {message && <p className={`text-xs ${message.isError ? 'text-red-300' : 'text-green-300'}`}>{message.text}</p>}
+                        </>
+                    )}
+                </section>
+
+                {settings.connection.mode === 'direct' && (
+                    <section className="flex flex-col gap-2">
+                        <h3 className="text-sm font-semibold text-gray-300">Gemini API key</h3>
+                        <p className="text-xs text-gray-400">{statusText[status]}</p>
+
+                        {status === 'locked' && (
+                            <div className="flex items-center gap-2">
+                                <input
+                                    type="password"
+                                    value={unlockPassphrase}
+                                    onChange={(e) => setUnlockPassphrase(e.target.value)}
+                                    onKeyDown={(e) => e.key === 'Enter' && unlockPassphrase && handleUnlock()}
+                                    placeholder="Passphrase"
+                                    className={`flex-1 ${inputClass}`}
+                                    autoFocus
+                                />
+                                <button onClick={handleUnlock} disabled={!unlockPassphrase || isBusy} className={buttonClass}>
+                                    Unlock
+                                </button>
+                            </div>
+                        )}
+
+                        <div className="flex items-center gap-2">
+                            <input
+                                type={isKeyVisible ? 'text' : 'password'}
+                                value={keyDraft}
+                                onChange={(e) => setKeyDraft(e.target.value)}
+                                placeholder={status === 'none' ? 'Paste your API key' : 'Paste a new key to replace the stored one'}
+                                className={`flex-1 font-mono ${inputClass}`}
+                                autoComplete="off"
+                                spellCheck={false}
+                            />
+                            <button onClick={() => setIsKeyVisible(!isKeyVisible)} className={buttonClass}>
+                                {isKeyVisible ? 'Hide' : 'Show'}
+                            </button>
+                        </div>
+                        <label className="flex items-center gap-2 text-xs text-gray-300">
+                            <input
+                                type="checkbox"
+                                checked={isEncrypting}
+                                onChange={(e) => setIsEncrypting(e.target.checked)}
+                                className="accent-yellow-500"
+                            />
+                            Encrypt with a passphrase, asked for once per session
+                        </label>
+                        {isEncrypting && (
+                            <input
+                                type="password"
+                                value={passphrase}
+                                onChange={(e) => setPassphrase(e.target.value)}
+                                placeholder="Passphrase"
+                                className={inputClass}
+                                autoComplete="new-password"
+                            />
+                        )}
+                        <div className="flex items-center justify-between gap-2">
+                            <a href={API_KEY_HELP_URL} target="_blank" rel="noreferrer" className="text-xs text-yellow-400 hover:text-yellow-300 underline">
+                                Get a key
+                            </a>
+                            <div className="flex items-center gap-2">
+                                {status !== 'none' && (
+                                    <button onClick={handleForget} disabled={isBusy} className="text-xs font-semibold text-gray-400 hover:text-red-300 transition-colors disabled:opacity-50">
+                                        Forget key
+                                    </button>
+                                )}
+                                <button
+                                    onClick={handleSaveKey}
+                                    disabled={!keyDraft.trim() || (isEncrypting && !passphrase) || isBusy}
+                                    className="text-xs font-bold bg-yellow-500 text-gray-900 px-3 py-1.5 rounded-md hover:bg-yellow-400 transition-colors disabled:bg-gray-600 disabled:text-gray-300 disabled:cursor-not-allowed"
+                                >
+                                    {isBusy ? 'Checking…' : 'Check & save'}
+                                </button>
+                            </div>
+                        </div>
+                        {message && <p className={`text-xs ${message.isError ? 'text-red-300' : 'text-green-300'}`}>{message.text}</p>}
+                    </section>
+                )}
+
+                <section className="flex flex-col gap-2">
+                    <h3 className="text-sm font-semibold text-gray-300">Models</h3>
+                    <label className="flex items-center justify-between gap-2 text-xs text-gray-400">
+                        Generating from text
+                        <select
+                            value={generateModel}
+                            onChange={(e) => updateSettings({ generateModel: e.target.value === GEMINI_MODELS.generate[0] ? null : e.target.value })}
+                            className={inputClass}
+                        >
+                            {GEMINI_MODELS.generate.map(model => <option key={model} value={model}>{model}</option>)}
+                        </select>
+                    </label>
+                    <label className="flex items-center justify-between gap-2 text-xs text-gray-400">
+                        Editing images
+                        <select
+                            value={editModel}
+                            onChange={(e) => updateSettings({ editModel: e.target.value === GEMINI_MODELS.edit[0] ? null : e.target.value })}
+                            className={inputClass}
+                        >
+                            {GEMINI_MODELS.edit.map(model => <option key={model} value={model}>{model}</option>)}
+                        </select>
+                    </label>
+                </section>
+
+                <section className="flex flex-col gap-2">
+                    <h3 className="text-sm font-semibold text-gray-300">New sessions start with</h3>
+                    <div className="flex flex-wrap items-center gap-1">
+                        {aspectRatios.map(value => (
+                            <button
+                                key={value}
+                                onClick={() => updateSettings({ defaults: { ...settings.defaults, aspectRatio: value } })}
+                                className={chipClass(settings.defaults.aspectRatio === value)}
+                            >
+                                {value}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="flex flex-wrap items-center gap-1">
+                        {Array.from({ length: maxImages }, (_, i) => i + 1).map(count => (
+                            <button
+                                key={count}
+                                onClick={() => updateSettings({ defaults: { ...settings.defaults, numberOfImages: count } })}
+                                className={chipClass(settings.defaults.numberOfImages === count)}
+                            >
+                                {count} {count === 1 ? 'image' : 'images'}
+                            </button>
+                        ))}
+                    </div>
+                </section>
+
+                <p className="text-xs text-gray-500">
+                    Settings stay in this browser. Changes apply to the next request; the key is sent only to the Gemini API.
+                </p>
+            </div>
+        </div>
+    );
+};
+
+export default SettingsModal;
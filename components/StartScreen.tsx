@@ -2,3 +2,267 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import type { Project } from '../types';
+import {
+    listProjects, summarizeProject, createProject, renameProject, duplicateProject, deleteProject, exportProject, importProject,
+    ProjectSummary,
+} from '../services/projectService';
+import { FolderIcon, UploadIcon, DownloadIcon, TrashIcon, ImageIcon, RectangleGroupIcon } from './icons';
+
+// How many recently opened projects get a quick-open button.
+const RECENT_PROJECT_COUNT = 3;
+
+type StartScreenProps = {
+    onOpen: (project: Project) => Promise<void>;
+};
+
+const StartScreen: React.FC<StartScreenProps> = ({ onOpen }) => {
+    const [projects, setProjects] = useState<Project[] | null>(null);
+    const [summaries, setSummaries] = useState<Map<string, ProjectSummary>>(new Map());
+    const [newProjectName, setNewProjectName] = useState('');
+    const [renamingId, setRenamingId] = useState<string | null>(null);
+    const [renameValue, setRenameValue] = useState('');
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    const refresh = useCallback(async () => {
+        const list = await listProjects();
+        setProjects(list);
+        const entries = await Promise.all(list.map(async project => [project.id, await summarizeProject(project.id)] as const));
+        setSummaries(new Map(entries));
+    }, []);
+
+    useEffect(() => {
+        refresh().catch((err: any) => setError(err.message || 'Could not load your projects.'));
+    }, [refresh]);
+
+    const coverUrls = useMemo(
+        () => new Map([...summaries].flatMap(([id, { cover }]) => (cover ? [[id, URL.createObjectURL(cover)] as const] : []))),
+        [summaries],
+    );
+    useEffect(() => () => coverUrls.forEach(url => URL.revokeObjectURL(url)), [coverUrls]);
+
+    const recentProjects = (projects ?? []).filter(project => project.lastOpenedAt > 0).slice(0, RECENT_PROJECT_COUNT);
+
+    // Runs an action on a project, showing that it is busy and reporting failures.
+    const runAction = async (projectId: string | null, action: () => Promise<void>, failure: string) => {
+        setBusyId(projectId ?? '');
+        setError(null);
+        try {
+            await action();
+        } catch (err: any) {
+            setError(err.message || failure);
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleOpen = (project: Project) => runAction(project.id, () => onOpen(project), `Could not open ${project.name}.`);
+
+    const handleCreate = (e: React.FormEvent) => {
+        e.preventDefault();
+        runAction(null, async () => {
+            const project = await createProject(newProjectName);
+            setNewProjectName('');
+            await onOpen(project);
+        }, 'Could not create the project.');
+    };
+
+    const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        runAction(null, async () => {
+            await importProject(file);
+            await refresh();
+        }, `Could not import ${file.name}.`);
+    };
+
+    const startRenaming = (project: Project) => {
+        setRenamingId(project.id);
+        setRenameValue(project.name);
+    };
+
+    const handleRename = (project: Project) => {
+        setRenamingId(null);
+        if (renameValue.trim() === project.name) return;
+        runAction(project.id, async () => {
+            await renameProject(project, renameValue);
+            await refresh();
+        }, `Could not rename ${project.name}.`);
+    };
+
+    const handleDuplicate = (project: Project) => runAction(project.id, async () => {
+        await duplicateProject(project);
+        await refresh();
+    }, `Could not duplicate ${project.name}.`);
+
+    const handleExport = (project: Project) => runAction(project.id, async () => {
+        const archive = await exportProject(project);
+        const url = URL.createObjectURL(archive);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `${project.name.replace(/[\\/:*?"<>|]+/g, '-')}.zip`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    }, `Could not export ${project.name}.`);
+
+    const handleDelete = (project: Project) => {
+        if (!window.confirm(`Delete "${project.name}" with all its images, prompts, presets and products? This cannot be undone.`)) return;
+        runAction(project.id, async () => {
+            await deleteProject(project);
+            await refresh();
+        }, `Could not delete ${project.name}.`);
+    };
+
+    const actionClass = 'text-xs font-semibold text-gray-400 hover:text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+    return (
+        <main className="flex-1 w-full max-w-6xl mx-auto p-4 md:p-8 flex flex-col gap-8 text-gray-200">
+            <div className="flex flex-col md:flex-row gap-4">
+                <form onSubmit={handleCreate} className="flex-1 flex gap-2 bg-gray-800/50 backdrop-blur-lg border border-gray-700 rounded-2xl p-4">
+                    <input
+                        type="text"
+                        value={newProjectName}
+                        onChange={e => setNewProjectName(e.target.value)}
+                        placeholder="New project name"
+                        aria-label="New project name"
+                        className="flex-1 min-w-0 bg-gray-900/70 border border-gray-600 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-yellow-500 focus:border-yellow-500 transition"
+                    />
+                    <button
+                        type="submit"
+                        disabled={busyId !== null}
+                        className="flex items-center gap-2 bg-yellow-500 text-gray-900 font-bold text-sm px-4 py-2 rounded-lg hover:bg-yellow-400 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        <FolderIcon className="w-5 h-5" /> New project
+                    </button>
+                </form>
+                <button
+                    onClick={() => importInputRef.current?.click()}
+                    disabled={busyId !== null}
+                    className="flex items-center justify-center gap-2 bg-gray-800/50 backdrop-blur-lg border border-gray-700 rounded-2xl px-6 py-4 text-sm font-semibold text-gray-300 hover:text-white hover:border-gray-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    <UploadIcon className="w-5 h-5" /> Import project
+                </button>
+                <input ref={importInputRef} type="file" accept=".zip,application/zip" onChange={handleImport} className="hidden" />
+            </div>
+
+            {error && (
+                <div className="bg-red-500/10 border border-red-500/50 text-red-300 text-sm rounded-lg p-3" role="alert">
+                    {error}
+                </div>
+            )}
+
+            {recentProjects.length > 0 && (
+                <section className="flex flex-col gap-3">
+                    <h2 className="text-sm font-semibold uppercase tracking-wide text-gray-400">Recent</h2>
+                    <div className="flex flex-wrap gap-2">
+                        {recentProjects.map(project => (
+                            <button
+                                key={project.id}
+                                onClick={() => handleOpen(project)}
+                                disabled={busyId !== null}
+                                className="flex items-center gap-2 bg-gray-700/50 text-gray-200 text-sm font-semibold px-4 py-2 rounded-lg hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                <FolderIcon className="w-4 h-4 text-yellow-400" />
+                                {project.name}
+                            </button>
+                        ))}
+                    </div>
+                </section>
+            )}
+
+            <section className="flex flex-col gap-3">
+                <h2 className="text-sm font-semibold uppercase tracking-wide text-gray-400">
+                    All projects {projects && <span className="normal-case">({projects.length})</span>}
+                </h2>
+                {projects?.length === 0 ? (
+                    <div className="text-center text-gray-500 py-16">
+                        <FolderIcon className="w-16 h-16 mx-auto" />
+                        <p className="mt-4 font-semibold text-gray-400">No projects yet</p>
+                        <p className="mt-1 text-sm">Create a project to start generating, or import one exported from another browser.</p>
+                    </div>
+                ) : (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                        {(projects ?? []).map(project => {
+                            const summary = summaries.get(project.id);
+                            const isBusy = busyId === project.id;
+                            return (
+                                <div
+                                    key={project.id}
+                                    className={`flex flex-col bg-gray-800/50 backdrop-blur-lg border rounded-2xl overflow-hidden transition-colors ${isBusy ? 'border-yellow-500' : 'border-gray-700 hover:border-gray-500'}`}
+                                >
+                                    <button
+                                        onClick={() => handleOpen(project)}
+                                        disabled={busyId !== null}
+                                        className="aspect-video bg-gray-900/70 flex items-center justify-center disabled:cursor-not-allowed"
+                                        aria-label={`Open ${project.name}`}
+                                    >
+                                        {coverUrls.has(project.id) ? (
+                                            <img src={coverUrls.get(project.id)} alt="" className="w-full h-full object-cover" />
+                                        ) : (
+                                            <ImageIcon className="w-12 h-12 text-gray-600" />
+                                        )}
+                                    </button>
+                                    <div className="p-3 flex flex-col gap-2">
+                                        {renamingId === project.id ? (
+                                            <input
+                                                type="text"
+                                                value={renameValue}
+                                                onChange={e => setRenameValue(e.target.value)}
+                                                onBlur={() => handleRename(project)}
+                                                onKeyDown={e => {
+                                                    if (e.key === 'Enter') e.currentTarget.blur();
+                                                    if (e.key === 'Escape') {
+                                                        setRenameValue(project.name);
+                                                        setRenamingId(null);
+                                                    }
+                                                }}
+                                                autoFocus
+                                                aria-label="Project name"
+                                                className="bg-gray-900/70 border border-gray-600 rounded-lg px-2 py-1 text-sm font-semibold focus:ring-2 focus:ring-yellow-500 focus:border-yellow-500 transition"
+                                            />
+                                        ) : (
+                                            <p className="font-semibold text-gray-100 truncate" title={project.name}>{project.name}</p>
+                                        )}
+                                        <div className="flex items-center justify-between text-[10px] uppercase tracking-wide text-gray-500">
+                                            <span>
+                                                {summary
+                                                    ? `${summary.images} image${summary.images === 1 ? '' : 's'} · ${summary.prompts} prompt${summary.prompts === 1 ? '' : 's'} · ${summary.products} product${summary.products === 1 ? '' : 's'}`
+                                                    : 'Counting…'}
+                                            </span>
+                                            <span>{project.lastOpenedAt > 0 ? `Opened ${new Date(project.lastOpenedAt).toLocaleDateString()}` : 'Never opened'}</span>
+                                        </div>
+                                        <div className="flex items-center gap-3 pt-1">
+                                            <button onClick={() => handleOpen(project)} disabled={busyId !== null} className="text-xs font-semibold text-yellow-400 hover:text-yellow-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+                                                Open
+                                            </button>
+                                            <button onClick={() => startRenaming(project)} disabled={busyId !== null} className={actionClass}>
+                                                Rename
+                                            </button>
+                                            <button onClick={() => handleDuplicate(project)} disabled={busyId !== null} className={`${actionClass} flex items-center gap-1`}>
+                                                <RectangleGroupIcon className="w-3.5 h-3.5" /> Duplicate
+                                            </button>
+                                            <button onClick={() => handleExport(project)} disabled={busyId !== null} className={`${actionClass} flex items-center gap-1`}>
+                                                <DownloadIcon className="w-3.5 h-3.5" /> Export
+                                            </button>
+                                            <button onClick={() => handleDelete(project)} disabled={busyId !== null} className={`${actionClass} ml-auto flex items-center gap-1 hover:text-red-300`} aria-label={`Delete ${project.name}`}>
+                                                <TrashIcon className="w-3.5 h-3.5" />
+                                            </button>
+                                        </div>
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+            </section>
+        </main>
+    );
+};
+
+export default StartScreen;
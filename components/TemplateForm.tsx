@@ -0,0 +1,53 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { MAX_PROMPT_BATCH } from '../services/promptService';
+
+type TemplateFormProps = {
+    variables: string[];
+    values: Record<string, string>;
+    onChange: (values: Record<string, string>) => void;
+    isWildcard: boolean;
+    setIsWildcard: (isWildcard: boolean) => void;
+    /** How many prompts the template will expand into with the current values. */
+    expansionCount: number;
+};
+
+/**
+ * Asks for a value for each `{variable}` in a prompt template. In wildcard mode, each value
+ * may list alternatives separated by `|`, and every combination becomes its own prompt.
+ */
+const TemplateForm: React.FC<TemplateFormProps> = ({ variables, values, onChange, isWildcard, setIsWildcard, expansionCount }) => (
+    <div className="flex flex-col gap-2 bg-gray-900/50 border border-gray-700 rounded-lg p-3">
+        <div className="flex items-center justify-between">
+            <span className="text-xs font-semibold text-gray-300">Template variables</span>
+            <label className="flex items-center gap-1.5 text-xs text-gray-300">
+                <input type="checkbox" checked={isWildcard} onChange={(e) => setIsWildcard(e.target.checked)} className="accent-yellow-500" />
+                Wildcards
+            </label>
+        </div>
+        {variables.map(name => (
+            <label key={name} className="flex items-center gap-2 text-xs text-gray-400">
+                <span className="w-20 flex-shrink-0 truncate" title={name}>{name}</span>
+                <input
+                    type="text"
+                    value={values[name] ?? ''}
+                    onChange={(e) => onChange({ ...values, [name]: e.target.value })}
+                    placeholder={isWildcard ? 'one | another | a third' : name}
+                    className="flex-1 min-w-0 bg-gray-900/70 border border-gray-700 text-gray-200 rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-yellow-500 focus:outline-none placeholder:text-gray-600"
+                />
+            </label>
+        ))}
+        {isWildcard && (
+            <p className={`text-xs ${expansionCount > MAX_PROMPT_BATCH ? 'text-red-300' : 'text-gray-500'}`}>
+                {expansionCount > MAX_PROMPT_BATCH
+                    ? `${expansionCount} prompts is too many; use at most ${MAX_PROMPT_BATCH}.`
+                    : `Generates ${expansionCount} prompt${expansionCount === 1 ? '' : 's'}, one per combination.`}
+            </p>
+        )}
+    </div>
+);
+
+export default TemplateForm;
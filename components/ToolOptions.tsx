@@ -2,3 +2,63 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import React from 'react';
+import type { MaskTool } from './EditorCanvas';
+import { PaintBrushIcon, EraserIcon, ArrowPathIcon, TrashIcon } from './icons';
+
+export const MIN_BRUSH_SIZE = 4;
+export const MAX_BRUSH_SIZE = 160;
+
+type ToolOptionsProps = {
+    tool: MaskTool;
+    setTool: (tool: MaskTool) => void;
+    brushSize: number;
+    setBrushSize: (size: number) => void;
+    onInvert: () => void;
+    onClear: () => void;
+    onDone: () => void;
+};
+
+const ToolOptions: React.FC<ToolOptionsProps> = ({ tool, setTool, brushSize, setBrushSize, onInvert, onClear, onDone }) => {
+    const toolButtonClass = (value: MaskTool) => `p-2 rounded-lg transition-colors ${
+        tool === value ? 'bg-yellow-500 text-gray-900' : 'bg-gray-700/50 text-gray-300 hover:bg-gray-700'
+    }`;
+
+    return (
+        <div className="flex flex-wrap items-center justify-center gap-3 bg-gray-800/80 backdrop-blur-lg border border-gray-700 rounded-xl px-4 py-2 text-gray-200 shadow-lg">
+            <div className="flex items-center gap-1">
+                <button onClick={() => setTool('brush')} className={toolButtonClass('brush')} aria-label="Brush" title="Brush">
+                    <PaintBrushIcon className="w-5 h-5" />
+                </button>
+                <button onClick={() => setTool('eraser')} className={toolButtonClass('eraser')} aria-label="Eraser" title="Eraser">
+                    <EraserIcon className="w-5 h-5" />
+                </button>
+            </div>
+            <label className="flex items-center gap-2 text-xs font-semibold text-gray-300">
+                Size
+                <input
+                    type="range"
+                    min={MIN_BRUSH_SIZE}
+                    max={MAX_BRUSH_SIZE}
+                    value={brushSize}
+                    onChange={(e) => setBrushSize(Number(e.target.value))}
+                    className="w-28 accent-yellow-500"
+                />
+                <span className="w-8 text-right tabular-nums">{brushSize}</span>
+            </label>
+            <div className="flex items-center gap-1">
+                <button onClick={onInvert} className="flex items-center gap-1 text-xs font-semibold bg-gray-700/50 text-gray-300 px-3 py-2 rounded-lg hover:bg-gray-700 transition-colors">
+                    <ArrowPathIcon className="w-4 h-4" /> Invert
+                </button>
+                <button onClick={onClear} className="flex items-center gap-1 text-xs font-semibold bg-gray-700/50 text-gray-300 px-3 py-2 rounded-lg hover:bg-gray-700 transition-colors">
+                    <TrashIcon className="w-4 h-4" /> Clear
+                </button>
+            </div>
+            <button onClick={onDone} className="text-xs font-semibold text-yellow-400 hover:text-yellow-300 px-2 transition-colors">
+                Exit mask
+            </button>
+        </div>
+    );
+};
+
+export default ToolOptions;
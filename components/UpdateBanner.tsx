@@ -0,0 +1,34 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { ArrowPathIcon, XCircleIcon } from './icons';
+
+type UpdateBannerProps = {
+  onReload: () => void;
+  onDismiss: () => void;
+};
+
+const UpdateBanner: React.FC<UpdateBannerProps> = ({ onReload, onDismiss }) => {
+  return (
+    <div
+      className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-4 bg-gray-800/90 backdrop-blur-lg border border-yellow-500/50 text-gray-100 px-5 py-3 rounded-xl shadow-2xl"
+      role="status"
+    >
+      <span className="text-sm font-semibold">A new version is available.</span>
+      <button
+        onClick={onReload}
+        className="flex items-center gap-1 bg-yellow-500 text-gray-900 text-sm font-bold py-1.5 px-3 rounded-lg hover:bg-yellow-400 transition-colors"
+      >
+        <ArrowPathIcon className="w-4 h-4" />
+        Reload
+      </button>
+      <button onClick={onDismiss} className="text-gray-400 hover:text-gray-200 transition-colors" aria-label="Dismiss">
+        <XCircleIcon className="w-5 h-5" />
+      </button>
+    </div>
+  );
+};
+
+export default UpdateBanner;
@@ -0,0 +1,88 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { loadImage } from '../services/imageUtils';
+import {
+    countUpscaleTiles, MAX_UPSCALE_EDGE, MAX_UPSCALE_TILES, UPSCALE_FACTORS, upscaledSize,
+    type UpscaleFactor, type UpscaleMethod,
+} from '../services/upscaleService';
+import { ArrowsPointingOutIcon } from './icons';
+
+const METHODS: { value: UpscaleMethod; label: string; hint: string }[] = [
+    { value: 'local', label: 'Local', hint: 'Lanczos resampling in the browser. Fast, free and keeps the content exactly.' },
+    { value: 'ai', label: 'AI detail', hint: 'Resamples, then has the model restore detail tile by tile.' },
+];
+
+type UpscalePanelProps = {
+    imageUrl: string | null;
+    /** Whether the provider can be used right now, which the AI method needs. */
+    canUseProvider: boolean;
+    onUpscale: (method: UpscaleMethod, factor: UpscaleFactor) => void;
+};
+
+const UpscalePanel: React.FC<UpscalePanelProps> = ({ imageUrl, canUseProvider, onUpscale }) => {
+    const [method, setMethod] = useState<UpscaleMethod>('local');
+    const [factor, setFactor] = useState<UpscaleFactor>(2);
+    const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+
+    useEffect(() => {
+        if (!imageUrl) {
+            setSize(null);
+            return;
+        }
+        let isCancelled = false;
+        loadImage(imageUrl)
+            .then(image => { if (!isCancelled) setSize({ width: image.naturalWidth, height: image.naturalHeight }); })
+            .catch(() => { if (!isCancelled) setSize(null); });
+        return () => { isCancelled = true; };
+    }, [imageUrl]);
+
+    const target = size && upscaledSize(size.width, size.height, factor);
+    const tiles = size ? countUpscaleTiles(size.width, size.height, factor) : 0;
+    const problem = !target ? null
+        : Math.max(target.width, target.height) > MAX_UPSCALE_EDGE ? `Too large: at most ${MAX_UPSCALE_EDGE} px per edge.`
+        : method === 'ai' && tiles > MAX_UPSCALE_TILES ? `Needs ${tiles} tiles; the limit is ${MAX_UPSCALE_TILES}.`
+        : method === 'ai' && !canUseProvider ? 'AI detail needs a connection.'
+        : null;
+
+    const chipClass = (isActive: boolean) => `flex-1 py-1.5 text-xs font-semibold rounded-md transition-colors ${
+        isActive ? 'bg-yellow-500 text-gray-900' : 'bg-gray-700/50 text-gray-300 hover:bg-gray-700'
+    }`;
+
+    return (
+        <div className="flex flex-col gap-2">
+            <label className="text-sm font-semibold text-gray-100 flex items-center gap-2">
+                <ArrowsPointingOutIcon className="w-4 h-4"/> Upscale
+            </label>
+            <div className="flex gap-1">
+                {METHODS.map(option => (
+                    <button key={option.value} onClick={() => setMethod(option.value)} className={chipClass(method === option.value)} title={option.hint}>
+                        {option.label}
+                    </button>
+                ))}
+                <span className="w-2" />
+                {UPSCALE_FACTORS.map(value => (
+                    <button key={value} onClick={() => setFactor(value)} className={chipClass(factor === value)}>
+                        {value}×
+                    </button>
+                ))}
+            </div>
+            {target && (
+                <p className={`text-xs ${problem ? 'text-red-300' : 'text-gray-400'}`}>
+                    {problem ?? `${size!.width} × ${size!.height} → ${target.width} × ${target.height} px${method === 'ai' ? ` · ${tiles} tile${tiles === 1 ? '' : 's'}` : ''}`}
+                </p>
+            )}
+            <button
+                onClick={() => onUpscale(method, factor)}
+                disabled={!imageUrl || !!problem}
+                className="w-full bg-gray-700/50 text-gray-300 font-semibold py-2 px-4 rounded-lg hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+            >
+                Upscale {factor}×
+            </button>
+        </div>
+    );
+};
+
+export default UpscalePanel;
@@ -0,0 +1,251 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useMemo, useState } from 'react';
+import type { UsageRecord } from '../types';
+import {
+    clearUsage, dayKey, formatCost, getDailyBudget, listUsage, setDailyBudget, startOfDay, summarizeUsage, UsageSummary,
+} from '../services/usageService';
+import { ChartBarIcon, XCircleIcon } from './icons';
+
+const DAYS_SHOWN = 30;
+const CHART_DAYS = 14;
+
+const formatTokens = (tokens: number) => (tokens >= 10_000 ? `${Math.round(tokens / 1000)}k` : tokens.toLocaleString());
+
+type UsageDashboardProps = {
+    onClose: () => void;
+};
+
+/**
+ * Summarizes recorded model calls and their estimated cost per day and per model, and sets
+ * the soft daily budget.
+ */
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ onClose }) => {
+    const [records, setRecords] = useState<UsageRecord[] | null>(null);
+    const [budget, setBudget] = useState<number | null>(getDailyBudget);
+    const [budgetDraft, setBudgetDraft] = useState(budget === null ? '' : String(budget));
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        listUsage(startOfDay(DAYS_SHOWN - 1))
+            .then(setRecords)
+            .catch((err: any) => setError(err.message || 'Could not load usage.'));
+    }, []);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    const byDay = useMemo(() => new Map(summarizeUsage(records ?? [], record => dayKey(record.createdAt)).map(day => [day.key, day])), [records]);
+    const byModel = useMemo(() => summarizeUsage(records ?? [], record => record.model).sort((a, b) => b.cost - a.cost || b.calls - a.calls), [records]);
+    // Every day in the window, newest first, including days with no calls.
+    const days = useMemo(() => Array.from({ length: DAYS_SHOWN }, (_, i) => dayKey(startOfDay(i))), []);
+    const [total] = useMemo(() => summarizeUsage(records ?? [], () => 'total'), [records]);
+    const today = byDay.get(days[0]);
+    const spentToday = today?.cost ?? 0;
+
+    // Chart spend when any calls were priced; otherwise, e.g. with the mock provider, chart calls.
+    const chartDays = days.slice(0, CHART_DAYS).reverse();
+    const isChartingCost = (total?.cost ?? 0) > 0;
+    const valueOf = (day: UsageSummary | undefined) => (isChartingCost ? day?.cost : day?.calls) ?? 0;
+    const chartMax = Math.max(...chartDays.map(day => valueOf(byDay.get(day))), isChartingCost ? budget ?? 0 : 0, Number.EPSILON);
+
+    const handleSaveBudget = () => {
+        const value = Number(budgetDraft);
+        const next = budgetDraft.trim() && value > 0 ? value : null;
+        setDailyBudget(next);
+        setBudget(next);
+        setBudgetDraft(next === null ? '' : String(next));
+    };
+
+    const handleClear = async () => {
+        if (!window.confirm('Delete all recorded usage? Images in the library keep their own details.')) return;
+        try {
+            await clearUsage();
+            setRecords([]);
+        } catch (err: any) {
+            setError(err.message || 'Could not clear usage.');
+        }
+    };
+
+    const cellClass = 'px-2 py-1 text-right tabular-nums';
+
+    return (
+        <div className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+            <div
+                className="w-full max-w-2xl max-h-full overflow-y-auto bg-gray-800/90 backdrop-blur-lg border border-gray-700 rounded-2xl flex flex-col gap-5 p-5 text-gray-200 shadow-2xl"
+                onClick={e => e.stopPropagation()}
+                role="dialog"
+                aria-label="Usage"
+            >
+                <div className="flex items-center justify-between">
+                    <h2 className="text-lg font-bold text-gray-100 flex items-center gap-2">
+                        <ChartBarIcon className="w-5 h-5" /> Usage
+                    </h2>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-200 transition-colors" aria-label="Close usage">
+                        <XCircleIcon className="w-6 h-6" />
+                    </button>
+                </div>
+
+                {error && <p className="text-sm text-red-300">{error}</p>}
+
+                <div className="grid grid-cols-2 gap-3">
+                    <div className="bg-gray-900/50 rounded-lg p-3">
+                        <p className="text-xs text-gray-400">Today</p>
+                        <p className="text-2xl font-bold text-gray-100 tabular-nums">{formatCost(spentToday)}</p>
+                        <p className="text-xs text-gray-400">{today?.calls ?? 0} calls · {today?.images ?? 0} images</p>
+                    </div>
+                    <div className="bg-gray-900/50 rounded-lg p-3">
+                        <p className="text-xs text-gray-400">Last {DAYS_SHOWN} days</p>
+                        <p className="text-2xl font-bold text-gray-100 tabular-nums">{formatCost(total?.cost ?? 0)}</p>
+                        <p className="text-xs text-gray-400">{total?.calls ?? 0} calls · {total?.images ?? 0} images</p>
+                    </div>
+                </div>
+
+                <div className="flex flex-col gap-2">
+                    <label className="flex items-center gap-2 text-sm font-semibold text-gray-300">
+                        Daily budget
+                        <span className="text-gray-500">$</span>
+                        <input
+                            type="number"
+                            min={0}
+                            step={0.5}
+                            value={budgetDraft}
+                            onChange={(e) => setBudgetDraft(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && handleSaveBudget()}
+                            placeholder="None"
+                            className="w-24 bg-gray-900/70 border border-gray-700 rounded-md px-2 py-1 text-sm tabular-nums focus:ring-2 focus:ring-yellow-500 focus:outline-none placeholder:text-gray-600"
+                        />
+                        <button
+                            onClick={handleSaveBudget}
+                            disabled={budgetDraft === (budget === null ? '' : String(budget))}
+                            className="text-xs font-semibold bg-gray-700/50 text-gray-300 px-3 py-1.5 rounded-md hover:bg-gray-700 transition-colors disabled:opacity-50"
+                        >
+                            Save
+                        </button>
+                    </label>
+                    {budget !== null ? (
+                        <>
+                            <div className="h-2 bg-gray-900/70 rounded-full overflow-hidden">
+                                <div
+                                    className={`h-full rounded-full ${spentToday >= budget ? 'bg-red-400' : 'bg-yellow-500'}`}
+                                    style={{ width: `${Math.min(100, (spentToday / budget) * 100)}%` }}
+                                />
+                            </div>
+                            <p className={`text-xs ${spentToday >= budget ? 'text-red-300' : 'text-gray-400'}`}>
+                                {spentToday >= budget
+                                    ? 'Over budget for today. You will be asked before the next call.'
+                                    : `${formatCost(budget - spentToday)} left today.`}
+                            </p>
+                        </>
+                    ) : (
+                        <p className="text-xs text-gray-400">Set a budget to be warned before calls once today's estimated spend reaches it.</p>
+                    )}
+                </div>
+
+                <div className="flex flex-col gap-1">
+                    <p className="text-xs font-semibold text-gray-400">{isChartingCost ? 'Estimated spend' : 'Calls'}, last {CHART_DAYS} days</p>
+                    <div className="h-24 bg-gray-900/50 rounded-lg p-2">
+                        <div className="relative flex items-end gap-1 h-full">
+                            {chartDays.map(day => {
+                                const summary = byDay.get(day);
+                                return (
+                                    <div
+                                        key={day}
+                                        className="flex-1 bg-yellow-500/70 hover:bg-yellow-400 rounded-t transition-colors"
+                                        style={{ height: `${(valueOf(summary) / chartMax) * 100}%`, minHeight: summary ? 2 : 0 }}
+                                        title={`${day}: ${summary?.calls ?? 0} calls, ${formatCost(summary?.cost ?? 0)}`}
+                                    />
+                                );
+                            })}
+                            {isChartingCost && budget !== null && (
+                                <div
+                                    className="absolute inset-x-0 border-t border-dashed border-red-400/70 pointer-events-none"
+                                    style={{ bottom: `${(budget / chartMax) * 100}%` }}
+                                />
+                            )}
+                        </div>
+                    </div>
+                </div>
+
+                {records === null ? (
+                    <p className="text-sm text-gray-400">Loading…</p>
+                ) : records.length === 0 ? (
+                    <p className="text-sm text-gray-400">No model calls recorded in the last {DAYS_SHOWN} days.</p>
+                ) : (
+                    <>
+                        <table className="w-full text-xs text-gray-300">
+                            <thead className="text-gray-500">
+                                <tr>
+                                    <th className="px-2 py-1 text-left font-semibold">Model</th>
+                                    <th className={cellClass}>Calls</th>
+                                    <th className={cellClass}>Images</th>
+                                    <th className={cellClass}>Tokens in / out</th>
+                                    <th className={cellClass}>Avg. latency</th>
+                                    <th className={cellClass}>Est. cost</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {byModel.map(model => (
+                                    <tr key={model.key} className="border-t border-gray-700/50">
+                                        <td className="px-2 py-1 truncate max-w-[12rem]" title={model.key}>{model.key}</td>
+                                        <td className={cellClass}>{model.calls}</td>
+                                        <td className={cellClass}>{model.images}</td>
+                                        <td className={cellClass}>{formatTokens(model.inputTokens)} / {formatTokens(model.outputTokens)}</td>
+                                        <td className={cellClass}>{(model.latencyMs / model.calls / 1000).toFixed(1)}s</td>
+                                        <td className={cellClass}>{formatCost(model.cost)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+
+                        <table className="w-full text-xs text-gray-300">
+                            <thead className="text-gray-500">
+                                <tr>
+                                    <th className="px-2 py-1 text-left font-semibold">Day</th>
+                                    <th className={cellClass}>Calls</th>
+                                    <th className={cellClass}>Images</th>
+                                    <th className={cellClass}>Tokens in / out</th>
+                                    <th className={cellClass}>Est. cost</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {days.filter(day => byDay.has(day)).map(day => {
+                                    const summary = byDay.get(day)!;
+                                    return (
+                                        <tr key={day} className="border-t border-gray-700/50">
+                                            <td className="px-2 py-1">{day}</td>
+                                            <td className={cellClass}>{summary.calls}</td>
+                                            <td className={cellClass}>{summary.images}</td>
+                                            <td className={cellClass}>{formatTokens(summary.inputTokens)} / {formatTokens(summary.outputTokens)}</td>
+                                            <td className={`${cellClass} ${budget !== null && summary.cost >= budget ? 'text-red-300' : ''}`}>{formatCost(summary.cost)}</td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </>
+                )}
+
+                <div className="flex items-center justify-between gap-3">
+                    <p className="text-xs text-gray-500">Costs are estimates from list prices. Your provider's billing is authoritative.</p>
+                    <button
+                        onClick={handleClear}
+                        disabled={!records?.length}
+                        className="text-xs font-semibold text-gray-400 hover:text-red-300 transition-colors disabled:opacity-50 flex-shrink-0"
+                    >
+                        Clear history
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default UsageDashboard;
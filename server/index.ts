@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { appendFileSync } from 'node:fs';
+import type { AddressInfo } from 'node:net';
+import { GEMINI_MODELS } from '../services/geminiModels.ts';
+import { startMockUpstream } from './mockUpstream.ts';
+import { createProxyServer, type ProxyLogEntry } from './proxyServer.ts';
+
+// Starts the proxy. Configuration comes from the environment, or .env.local like the app:
+//   GEMINI_API_KEY          the key requests are sent with; not needed with --mock
+//   PROXY_PORT              where to listen, 8787 by default
+//   PROXY_USERS             "name:token,name:token"; when set, each request needs one of the tokens
+//   PROXY_RATE_LIMIT        generate and edit requests per user per minute, 10 by default
+//   PROXY_ALLOWED_ORIGIN    the app's origin, for CORS; any origin by default
+//   PROXY_LOG_FILE          also append the request log, one JSON object per line, to this file
+// Pass --mock to forward to a local mock of the Gemini API instead.
+
+try {
+    process.loadEnvFile('.env.local');
+} catch {
+    // No .env.local; use the environment as it is.
+}
+
+const isMock = process.argv.includes('--mock');
+const port = Number(process.env.PROXY_PORT) || 8787;
+const apiKey = isMock ? 'mock-key' : process.env.GEMINI_API_KEY;
+if (!apiKey) {
+    console.error('Set GEMINI_API_KEY to the key the proxy should use, or pass --mock to run against a mock upstream.');
+    process.exit(1);
+}
+
+const users = new Map<string, string>();
+for (const entry of (process.env.PROXY_USERS ?? '').split(',').filter(Boolean)) {
+    const [name, token] = entry.split(':').map(part => part.trim());
+    if (!name || !token) {
+        console.error(`PROXY_USERS entries look like "name:token"; got "${entry}".`);
+        process.exit(1);
+    }
+    users.set(token, name);
+}
+
+const log = (entry: ProxyLogEntry) => {
+    const line = JSON.stringify(entry);
+    console.log(line);
+    if (process.env.PROXY_LOG_FILE) appendFileSync(process.env.PROXY_LOG_FILE, `${line}\n`);
+};
+
+const upstream = isMock ? await startMockUpstream() : null;
+const server = createProxyServer({
+    apiKey,
+    upstream: isMock ? 'mock' : 'gemini',
+    upstreamUrl: upstream ? `http://127.0.0.1:${(upstream.address() as AddressInfo).port}` : undefined,
+    users,
+    rateLimit: Number(process.env.PROXY_RATE_LIMIT) || 10,
+    allowedOrigin: process.env.PROXY_ALLOWED_ORIGIN || '*',
+    models: [...GEMINI_MODELS.generate, ...GEMINI_MODELS.edit],
+    log,
+});
+
+server.listen(port, () => {
+    console.log(`Proxy listening on http://localhost:${port}/api, forwarding to ${isMock ? 'a mock upstream' : 'Gemini'}.`);
+    if (users.size === 0) console.log('PROXY_USERS is not set: no access token is required, and users are rate limited by address.');
+});
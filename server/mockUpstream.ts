@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createServer, IncomingMessage, Server } from 'node:http';
+import { deflateSync } from 'node:zlib';
+
+// A stand-in for the Gemini REST API, so the proxy can be run and tested without a key or
+// a network connection. It answers the two calls the app makes: Imagen's :predict with a
+// solid-colour PNG per requested image, the colour derived from the prompt, and
+// :generateContent by returning the first image it was sent, unchanged.
+
+const MOCK_DELAY_MS = 400;
+const LONG_EDGE = 512;
+// Prompts containing this are refused the way Imagen refuses unsafe prompts, to test that path.
+const BLOCKED_WORD = 'blocked';
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    return c >>> 0;
+});
+
+const crc32 = (bytes: Buffer) => {
+    let crc = 0xffffffff;
+    for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+const pngChunk = (type: string, data: Buffer) => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    const typeAndData = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+    const crc = Buffer.alloc(4);
+    crc.writeUInt32BE(crc32(typeAndData));
+    return Buffer.concat([length, typeAndData, crc]);
+};
+
+// Encodes an opaque RGB image of one colour.
+const solidPng = (width: number, height: number, [r, g, b]: number[]) => {
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(width, 0);
+    header.writeUInt32BE(height, 4);
+    header.set([8, 2, 0, 0, 0], 8);
+    const row = Buffer.alloc(1 + width * 3);
+    for (let x = 0; x < width; x++) row.set([r, g, b], 1 + x * 3);
+    return Buffer.concat([
+        Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+        pngChunk('IHDR', header),
+        pngChunk('IDAT', deflateSync(Buffer.concat(Array.from({ length: height }, () => row)))),
+        pngChunk('IEND', Buffer.alloc(0)),
+    ]);
+};
+
+const colorFor = (text: string) => {
+    let hash = 2166136261;
+    for (const char of text) hash = Math.imul(hash ^ char.charCodeAt(0), 16777619);
+    return [hash & 0xff, (hash >>> 8) & 0xff, (hash >>> 16) & 0xff];
+};
+
+const sizeFor = (aspectRatio = '1:1') => {
+    const [w, h] = aspectRatio.split(':').map(Number);
+    return w >= h
+        ? { width: LONG_EDGE, height: Math.round((LONG_EDGE * h) / w) }
+        : { width: Math.round((LONG_EDGE * w) / h), height: LONG_EDGE };
+};
+
+const readJson = async (req: IncomingMessage): Promise<any> => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    return JSON.parse(Buffer.concat(chunks).toString('utf-8') || '{}');
+};
+
+const predict = (body: any) => {
+    const prompt: string = body.instances?.[0]?.prompt ?? '';
+    if (prompt.toLowerCase().includes(BLOCKED_WORD)) {
+        return { predictions: [{ raiFilteredReason: 'The mock upstream blocks prompts containing "blocked".' }] };
+    }
+    const { width, height } = sizeFor(body.parameters?.aspectRatio);
+    const count = Math.max(1, Math.min(4, body.parameters?.sampleCount ?? 1));
+    return {
+        predictions: Array.from({ length: count }, (_, i) => ({
+            mimeType: 'image/png',
+            bytesBase64Encoded: solidPng(width, height, colorFor(`${prompt}#${i}`)).toString('base64'),
+        })),
+    };
+};
+
+const generateContent = (body: any) => {
+    const parts: any[] = (body.contents ?? []).flatMap((content: any) => content.parts ?? []);
+    const image = parts.find(part => part.inlineData)?.inlineData;
+    const promptTokenCount = parts.reduce((total, part) => total + (part.text ? Math.ceil(part.text.length / 4) : 258), 0);
+    if (!image) {
+        return {
+            candidates: [{ content: { role: 'model', parts: [{ text: 'The mock upstream needs an image to edit.' }] }, finishReason: 'STOP' }],
+            usageMetadata: { promptTokenCount, candidatesTokenCount: 12, totalTokenCount: promptTokenCount + 12 },
+        };
+    }
+    return {
+        candidates: [{ content: { role: 'model', parts: [{ inlineData: image }] }, finishReason: 'STOP' }],
+        usageMetadata: { promptTokenCount, candidatesTokenCount: 1290, totalTokenCount: promptTokenCount + 1290 },
+    };
+};
+
+/**
+ * Starts the mock upstream on a port; 0 picks a free one.
+ */
+export const startMockUpstream = (port = 0): Promise<Server> => new Promise((resolve, reject) => {
+    const server = createServer(async (req, res) => {
+        const match = req.method === 'POST' ? req.url?.match(/\/models\/([^/:]+):(predict|generateContent)/) : null;
+        if (!match) {
+            res.writeHead(404, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: { code: 404, message: `The mock upstream does not serve ${req.method} ${req.url}.`, status: 'NOT_FOUND' } }));
+            return;
+        }
+        try {
+            const body = await readJson(req);
+            await new Promise(wait => setTimeout(wait, MOCK_DELAY_MS));
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(match[2] === 'predict' ? predict(body) : generateContent(body)));
+        } catch (err: any) {
+            res.writeHead(400, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: { code: 400, message: err.message, status: 'INVALID_ARGUMENT' } }));
+        }
+    });
+    server.once('error', reject);
+    server.listen(port, '127.0.0.1', () => resolve(server));
+});
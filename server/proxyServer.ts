@@ -0,0 +1,223 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { ApiError, GoogleGenAI, type ContentListUnion } from '@google/genai';
+import { createRateLimiter } from './rateLimiter.ts';
+
+// Forwards the app's generate and edit requests to Gemini with a key only the server knows.
+// Clients send the same parameters the SDK takes, as services/geminiConnection.ts does, and
+// get the SDK's response back as JSON, so the app handles both routes the same way.
+
+// Edit requests carry up to four images as base64.
+const MAX_BODY_BYTES = 40 * 1024 * 1024;
+const RATE_LIMIT_WINDOW_MS = 60_000;
+
+export interface ProxyOptions {
+    apiKey: string;
+    /** What requests are forwarded to, reported by the health check. */
+    upstream: 'gemini' | 'mock';
+    /** Overrides the Gemini API address, e.g. to point at the mock upstream. */
+    upstreamUrl?: string;
+    /** User names by access token. When empty, no token is needed and users are told apart by address. */
+    users: Map<string, string>;
+    /** Generate and edit requests each user may make per minute. */
+    rateLimit: number;
+    /** Sent as Access-Control-Allow-Origin, so the app can call the proxy from another origin. */
+    allowedOrigin: string;
+    /** The models clients may use; requests for others are refused. */
+    models: string[];
+    log: (entry: ProxyLogEntry) => void;
+}
+
+/** One line of the request log. Prompts and images are never logged. */
+export interface ProxyLogEntry {
+    time: string;
+    user: string | null;
+    method: string;
+    path: string;
+    model: string | null;
+    status: number;
+    durationMs: number;
+    requestBytes: number;
+    error?: string;
+}
+
+/** A failure to report to the client, with the HTTP status to report it with. */
+class ProxyError extends Error {
+    status: number;
+    retryAfterSeconds: number | null;
+
+    constructor(status: number, message: string, retryAfterSeconds: number | null = null) {
+        super(message);
+        this.name = 'ProxyError';
+        this.status = status;
+        this.retryAfterSeconds = retryAfterSeconds;
+    }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// The client's request config. Options that would redirect the request or cannot cross the
+// wire are dropped: httpOptions could point the SDK, and the server's key, at another host.
+const readConfig = (config: unknown): Record<string, unknown> => {
+    if (config === undefined) return {};
+    if (!isRecord(config)) throw new ProxyError(400, 'The request config must be an object.');
+    const { httpOptions, abortSignal, ...clientConfig } = config;
+    return clientConfig;
+};
+
+const readPrompt = (prompt: unknown): string => {
+    if (typeof prompt !== 'string' || !prompt.trim()) throw new ProxyError(400, 'The request needs a prompt.');
+    return prompt;
+};
+
+const readContents = (contents: unknown): ContentListUnion => {
+    if (typeof contents !== 'string' && !Array.isArray(contents) && !isRecord(contents)) {
+        throw new ProxyError(400, 'The request needs contents to edit.');
+    }
+    return contents as ContentListUnion;
+};
+
+const readBody = async (req: IncomingMessage): Promise<Buffer> => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+        size += (chunk as Buffer).length;
+        if (size > MAX_BODY_BYTES) throw new ProxyError(413, `Requests may be at most ${MAX_BODY_BYTES / 1024 / 1024} MB.`);
+        chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks);
+};
+
+// Maps a failed upstream call onto what the client should see. Problems with the server's own
+// key are reported as a bad gateway, so clients do not mistake them for their access token.
+const toProxyError = (err: unknown): ProxyError => {
+    if (err instanceof ProxyError) return err;
+    if (err instanceof ApiError) {
+        if (err.status === 401 || err.status === 403 || /API key not valid|API_KEY_INVALID/i.test(err.message)) {
+            return new ProxyError(502, 'Gemini rejected the API key the proxy is configured with.');
+        }
+        if (err.status === 429) {
+            const retryDelay = err.message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+            return new ProxyError(429, err.message, retryDelay ? Math.ceil(Number(retryDelay[1])) : null);
+        }
+        return new ProxyError(err.status >= 500 ? 502 : err.status, err.message);
+    }
+    return new ProxyError(502, `Could not reach the upstream API. ${err instanceof Error ? err.message : ''}`.trim());
+};
+
+/**
+ * Creates the proxy server. Call `listen` on it to start serving.
+ */
+export const createProxyServer = (options: ProxyOptions): Server => {
+    const ai = new GoogleGenAI({ apiKey: options.apiKey, httpOptions: options.upstreamUrl ? { baseUrl: options.upstreamUrl } : undefined });
+    const limiter = createRateLimiter(options.rateLimit, RATE_LIMIT_WINDOW_MS);
+
+    const identify = (req: IncomingMessage): string => {
+        if (options.users.size === 0) return req.socket.remoteAddress ?? 'unknown';
+        const token = req.headers.authorization?.match(/^Bearer (.+)$/)?.[1];
+        const user = token ? options.users.get(token) : undefined;
+        if (!user) throw new ProxyError(401, token ? 'The access token is not recognized.' : 'This proxy requires an access token.');
+        return user;
+    };
+
+    const checkModel = (model: unknown) => {
+        if (typeof model !== 'string' || !options.models.includes(model)) {
+            throw new ProxyError(400, `This proxy does not forward requests for "${model}". Allowed models: ${options.models.join(', ')}.`);
+        }
+        return model;
+    };
+
+    const handle = async (req: IncomingMessage, res: ServerResponse, context: { user: string | null; model: string | null; requestBytes: number }) => {
+        const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+        if (req.method === 'GET' && path === '/api/health') {
+            context.user = identify(req);
+            return { upstream: options.upstream, models: options.models };
+        }
+        if (req.method !== 'POST' || (path !== '/api/generate' && path !== '/api/edit')) {
+            throw new ProxyError(404, `Unknown endpoint ${req.method} ${path}.`);
+        }
+
+        const user = context.user = identify(req);
+        const waitMs = limiter.take(user);
+        if (waitMs > 0) {
+            throw new ProxyError(429, `Rate limit reached: ${options.rateLimit} requests per minute.`, Math.ceil(waitMs / 1000));
+        }
+        const body = await readBody(req);
+        context.requestBytes = body.length;
+        let params: unknown;
+        try {
+            params = JSON.parse(body.toString('utf-8'));
+        } catch {
+            throw new ProxyError(400, 'The request body is not valid JSON.');
+        }
+        if (!isRecord(params)) throw new ProxyError(400, 'The request body must be a JSON object.');
+        const model = context.model = checkModel(params.model);
+        const clientConfig = readConfig(params.config);
+
+        // Stop the upstream call if the client goes away, e.g. when a job is cancelled.
+        const controller = new AbortController();
+        res.on('close', () => {
+            if (!res.writableEnded) controller.abort();
+        });
+        const config = { ...clientConfig, abortSignal: controller.signal };
+        try {
+            const response = path === '/api/generate'
+                ? await ai.models.generateImages({ model, prompt: readPrompt(params.prompt), config })
+                : await ai.models.generateContent({ model, contents: readContents(params.contents), config });
+            const { sdkHttpResponse, ...result } = response;
+            return result;
+        } catch (err) {
+            throw toProxyError(err);
+        }
+    };
+
+    return createServer(async (req, res) => {
+        const startedAt = Date.now();
+        const context = { user: null as string | null, model: null as string | null, requestBytes: 0 };
+        res.setHeader('Access-Control-Allow-Origin', options.allowedOrigin);
+        res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+        res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+        res.setHeader('Access-Control-Expose-Headers', 'Retry-After');
+        if (req.method === 'OPTIONS') {
+            res.writeHead(204).end();
+            return;
+        }
+
+        let status = 200;
+        let error: string | undefined;
+        try {
+            const result = await handle(req, res, context);
+            res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(result));
+        } catch (err: any) {
+            const failure = toProxyError(err);
+            status = failure.status;
+            error = failure.message;
+            if (res.destroyed) {
+                // The client went away, e.g. it cancelled the job; there is no one to answer.
+                status = 499;
+                error = 'The client closed the request.';
+            } else {
+                res.writeHead(status, {
+                    'Content-Type': 'application/json',
+                    ...(failure.retryAfterSeconds !== null ? { 'Retry-After': String(failure.retryAfterSeconds) } : {}),
+                }).end(JSON.stringify({ error: { status, message: failure.message } }));
+            }
+        }
+        options.log({
+            time: new Date(startedAt).toISOString(),
+            user: context.user,
+            method: req.method ?? '',
+            path: req.url ?? '',
+            model: context.model,
+            status,
+            durationMs: Date.now() - startedAt,
+            requestBytes: context.requestBytes,
+            ...(error ? { error } : {}),
+        });
+    });
+};
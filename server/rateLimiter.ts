@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface RateLimiter {
+    /**
+     * Counts a request by a user, if they are within their limit.
+     * @returns 0 when the request may go ahead, otherwise how many milliseconds until it may.
+     */
+    take: (user: string) => number;
+}
+
+/**
+ * Creates a sliding-window limiter allowing each user `limit` requests in any `windowMs`.
+ */
+export const createRateLimiter = (limit: number, windowMs: number): RateLimiter => {
+    // When each user's recent requests were made, oldest first.
+    const requests = new Map<string, number[]>();
+    let lastSweep = Date.now();
+
+    // Forgets users with no requests left in the window, at most once per window, so the map
+    // does not keep every address or token ever seen.
+    const sweep = (now: number) => {
+        if (now - lastSweep < windowMs) return;
+        lastSweep = now;
+        for (const [user, times] of requests) {
+            if (times[times.length - 1] <= now - windowMs) requests.delete(user);
+        }
+    };
+
+    return {
+        take: user => {
+            const now = Date.now();
+            sweep(now);
+            const recent = (requests.get(user) ?? []).filter(time => time > now - windowMs);
+            if (recent.length >= limit) {
+                requests.set(user, recent);
+                return recent[0] + windowMs - now;
+            }
+            recent.push(now);
+            requests.set(user, recent);
+            return 0;
+        },
+    };
+};
@@ -0,0 +1,245 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { loadImage } from './imageUtils';
+
+// Client-side tonal and colour adjustments, rendered with a single WebGL fragment shader.
+// The same renderer drives the live preview and the full-resolution bake. The preview is
+// downscaled, so sharpening works over a radius relative to the image size rather than a
+// fixed pixel, to look the same at both sizes.
+
+export type AdjustmentKey =
+    'exposure' | 'contrast' | 'saturation' | 'temperature' | 'tint' | 'highlights' | 'shadows' | 'sharpen' | 'vignette';
+
+export type Adjustments = Record<AdjustmentKey, number>;
+
+export interface AdjustmentControl {
+    key: AdjustmentKey;
+    label: string;
+    min: number;
+    max: number;
+    step: number;
+    /** Formats the value for display next to its slider. */
+    format: (value: number) => string;
+}
+
+const signed = (value: number) => (value > 0 ? `+${value}` : `${value}`);
+
+export const ADJUSTMENT_CONTROLS: AdjustmentControl[] = [
+    { key: 'exposure', label: 'Exposure', min: -2, max: 2, step: 0.05, format: value => `${signed(Number(value.toFixed(2)))} EV` },
+    { key: 'contrast', label: 'Contrast', min: -100, max: 100, step: 1, format: signed },
+    { key: 'highlights', label: 'Highlights', min: -100, max: 100, step: 1, format: signed },
+    { key: 'shadows', label: 'Shadows', min: -100, max: 100, step: 1, format: signed },
+    { key: 'saturation', label: 'Saturation', min: -100, max: 100, step: 1, format: signed },
+    { key: 'temperature', label: 'Temperature', min: -100, max: 100, step: 1, format: signed },
+    { key: 'tint', label: 'Tint', min: -100, max: 100, step: 1, format: signed },
+    { key: 'sharpen', label: 'Sharpen', min: 0, max: 100, step: 1, format: value => `${value}` },
+    { key: 'vignette', label: 'Vignette', min: 0, max: 100, step: 1, format: value => `${value}` },
+];
+
+// Sharpening compares each pixel with neighbours this many pixels away at this long edge, the
+// size of the preview, and proportionally further at larger sizes.
+const SHARPEN_REFERENCE_EDGE = 1200;
+
+export const DEFAULT_ADJUSTMENTS: Adjustments = {
+    exposure: 0,
+    contrast: 0,
+    saturation: 0,
+    temperature: 0,
+    tint: 0,
+    highlights: 0,
+    shadows: 0,
+    sharpen: 0,
+    vignette: 0,
+};
+
+/**
+ * Summarizes the non-default adjustments, e.g. "Exposure +0.5 EV · Contrast +20".
+ */
+export const describeAdjustments = (adjustments: Adjustments): string =>
+    ADJUSTMENT_CONTROLS
+        .filter(control => adjustments[control.key] !== DEFAULT_ADJUSTMENTS[control.key])
+        .map(control => `${control.label} ${control.format(adjustments[control.key])}`)
+        .join(' · ');
+
+const VERTEX_SHADER = `
+attribute vec2 a_position;
+varying vec2 v_uv;
+void main() {
+    v_uv = (a_position + 1.0) * 0.5;
+    gl_Position = vec4(a_position, 0.0, 1.0);
+}`;
+
+const FRAGMENT_SHADER = `
+precision highp float;
+uniform sampler2D u_image;
+uniform vec2 u_texel;
+uniform float u_exposure;
+uniform float u_contrast;
+uniform float u_saturation;
+uniform float u_temperature;
+uniform float u_tint;
+uniform float u_highlights;
+uniform float u_shadows;
+uniform float u_sharpen;
+uniform float u_vignette;
+varying vec2 v_uv;
+
+const vec3 LUMA = vec3(0.2126, 0.7152, 0.0722);
+
+void main() {
+    vec4 source = texture2D(u_image, v_uv);
+    vec3 color = source.rgb;
+
+    // Unsharp mask against the four direct neighbours.
+    if (u_sharpen > 0.0) {
+        vec3 blur = (
+            texture2D(u_image, v_uv + vec2(u_texel.x, 0.0)).rgb +
+            texture2D(u_image, v_uv - vec2(u_texel.x, 0.0)).rgb +
+            texture2D(u_image, v_uv + vec2(0.0, u_texel.y)).rgb +
+            texture2D(u_image, v_uv - vec2(0.0, u_texel.y)).rgb
+        ) * 0.25;
+        color += (color - blur) * u_sharpen * 2.0;
+    }
+
+    color *= exp2(u_exposure);
+
+    // White balance: temperature trades blue for red, tint trades green for magenta.
+    color *= vec3(1.0 + u_temperature * 0.15, 1.0 - u_tint * 0.15, 1.0 - u_temperature * 0.15);
+
+    float luma = dot(color, LUMA);
+    color += u_shadows * 0.3 * (1.0 - smoothstep(0.0, 0.5, luma));
+    color += u_highlights * 0.3 * smoothstep(0.5, 1.0, luma);
+
+    color = (color - 0.5) * (1.0 + u_contrast) + 0.5;
+    color = mix(vec3(dot(color, LUMA)), color, 1.0 + u_saturation);
+
+    float distanceFromCenter = length(v_uv - 0.5) * 1.41421356;
+    color *= mix(1.0, smoothstep(1.0, 0.3, distanceFromCenter), u_vignette);
+
+    gl_FragColor = vec4(clamp(color, 0.0, 1.0), source.a);
+}`;
+
+export interface AdjustmentRenderer {
+    render: (adjustments: Adjustments) => void;
+    dispose: () => void;
+}
+
+const compileShader = (gl: WebGLRenderingContext, type: number, source: string): WebGLShader => {
+    const shader = gl.createShader(type);
+    if (!shader) throw new Error('Could not create a WebGL shader.');
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+        const log = gl.getShaderInfoLog(shader);
+        gl.deleteShader(shader);
+        throw new Error(`Could not compile adjustment shader: ${log}`);
+    }
+    return shader;
+};
+
+/**
+ * Sets up a canvas to render an image with adjustments applied. The canvas is resized
+ * to the given dimensions; the image is scaled to fit.
+ */
+export const createAdjustmentRenderer = (
+    canvas: HTMLCanvasElement,
+    image: HTMLImageElement | HTMLCanvasElement,
+    width: number,
+    height: number,
+): AdjustmentRenderer => {
+    canvas.width = width;
+    canvas.height = height;
+    const gl = canvas.getContext('webgl', { preserveDrawingBuffer: true, premultipliedAlpha: false });
+    if (!gl) throw new Error('Adjustments need WebGL, which is not available in this browser.');
+
+    const program = gl.createProgram();
+    if (!program) throw new Error('Could not create a WebGL program.');
+    const vertexShader = compileShader(gl, gl.VERTEX_SHADER, VERTEX_SHADER);
+    const fragmentShader = compileShader(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER);
+    gl.attachShader(program, vertexShader);
+    gl.attachShader(program, fragmentShader);
+    gl.linkProgram(program);
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+        throw new Error(`Could not link adjustment shader: ${gl.getProgramInfoLog(program)}`);
+    }
+    gl.useProgram(program);
+
+    const buffer = gl.createBuffer();
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, -1, 1, 1, -1, 1, 1]), gl.STATIC_DRAW);
+    const position = gl.getAttribLocation(program, 'a_position');
+    gl.enableVertexAttribArray(position);
+    gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 0, 0);
+
+    const texture = gl.createTexture();
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, image);
+
+    const uniform = (name: string) => gl.getUniformLocation(program, name);
+    const sharpenRadius = Math.max(1, Math.max(width, height) / SHARPEN_REFERENCE_EDGE);
+    gl.uniform2f(uniform('u_texel'), sharpenRadius / width, sharpenRadius / height);
+    gl.viewport(0, 0, width, height);
+
+    return {
+        render: (adjustments) => {
+            gl.uniform1f(uniform('u_exposure'), adjustments.exposure);
+            gl.uniform1f(uniform('u_contrast'), adjustments.contrast / 100);
+            gl.uniform1f(uniform('u_saturation'), adjustments.saturation / 100);
+            gl.uniform1f(uniform('u_temperature'), adjustments.temperature / 100);
+            gl.uniform1f(uniform('u_tint'), adjustments.tint / 100);
+            gl.uniform1f(uniform('u_highlights'), adjustments.highlights / 100);
+            gl.uniform1f(uniform('u_shadows'), adjustments.shadows / 100);
+            gl.uniform1f(uniform('u_sharpen'), adjustments.sharpen / 100);
+            gl.uniform1f(uniform('u_vignette'), adjustments.vignette / 100);
+            gl.drawArrays(gl.TRIANGLES, 0, 6);
+        },
+        dispose: () => {
+            gl.deleteTexture(texture);
+            gl.deleteBuffer(buffer);
+            gl.deleteProgram(program);
+            gl.deleteShader(vertexShader);
+            gl.deleteShader(fragmentShader);
+        },
+    };
+};
+
+// Bakes share one WebGL canvas, since browsers only allow a few WebGL contexts at a time and
+// do not free them until the canvas is collected.
+let bakeCanvas: HTMLCanvasElement | null = null;
+
+/**
+ * Renders adjustments of an image or canvas at the given size.
+ * @returns A canvas holding the result. It is reused by the next call, so draw or encode it straight away.
+ */
+export const renderAdjustments = (
+    source: HTMLImageElement | HTMLCanvasElement,
+    adjustments: Adjustments,
+    width: number,
+    height: number,
+): HTMLCanvasElement => {
+    bakeCanvas ??= document.createElement('canvas');
+    const renderer = createAdjustmentRenderer(bakeCanvas, source, width, height);
+    try {
+        renderer.render(adjustments);
+        return bakeCanvas;
+    } finally {
+        renderer.dispose();
+    }
+};
+
+/**
+ * Bakes adjustments into an image at its full resolution.
+ * @returns A promise that resolves to the adjusted image as a PNG data URL.
+ */
+export const applyAdjustments = async (imageUrl: string, adjustments: Adjustments): Promise<string> => {
+    const image = await loadImage(imageUrl);
+    return renderAdjustments(image, adjustments, image.naturalWidth, image.naturalHeight).toDataURL('image/png');
+};
@@ -0,0 +1,168 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Each project keeps its data in a database of its own, so switching, copying or deleting a
+// project never touches another's records. The usage log and the project list are shared and
+// live in the main database, which also holds the first project: the data saved before projects
+// existed. Every database has the same schema, so project databases hold empty shared stores.
+
+const DB_NAME = 'blobs-project';
+
+export type StoreName = 'images' | 'filters' | 'products' | 'prompts' | 'usage' | 'projects';
+
+/** The stores every project has its own copy of. */
+export const PROJECT_STORES: StoreName[] = ['images', 'filters', 'products', 'prompts'];
+
+/** The project whose data lives in the main database. */
+export const DEFAULT_PROJECT_ID = 'default';
+
+// Each entry upgrades the schema by one version. Append new entries; never edit old ones,
+// since browsers that already ran them will skip straight to the next version.
+const migrations: ((db: IDBDatabase) => void)[] = [
+    // v1: image library
+    (db) => {
+        const images = db.createObjectStore('images', { keyPath: 'id' });
+        images.createIndex('createdAt', 'createdAt');
+    },
+    // v2: filter presets, seeded with the filters that used to be built in
+    (db) => {
+        const filters = db.createObjectStore('filters', { keyPath: 'id' });
+        const seeds = [
+            { name: 'Vintage', prompt: 'Apply a vintage, retro film filter. Give it a warm, faded look with slight grain.' },
+            { name: 'B&W', prompt: 'Convert this to a high-contrast, dramatic black and white.' },
+            { name: 'Vibrant', prompt: 'Enhance the colors to be more vibrant and saturated. Make it pop.' },
+            { name: 'Cinematic', prompt: 'Give this a cinematic look with teal and orange color grading.' },
+        ];
+        seeds.forEach((seed, order) => filters.put({ id: crypto.randomUUID(), ...seed, thumbnail: null, order }));
+    },
+    // v3: product catalog
+    (db) => {
+        const products = db.createObjectStore('products', { keyPath: 'id' });
+        products.createIndex('createdAt', 'createdAt');
+    },
+    // v4: prompt library
+    (db) => {
+        const prompts = db.createObjectStore('prompts', { keyPath: 'id' });
+        prompts.createIndex('lastUsedAt', 'lastUsedAt');
+    },
+    // v5: model call log for usage and cost tracking
+    (db) => {
+        const usage = db.createObjectStore('usage', { keyPath: 'id' });
+        usage.createIndex('createdAt', 'createdAt');
+    },
+    // v6: project list, starting with the project that holds everything saved so far
+    (db) => {
+        const projects = db.createObjectStore('projects', { keyPath: 'id' });
+        projects.createIndex('lastOpenedAt', 'lastOpenedAt');
+        if (db.name === DB_NAME) {
+            projects.put({ id: DEFAULT_PROJECT_ID, name: 'My project', createdAt: Date.now(), lastOpenedAt: 0 });
+        }
+    },
+];
+
+const connections = new Map<string, Promise<IDBDatabase>>();
+let activeProjectId = DEFAULT_PROJECT_ID;
+
+const databaseName = (projectId: string) => (projectId === DEFAULT_PROJECT_ID ? DB_NAME : `${DB_NAME}-${projectId}`);
+
+const openDatabase = (name: string): Promise<IDBDatabase> => {
+    let connection = connections.get(name);
+    if (!connection) {
+        connection = new Promise((resolve, reject) => {
+            const request = indexedDB.open(name, migrations.length);
+            request.onupgradeneeded = (event) => {
+                for (let version = event.oldVersion; version < migrations.length; version++) {
+                    migrations[version](request.result);
+                }
+            };
+            request.onsuccess = () => {
+                const db = request.result;
+                // Let other tabs upgrade or delete the database rather than block them.
+                db.onversionchange = () => {
+                    db.close();
+                    connections.delete(name);
+                };
+                resolve(db);
+            };
+            request.onerror = () => {
+                connections.delete(name);
+                reject(request.error);
+            };
+        });
+        connections.set(name, connection);
+    }
+    return connection;
+};
+
+const runInStore = async <T>(
+    databaseName: string,
+    storeName: StoreName,
+    mode: IDBTransactionMode,
+    callback: (store: IDBObjectStore) => IDBRequest<T> | void,
+): Promise<T> => {
+    const db = await openDatabase(databaseName);
+    return new Promise<T>((resolve, reject) => {
+        const transaction = db.transaction(storeName, mode);
+        const request = callback(transaction.objectStore(storeName));
+        transaction.oncomplete = () => resolve(request ? request.result : (undefined as T));
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+};
+
+/**
+ * Makes project stores accessed through `withStore` refer to a project's own data.
+ */
+export const setActiveProject = (projectId: string) => {
+    activeProjectId = projectId;
+};
+
+/**
+ * Runs a callback against an object store inside a single transaction. Project stores are
+ * those of the active project; see `setActiveProject`.
+ * @param storeName The object store to open.
+ * @param mode The transaction mode.
+ * @param callback Issues requests against the store. If it returns a request, its result is resolved.
+ * @returns A promise that resolves once the transaction has completed.
+ */
+export const withStore = <T = void>(
+    storeName: StoreName,
+    mode: IDBTransactionMode,
+    callback: (store: IDBObjectStore) => IDBRequest<T> | void,
+): Promise<T> =>
+    runInStore(PROJECT_STORES.includes(storeName) ? databaseName(activeProjectId) : DB_NAME, storeName, mode, callback);
+
+/**
+ * Like `withStore`, for one of the stores of any project, open or not.
+ */
+export const withProjectStore = <T = void>(
+    projectId: string,
+    storeName: StoreName,
+    mode: IDBTransactionMode,
+    callback: (store: IDBObjectStore) => IDBRequest<T> | void,
+): Promise<T> => runInStore(databaseName(projectId), storeName, mode, callback);
+
+/**
+ * Permanently removes everything saved in a project.
+ */
+export const deleteProjectData = async (projectId: string): Promise<void> => {
+    if (projectId === DEFAULT_PROJECT_ID) {
+        // The main database also holds the shared stores, so only empty this project's.
+        for (const storeName of PROJECT_STORES) {
+            await withProjectStore(projectId, storeName, 'readwrite', store => { store.clear(); });
+        }
+        return;
+    }
+    const name = databaseName(projectId);
+    const connection = connections.get(name);
+    connections.delete(name);
+    (await connection?.catch(() => null))?.close();
+    await new Promise<void>((resolve, reject) => {
+        const request = indexedDB.deleteDatabase(name);
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => reject(new Error('The project is open in another tab. Close it there and try again.'));
+    });
+};
@@ -0,0 +1,175 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// An in-memory log of raw requests to model APIs and what came back, for the debug inspector.
+// Payloads are copied with image data truncated, so the log stays small and can be shared;
+// the untruncated request is kept only for the most recent entries, so they can be replayed.
+
+const MAX_ENTRIES = 100;
+const MAX_REPLAYABLE = 10;
+// Base64 strings under these keys are image data and are cut down to a short preview.
+const INLINE_DATA_KEYS = ['data', 'imageBytes'];
+const INLINE_DATA_PREVIEW = 32;
+
+export type DebugStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface DebugEntry {
+    id: string;
+    provider: string;
+    /** The SDK method that was called, e.g. "models.generateContent". */
+    method: string;
+    model: string;
+    /** The last four characters of the API key, or proxy access token, the request was sent with. */
+    apiKey: string;
+    /** The request parameters, with image data truncated. */
+    request: unknown;
+    /** The raw response, with image data truncated; null until it arrives or if the call failed. */
+    response: unknown;
+    error: { name: string; message: string; status: number | null } | null;
+    status: DebugStatus;
+    finishReason: string | null;
+    blockReason: string | null;
+    startedAt: number;
+    durationMs: number | null;
+    /** The entry this one re-sent, for replays. */
+    replayOf: string | null;
+}
+
+/** Fields read out of a response so the inspector can show and filter on them. */
+export interface ResponseSummary {
+    finishReason: string | null;
+    blockReason: string | null;
+}
+
+type Listener = (entries: DebugEntry[]) => void;
+
+let entries: DebugEntry[] = [];
+const replays = new Map<string, () => Promise<void>>();
+const listeners = new Set<Listener>();
+
+const notify = () => listeners.forEach(listener => listener(entries));
+
+const update = (id: string, patch: Partial<DebugEntry>) => {
+    entries = entries.map(entry => (entry.id === id ? { ...entry, ...patch } : entry));
+    notify();
+};
+
+/**
+ * Copies a request or response for the log: image data is truncated, and functions and
+ * abort signals, which cannot be shown or serialized, are dropped.
+ */
+export const redactPayload = (value: unknown, key = ''): unknown => {
+    if (typeof value === 'string') {
+        return INLINE_DATA_KEYS.includes(key) && value.length > INLINE_DATA_PREVIEW * 2
+            ? `${value.slice(0, INLINE_DATA_PREVIEW)}… (${value.length.toLocaleString()} base64 characters)`
+            : value;
+    }
+    if (Array.isArray(value)) return value.map(item => redactPayload(item));
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value)
+            .filter(([, item]) => typeof item !== 'function' && !(item instanceof AbortSignal))
+            .map(([name, item]) => [name, redactPayload(item, name)]));
+    }
+    return value;
+};
+
+const redactApiKey = (apiKey: string | undefined) => (apiKey ? `…${apiKey.slice(-4)}` : '(none)');
+
+const addEntry = (entry: DebugEntry, replay: () => Promise<void>) => {
+    entries = [entry, ...entries].slice(0, MAX_ENTRIES);
+    replays.set(entry.id, replay);
+    // Forget the oldest replayable requests; they hold full-size images.
+    [...replays.keys()].slice(0, -MAX_REPLAYABLE).forEach(id => replays.delete(id));
+    notify();
+};
+
+/**
+ * Sends a request and logs it together with its response or error. Each call, including
+ * each retry, gets its own entry.
+ * @param details Describes the request. `request` should not contain the abort signal.
+ * @param call Sends the request. It is called again, without a signal, to replay it.
+ * @param options.summarize Reads the finish and block reasons out of a response.
+ */
+export const withDebugLog = async <T>(
+    details: { provider: string; method: string; model: string; apiKey: string | undefined; request: object },
+    call: (signal?: AbortSignal) => Promise<T>,
+    { signal, summarize, replayOf = null }: {
+        signal?: AbortSignal;
+        summarize?: (response: T) => ResponseSummary;
+        replayOf?: string | null;
+    } = {},
+): Promise<T> => {
+    const id = crypto.randomUUID();
+    const startedAt = Date.now();
+    const replay = async () => {
+        // Replays are for inspection; their outcome is shown in the log, not thrown.
+        await withDebugLog(details, call, { summarize, replayOf: id }).catch(() => {});
+    };
+    addEntry({
+        id,
+        provider: details.provider,
+        method: details.method,
+        model: details.model,
+        apiKey: redactApiKey(details.apiKey),
+        request: redactPayload(details.request),
+        response: null,
+        error: null,
+        status: 'pending',
+        finishReason: null,
+        blockReason: null,
+        startedAt,
+        durationMs: null,
+        replayOf,
+    }, replay);
+    try {
+        const response = await call(signal);
+        update(id, {
+            status: 'succeeded',
+            response: redactPayload(response),
+            durationMs: Date.now() - startedAt,
+            ...summarize?.(response),
+        });
+        return response;
+    } catch (err: any) {
+        update(id, {
+            status: 'failed',
+            error: { name: err?.name ?? 'Error', message: err?.message ?? String(err), status: typeof err?.status === 'number' ? err.status : null },
+            durationMs: Date.now() - startedAt,
+        });
+        throw err;
+    }
+};
+
+/**
+ * Whether an entry's request is still held in memory, so it can be sent again.
+ */
+export const canReplay = (id: string): boolean => replays.has(id);
+
+/**
+ * Sends a logged request again, exactly as it was. The outcome is logged as a new entry.
+ */
+export const replayRequest = async (id: string): Promise<void> => {
+    const replay = replays.get(id);
+    if (!replay) throw new Error('This request is no longer held in memory and cannot be replayed.');
+    await replay();
+};
+
+/**
+ * Removes every entry.
+ */
+export const clearDebugLog = () => {
+    entries = [];
+    replays.clear();
+    notify();
+};
+
+/**
+ * Calls the listener with the logged entries, newest first, now and after every change.
+ */
+export const subscribeDebugLog = (listener: Listener) => {
+    listeners.add(listener);
+    listener(entries);
+    return () => { listeners.delete(listener); };
+};
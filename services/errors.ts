@@ -0,0 +1,115 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Typed failures from image providers, so the UI can offer the right next step for each
+// instead of showing the raw message.
+
+export type ImageErrorKind = 'safety' | 'rate-limit' | 'network' | 'invalid-key' | 'no-image';
+
+export class ImageServiceError extends Error {
+    readonly kind: ImageErrorKind;
+
+    constructor(kind: ImageErrorKind, message: string, options?: { cause?: unknown }) {
+        super(message, options);
+        this.name = 'ImageServiceError';
+        this.kind = kind;
+    }
+
+    /** Whether the same request may succeed if it is simply sent again. */
+    get isTransient(): boolean {
+        return this.kind === 'rate-limit' || this.kind === 'network';
+    }
+}
+
+/** The prompt or the output was blocked by safety filters. */
+export class SafetyBlockError extends ImageServiceError {
+    readonly reason: string | null;
+
+    constructor(message: string, reason: string | null) {
+        super('safety', message);
+        this.name = 'SafetyBlockError';
+        this.reason = reason;
+    }
+}
+
+/** Too many requests, or the quota is used up. */
+export class RateLimitError extends ImageServiceError {
+    /** How long the service asked us to wait, if it said. */
+    readonly retryAfterMs: number | null;
+
+    constructor(message: string, retryAfterMs: number | null, options?: { cause?: unknown }) {
+        super('rate-limit', message, options);
+        this.name = 'RateLimitError';
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+/** The service could not be reached, or failed on its side. */
+export class NetworkError extends ImageServiceError {
+    constructor(message: string, options?: { cause?: unknown }) {
+        super('network', message, options);
+        this.name = 'NetworkError';
+    }
+}
+
+/** The API key is missing, malformed or not allowed to use the model. */
+export class InvalidApiKeyError extends ImageServiceError {
+    constructor(message: string, options?: { cause?: unknown }) {
+        super('invalid-key', message, options);
+        this.name = 'InvalidApiKeyError';
+    }
+}
+
+/** The request succeeded but the model returned no image. */
+export class NoImageError extends ImageServiceError {
+    /** What the model said instead, if it replied with text. */
+    readonly modelText: string | null;
+
+    constructor(message: string, modelText: string | null = null) {
+        super('no-image', message);
+        this.name = 'NoImageError';
+        this.modelText = modelText;
+    }
+}
+
+const MAX_RETRY_DELAY_MS = 30_000;
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+    }, { once: true });
+});
+
+/**
+ * Runs a request, retrying transient failures with exponential backoff and jitter.
+ * A rate limit that asks for a longer wait than we are willing to block for is thrown
+ * straight away, so the UI can offer a manual retry instead.
+ * @param request Sends the request. Called once per attempt.
+ * @param options.retries How many times to retry after the first attempt.
+ * @param options.baseDelayMs The delay before the first retry; each retry doubles it.
+ */
+export const withRetry = async <T>(
+    request: () => Promise<T>,
+    { retries = 3, baseDelayMs = 1000, signal }: { retries?: number; baseDelayMs?: number; signal?: AbortSignal } = {},
+): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await request();
+        } catch (err) {
+            if (!(err instanceof ImageServiceError) || !err.isTransient || attempt >= retries || signal?.aborted) throw err;
+            const backoff = baseDelayMs * 2 ** attempt * (0.5 + Math.random());
+            const delay = err instanceof RateLimitError && err.retryAfterMs !== null ? err.retryAfterMs : backoff;
+            if (delay > MAX_RETRY_DELAY_MS) throw err;
+            console.warn(`${err.name}: retrying in ${Math.round(delay)}ms (attempt ${attempt + 1} of ${retries}).`);
+            await sleep(delay, signal);
+        }
+    }
+};
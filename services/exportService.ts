@@ -0,0 +1,251 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ImageOperation, LibraryImage } from '../types';
+import { createCanvas, extensionForMimeType, loadImage } from './imageUtils';
+import { crc32 } from './zip';
+
+export type ExportFormat = 'image/png' | 'image/jpeg' | 'image/webp' | 'image/avif';
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; lossy: boolean; embedsMetadata: boolean }[] = [
+    { value: 'image/png', label: 'PNG', lossy: false, embedsMetadata: true },
+    { value: 'image/jpeg', label: 'JPEG', lossy: true, embedsMetadata: true },
+    { value: 'image/webp', label: 'WebP', lossy: true, embedsMetadata: true },
+    { value: 'image/avif', label: 'AVIF', lossy: true, embedsMetadata: false },
+];
+
+export const DEFAULT_FILENAME_TEMPLATE = '{prompt}-{date}-{index}';
+
+const SOFTWARE = 'Blobs';
+
+/** One step of the edit chain that produced an exported image. */
+export interface EditStep {
+    operation: ImageOperation;
+    prompt: string;
+    /** The model that performed the step, or null for edits made in the browser. */
+    model: string | null;
+    createdAt: string;
+}
+
+export interface ExportMetadata {
+    prompt: string;
+    model: string | null;
+    editChain: EditStep[];
+}
+
+// Operations that run entirely in the browser rather than through a model.
+const LOCAL_OPERATIONS: ImageOperation[] = ['transform', 'adjust'];
+
+// The model behind a step: the last recorded call, or for images saved before calls were
+// recorded, the provider's model for that kind of operation.
+const modelForStep = (image: LibraryImage, models: { generate: string; edit: string }): string | null => {
+    if (image.generation) return image.generation[image.generation.length - 1]?.model ?? null;
+    return LOCAL_OPERATIONS.includes(image.operation) ? null : image.operation === 'generate' ? models.generate : models.edit;
+};
+
+/**
+ * Describes how an image was made, from its first generation to the image itself.
+ * @param lineage The image's ancestors, oldest first, ending with the image.
+ * @param models The provider's models, used for images that did not record their own.
+ */
+export const buildExportMetadata = (lineage: LibraryImage[], models: { generate: string; edit: string }): ExportMetadata => {
+    const editChain = lineage.map(image => ({
+        operation: image.operation,
+        prompt: image.prompt,
+        model: modelForStep(image, models),
+        createdAt: new Date(image.createdAt).toISOString(),
+    }));
+    const last = editChain[editChain.length - 1];
+    return { prompt: last?.prompt ?? '', model: last?.model ?? null, editChain };
+};
+
+const slugify = (text: string, maxLength = 48) =>
+    text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, maxLength).replace(/-+$/, '');
+
+/**
+ * Expands a filename template. Supported tokens: `{prompt}`, `{date}`, `{time}`, `{index}`, `{operation}` and `{id}`.
+ * @param index The image's step number in its edit history.
+ */
+export const formatFilename = (
+    template: string,
+    details: { prompt: string; createdAt: number; index: number; operation: string; id: string },
+    format: ExportFormat,
+): string => {
+    const date = new Date(details.createdAt);
+    const pad = (value: number) => String(value).padStart(2, '0');
+    const tokens: Record<string, string> = {
+        prompt: slugify(details.prompt) || 'image',
+        date: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+        time: `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`,
+        index: String(details.index).padStart(3, '0'),
+        operation: details.operation,
+        id: details.id.slice(0, 8),
+    };
+    const base = template
+        .replace(/\{(\w+)\}/g, (match, token: string) => tokens[token] ?? match)
+        .replace(/[\\/:*?"<>|]+/g, '-')
+        .trim();
+    return `${base || 'image'}.${extensionForMimeType(format)}`;
+};
+
+const encodeCache = new Map<ExportFormat, Promise<boolean>>();
+
+/**
+ * Checks whether this browser's canvas can encode a format. Browsers silently fall back
+ * to PNG for formats they cannot write.
+ */
+export const canEncode = (format: ExportFormat): Promise<boolean> => {
+    if (!encodeCache.has(format)) {
+        const { canvas } = createCanvas(1, 1);
+        encodeCache.set(format, new Promise(resolve => canvas.toBlob(blob => resolve(blob?.type === format), format)));
+    }
+    return encodeCache.get(format)!;
+};
+
+/**
+ * Re-encodes an image at the given size and format.
+ * @param quality Between 0 and 1. Ignored for PNG.
+ */
+export const renderExport = async (imageUrl: string, format: ExportFormat, quality: number, width: number, height: number): Promise<Blob> => {
+    const image = await loadImage(imageUrl);
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.imageSmoothingQuality = 'high';
+    if (format === 'image/jpeg') {
+        // JPEG has no alpha channel; flatten onto white rather than black.
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, width, height);
+    }
+    ctx.drawImage(image, 0, 0, width, height);
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, format, quality));
+    if (!blob || blob.type !== format) {
+        throw new Error(`This browser cannot save ${format.replace('image/', '').toUpperCase()} images.`);
+    }
+    return blob;
+};
+
+const escapeXml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const buildXmp = (metadata: ExportMetadata): string => `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+ <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+  <rdf:Description rdf:about=""
+    xmlns:dc="http://purl.org/dc/elements/1.1/"
+    xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+    xmlns:blobs="urn:blobs-project:metadata:1.0"
+    xmp:CreatorTool="${SOFTWARE}"
+    blobs:Model="${escapeXml(metadata.model ?? 'local')}"
+    blobs:EditChain="${escapeXml(JSON.stringify(metadata.editChain))}">
+   <dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(metadata.prompt)}</rdf:li></rdf:Alt></dc:description>
+  </rdf:Description>
+ </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+    const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+};
+
+const latin1 = (text: string) => Uint8Array.from(text, char => char.charCodeAt(0) & 0xff);
+
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+    const chunk = new Uint8Array(12 + data.length);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    chunk.set(latin1(type), 4);
+    chunk.set(data, 8);
+    view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+    return chunk;
+};
+
+// iTXt: keyword, null, compression flag, compression method, language tag, null, translated keyword, null, UTF-8 text.
+const pngTextChunk = (keyword: string, text: string): Uint8Array =>
+    pngChunk('iTXt', concatBytes([latin1(keyword), new Uint8Array([0, 0, 0, 0, 0]), new TextEncoder().encode(text)]));
+
+const embedInPng = (bytes: Uint8Array, metadata: ExportMetadata): Uint8Array => {
+    // The signature is 8 bytes and IHDR is always the first chunk: 4 length + 4 type + 13 data + 4 CRC.
+    const afterHeader = 8 + 25;
+    return concatBytes([
+        bytes.subarray(0, afterHeader),
+        pngChunk('tEXt', concatBytes([latin1('Software'), new Uint8Array([0]), latin1(SOFTWARE)])),
+        pngTextChunk('Description', metadata.prompt),
+        pngTextChunk('XML:com.adobe.xmp', buildXmp(metadata)),
+        bytes.subarray(afterHeader),
+    ]);
+};
+
+const JPEG_XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const JPEG_MAX_SEGMENT = 0xffff - 2;
+
+const embedInJpeg = (bytes: Uint8Array, metadata: ExportMetadata): Uint8Array => {
+    let xmp = new TextEncoder().encode(buildXmp(metadata));
+    if (JPEG_XMP_HEADER.length + xmp.length > JPEG_MAX_SEGMENT) {
+        // A single APP1 segment cannot hold a very long chain; keep the prompt and model.
+        xmp = new TextEncoder().encode(buildXmp({ ...metadata, editChain: [] }));
+    }
+    const payload = concatBytes([latin1(JPEG_XMP_HEADER), xmp]);
+    const segment = new Uint8Array(4 + payload.length);
+    segment.set([0xff, 0xe1, (payload.length + 2) >> 8, (payload.length + 2) & 0xff]);
+    segment.set(payload, 4);
+    // Keep SOI and a leading JFIF APP0 segment first, as readers expect.
+    let insertAt = 2;
+    if (bytes[2] === 0xff && bytes[3] === 0xe0) insertAt = 4 + ((bytes[4] << 8) | bytes[5]);
+    return concatBytes([bytes.subarray(0, insertAt), segment, bytes.subarray(insertAt)]);
+};
+
+const riffChunk = (type: string, data: Uint8Array): Uint8Array => {
+    const padded = data.length % 2;
+    const chunk = new Uint8Array(8 + data.length + padded);
+    chunk.set(latin1(type), 0);
+    new DataView(chunk.buffer).setUint32(4, data.length, true);
+    chunk.set(data, 8);
+    return chunk;
+};
+
+const embedInWebp = (bytes: Uint8Array, metadata: ExportMetadata, width: number, height: number): Uint8Array => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const firstChunk = String.fromCharCode(...bytes.subarray(12, 16));
+    let body: Uint8Array;
+    if (firstChunk === 'VP8X') {
+        body = bytes.slice(12);
+        body[8] |= 0x04; // XMP flag
+    } else {
+        // Simple WebP files cannot carry metadata; wrap them in the extended format.
+        const header = new Uint8Array(10);
+        header[0] = 0x04 | (firstChunk === 'VP8L' ? 0x10 : 0); // XMP, and alpha for lossless
+        const headerView = new DataView(header.buffer);
+        headerView.setUint16(4, (width - 1) & 0xffff, true);
+        header[6] = (width - 1) >> 16;
+        headerView.setUint16(7, (height - 1) & 0xffff, true);
+        header[9] = (height - 1) >> 16;
+        body = concatBytes([riffChunk('VP8X', header), bytes.subarray(12, 8 + view.getUint32(4, true))]);
+    }
+    body = concatBytes([body, riffChunk('XMP ', new TextEncoder().encode(buildXmp(metadata)))]);
+    const riffHeader = new Uint8Array(12);
+    riffHeader.set(latin1('RIFF'), 0);
+    new DataView(riffHeader.buffer).setUint32(4, body.length + 4, true);
+    riffHeader.set(latin1('WEBP'), 8);
+    return concatBytes([riffHeader, body]);
+};
+
+/**
+ * Writes provenance metadata into an encoded image: iTXt chunks for PNG, and an XMP packet for JPEG and WebP.
+ * Other formats are returned unchanged.
+ */
+export const embedMetadata = async (blob: Blob, metadata: ExportMetadata, width: number, height: number): Promise<Blob> => {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    switch (blob.type) {
+        case 'image/png': return new Blob([embedInPng(bytes, metadata)], { type: blob.type });
+        case 'image/jpeg': return new Blob([embedInJpeg(bytes, metadata)], { type: blob.type });
+        case 'image/webp': return new Blob([embedInWebp(bytes, metadata, width, height)], { type: blob.type });
+        default: return blob;
+    }
+};
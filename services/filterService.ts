@@ -0,0 +1,112 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { FilterPreset } from '../types';
+import { withStore } from './db';
+import type { ImageProvider } from './imageProvider';
+import { resizeToFit } from './imageUtils';
+
+const EXPORT_FORMAT = 'blobs-filter-presets';
+const EXPORT_VERSION = 1;
+const THUMBNAIL_LONG_EDGE = 256;
+
+type ExportedFilter = { name: string; prompt: string; thumbnail?: unknown };
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isExportedFilter = (value: unknown): value is ExportedFilter =>
+    isRecord(value) && typeof value.name === 'string' && typeof value.prompt === 'string' && value.prompt.trim() !== '';
+
+/**
+ * Lists the saved filter presets in display order.
+ */
+export const listFilters = async (): Promise<FilterPreset[]> => {
+    const presets = await withStore<FilterPreset[]>('filters', 'readonly', store => store.getAll());
+    return presets.sort((a, b) => a.order - b.order);
+};
+
+/**
+ * Creates or updates filter presets.
+ */
+export const saveFilters = async (presets: FilterPreset[]): Promise<void> => {
+    await withStore('filters', 'readwrite', store => {
+        presets.forEach(preset => store.put(preset));
+    });
+};
+
+/**
+ * Stores a new display order for the presets.
+ * @param presets Every preset, in the order they should appear.
+ * @returns A promise that resolves to the renumbered presets.
+ */
+export const reorderFilters = async (presets: FilterPreset[]): Promise<FilterPreset[]> => {
+    const reordered = presets.map((preset, order) => ({ ...preset, order }));
+    await saveFilters(reordered);
+    return reordered;
+};
+
+/**
+ * Permanently removes a filter preset.
+ */
+export const deleteFilter = async (id: string): Promise<void> => {
+    await withStore('filters', 'readwrite', store => { store.delete(id); });
+};
+
+/**
+ * Serializes presets into a JSON file that can be shared and imported elsewhere.
+ */
+export const exportFilters = (presets: FilterPreset[]): Blob => {
+    const payload = {
+        format: EXPORT_FORMAT,
+        version: EXPORT_VERSION,
+        filters: presets.map(({ name, prompt, thumbnail }) => ({ name, prompt, thumbnail })),
+    };
+    return new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' });
+};
+
+/**
+ * Reads presets from a file written by `exportFilters` and appends them after the existing ones.
+ * Imported presets always get new ids, so importing the same file twice creates duplicates rather
+ * than overwriting local edits.
+ * @returns A promise that resolves to the newly saved presets.
+ */
+export const importFilters = async (file: File, existingCount: number): Promise<FilterPreset[]> => {
+    let payload: unknown;
+    try {
+        payload = JSON.parse(await file.text());
+    } catch {
+        throw new Error(`${file.name} is not a valid JSON file.`);
+    }
+    if (!isRecord(payload) || payload.format !== EXPORT_FORMAT || !Array.isArray(payload.filters)) {
+        throw new Error(`${file.name} is not a filter preset export.`);
+    }
+    if (typeof payload.version === 'number' && payload.version > EXPORT_VERSION) {
+        throw new Error(`${file.name} was exported by a newer version of the app.`);
+    }
+    const presets: FilterPreset[] = payload.filters
+        .filter(isExportedFilter)
+        .map((entry, index) => ({
+            id: crypto.randomUUID(),
+            name: entry.name.trim() || 'Untitled',
+            prompt: entry.prompt.trim(),
+            thumbnail: typeof entry.thumbnail === 'string' && entry.thumbnail.startsWith('data:image/') ? entry.thumbnail : null,
+            order: existingCount + index,
+        }));
+    if (presets.length === 0) {
+        throw new Error(`${file.name} does not contain any filters.`);
+    }
+    await saveFilters(presets);
+    return presets;
+};
+
+/**
+ * Renders a preview of a filter by applying its prompt to a downscaled sample image.
+ * @returns A promise that resolves to a small JPEG data URL.
+ */
+export const generateFilterThumbnail = async (provider: ImageProvider, sampleImageUrl: string, prompt: string): Promise<string> => {
+    const sample = await resizeToFit(sampleImageUrl, THUMBNAIL_LONG_EDGE * 2);
+    const result = await provider.editImage({ image: sample, prompt });
+    return resizeToFit(result, THUMBNAIL_LONG_EDGE);
+};
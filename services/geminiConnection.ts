@@ -0,0 +1,100 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import {
+    ApiError, GenerateContentParameters, GenerateContentResponse, GenerateImagesParameters, GenerateImagesResponse, GoogleGenAI,
+} from '@google/genai';
+import { InvalidApiKeyError, RateLimitError } from './errors';
+import { getApiKey, getApiKeyStatus, getSettings } from './settingsService';
+
+// Requests reach Gemini either straight from the browser, with the key from settings, or
+// through the proxy server in server/, which holds the key so the browser never sees it.
+// Both routes take and return the SDK's own types, so callers handle responses the same way.
+
+export interface GeminiConnection {
+    /** Names the route in the request log. */
+    label: string;
+    /** What requests are authorized with: the API key, or the proxy access token. */
+    credential: string;
+    generateImages: (params: GenerateImagesParameters) => Promise<GenerateImagesResponse>;
+    generateContent: (params: GenerateContentParameters) => Promise<GenerateContentResponse>;
+}
+
+/** What the proxy reports about itself. */
+export interface ProxyHealth {
+    upstream: 'gemini' | 'mock';
+    models: string[];
+}
+
+// The key entered in settings. Without one there is nothing to send, so fail before the request.
+const requireApiKey = (): string => {
+    const apiKey = getApiKey();
+    if (apiKey) return apiKey;
+    throw new InvalidApiKeyError(getApiKeyStatus() === 'locked'
+        ? 'The Gemini API key is locked. Unlock it in Settings with your passphrase.'
+        : 'No Gemini API key is set. Add one in Settings, or switch to the proxy.');
+};
+
+// Calls the proxy and maps its failures onto the errors a direct request would produce.
+const callProxy = async <T>(proxyUrl: string, token: string, path: string, init: RequestInit = {}): Promise<T> => {
+    const response = await fetch(`${proxyUrl.replace(/\/+$/, '')}/${path}`, {
+        ...init,
+        headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+    });
+    const body: unknown = await response.json().catch(() => null);
+    // The proxy answers with the SDK's response as JSON, so trust its shape once it succeeds.
+    if (response.ok) return body as T;
+    const error = typeof body === 'object' && body !== null && 'error' in body ? body.error : null;
+    const message = typeof error === 'object' && error !== null && 'message' in error && typeof error.message === 'string'
+        ? error.message
+        : `The proxy answered with HTTP ${response.status}.`;
+    if (response.status === 401) {
+        throw new InvalidApiKeyError(`The proxy did not accept your access token. Check it in Settings. ${message}`);
+    }
+    if (response.status === 429) {
+        const retryAfter = Number(response.headers.get('Retry-After'));
+        throw new RateLimitError(message, retryAfter > 0 ? retryAfter * 1000 : null);
+    }
+    throw new ApiError({ message, status: response.status });
+};
+
+// Sends SDK parameters to a proxy endpoint. The abort signal cannot be serialized, so it
+// cancels the fetch instead.
+const postToProxy = <T>(proxyUrl: string, token: string, path: string, params: { config?: { abortSignal?: AbortSignal } }) => {
+    const { abortSignal, ...config } = params.config ?? {};
+    return callProxy<T>(proxyUrl, token, path, { method: 'POST', body: JSON.stringify({ ...params, config }), signal: abortSignal });
+};
+
+/**
+ * Asks a proxy whether it is up and accepts the token, and what it forwards to.
+ */
+export const checkProxy = (proxyUrl: string, token: string, signal?: AbortSignal): Promise<ProxyHealth> =>
+    callProxy<ProxyHealth>(proxyUrl, token, 'health', { signal });
+
+/**
+ * Opens the connection chosen in settings. Settings are read each time, so a change applies
+ * to the next request.
+ * @throws InvalidApiKeyError when connecting directly without a usable key.
+ */
+export const openGeminiConnection = (): GeminiConnection => {
+    const { connection } = getSettings();
+    if (connection.mode === 'proxy') {
+        const { proxyUrl, proxyToken } = connection;
+        return {
+            label: 'gemini via proxy',
+            credential: proxyToken,
+            generateImages: async params => Object.assign(new GenerateImagesResponse(), await postToProxy<GenerateImagesResponse>(proxyUrl, proxyToken, 'generate', params)),
+            generateContent: async params => Object.assign(new GenerateContentResponse(), await postToProxy<GenerateContentResponse>(proxyUrl, proxyToken, 'edit', params)),
+        };
+    }
+    const apiKey = requireApiKey();
+    const ai = new GoogleGenAI({ apiKey });
+    return {
+        label: 'gemini',
+        credential: apiKey,
+        generateImages: params => ai.models.generateImages(params),
+        generateContent: params => ai.models.generateContent(params),
+    };
+};
@@ -0,0 +1,13 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// The Gemini models the app offers, shared by the browser and the proxy server, which only
+// forwards requests for these. It must not import anything that needs a browser.
+
+/** The models offered for each kind of request, the default first. */
+export const GEMINI_MODELS = {
+    generate: ['imagen-4.0-generate-001', 'imagen-4.0-fast-generate-001', 'imagen-4.0-ultra-generate-001', 'imagen-3.0-generate-002'],
+    edit: ['gemini-2.5-flash-image-preview', 'gemini-2.5-flash-image'],
+};
@@ -3,7 +3,25 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import { GoogleGenAI, GenerateContentResponse, Modality } from "@google/genai";
+import { ApiError, GoogleGenAI, GenerateContentResponse, Modality } from "@google/genai";
+import type { AspectRatio, GenerationMetadata, ReferenceRole } from "../types";
+import type { ImageProvider, ImageReference } from "./imageProvider";
+import { ImageServiceError, InvalidApiKeyError, NetworkError, NoImageError, RateLimitError, SafetyBlockError, withRetry } from "./errors";
+import { recordUsage } from "./usageService";
+import { withDebugLog } from "./debugLog";
+import { getSettings } from "./settingsService";
+import { openGeminiConnection } from "./geminiConnection";
+import { GEMINI_MODELS } from "./geminiModels";
+
+const [TEXT_TO_IMAGE_MODEL] = GEMINI_MODELS.generate;
+const [IMAGE_EDIT_MODEL] = GEMINI_MODELS.edit;
+
+// The models picked in settings, falling back to the defaults.
+const textToImageModel = () => getSettings().generateModel ?? TEXT_TO_IMAGE_MODEL;
+const imageEditModel = () => getSettings().editModel ?? IMAGE_EDIT_MODEL;
+
+// Finish reasons that mean the output was withheld by a content filter.
+const SAFETY_FINISH_REASONS: string[] = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION'];
 
 // Helper function to convert a File object to a Gemini API Part
 const fileToPart = async (file: File): Promise<{ inlineData: { mimeType: string; data: string; } }> => {
@@ -36,79 +54,195 @@ const dataUrlToPart = (dataUrl: string): { inlineData: { mimeType: string; data:
     return { inlineData: { mimeType, data } };
 };
 
+// How each reference role is explained to the model.
+const ROLE_DESCRIPTIONS: Record<ReferenceRole, string> = {
+    subject: 'a subject to include in the result',
+    style: 'a style reference; match its look, colour palette and rendering, not its content',
+    background: 'the background or scene for the result',
+    other: 'an additional reference',
+};
+
+// Maps failures from the SDK onto the error types the UI knows how to handle.
+const toServiceError = (err: unknown): unknown => {
+    if (err instanceof ImageServiceError || (err instanceof DOMException && err.name === 'AbortError')) return err;
+    if (err instanceof ApiError) {
+        if (err.status === 429) {
+            // Quota errors carry a RetryInfo detail such as "retryDelay": "23s".
+            const retryDelay = err.message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+            return new RateLimitError(
+                'The image service is receiving too many requests, or your quota is used up.',
+                retryDelay ? Number(retryDelay[1]) * 1000 : null,
+                { cause: err },
+            );
+        }
+        if (err.status === 401 || err.status === 403 || /API key not valid|API_KEY_INVALID/i.test(err.message)) {
+            return new InvalidApiKeyError('The Gemini API key was rejected. Check that it is valid and allowed to use this model.', { cause: err });
+        }
+        if (err.status >= 500) {
+            return new NetworkError(`The image service had a problem (HTTP ${err.status}). Please try again.`, { cause: err });
+        }
+        return err;
+    }
+    if (err instanceof TypeError) {
+        // fetch() rejects with a TypeError when the request never reaches the server.
+        return new NetworkError('Could not reach the image service. Check your connection.', { cause: err });
+    }
+    return err;
+};
+
+// Sends a request, retrying rate limits and network failures.
+const send = <T>(request: () => Promise<T>, signal?: AbortSignal): Promise<T> =>
+    withRetry(async () => {
+        try {
+            return await request();
+        } catch (err) {
+            throw toServiceError(err);
+        }
+    }, { signal });
 
 /**
  * Generates an image from a text prompt.
  * @param prompt The text prompt describing the image.
  * @param aspectRatio The desired aspect ratio for the image.
- * @returns A promise that resolves to an array of base64 data URLs of the generated images.
+ * @param numberOfImages How many variants to generate, from 1 to 4.
+ * @param signal Optional signal that aborts the request.
+ * @returns A promise that resolves to base64 data URLs of the generated images, and what the call reported.
  */
 export const generateImageFromText = async (
     prompt: string,
-    aspectRatio: '1:1' | '16:9' | '9:16' | '4:3' | '3:4',
-): Promise<string[]> => {
+    aspectRatio: AspectRatio,
+    numberOfImages: number = 1,
+    signal?: AbortSignal,
+): Promise<{ images: string[]; metadata: GenerationMetadata }> => {
     console.log(`Starting text-to-image generation with prompt: "${prompt}"`);
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
+    const connection = openGeminiConnection();
+    const model = textToImageModel();
     
-    const response = await ai.models.generateImages({
-        model: 'imagen-4.0-generate-001',
+    const request = {
+        model,
         prompt: prompt,
         config: {
-          numberOfImages: 1,
+          numberOfImages,
           outputMimeType: 'image/png',
           aspectRatio: aspectRatio,
         },
-    });
-    console.log('Received response from model.', response);
+    };
+    const startedAt = performance.now();
+    const response = await send(() => withDebugLog(
+        { provider: connection.label, method: 'models.generateImages', model, apiKey: connection.credential, request },
+        abortSignal => connection.generateImages({ ...request, config: { ...request.config, abortSignal } }),
+        {
+            signal,
+            summarize: result => ({
+                finishReason: null,
+                blockReason: result.generatedImages?.find(img => img.raiFilteredReason)?.raiFilteredReason ?? null,
+            }),
+        },
+    ), signal);
 
-    if (!response.generatedImages || response.generatedImages.length === 0) {
-        throw new Error("The AI model did not return any images. This may be due to safety filters or a problem with the prompt.");
+    const latencyMs = Math.round(performance.now() - startedAt);
+
+    const images = (response.generatedImages ?? []).filter(img => img.image?.imageBytes);
+    // Imagen drops filtered images from the response and reports why on the placeholders.
+    const filteredReason = response.generatedImages?.find(img => img.raiFilteredReason)?.raiFilteredReason ?? null;
+    if (images.length === 0) {
+        if (filteredReason) {
+            throw new SafetyBlockError(`The prompt was blocked by safety filters. ${filteredReason}`, filteredReason);
+        }
+        throw new NoImageError("The AI model did not return any images. Try rephrasing the prompt.");
     }
 
-    return response.generatedImages.map(img => {
-        const base64ImageBytes = img.image.imageBytes;
-        return `data:image/png;base64,${base64ImageBytes}`;
-    });
+    return {
+        images: images.map(img => {
+            const base64ImageBytes = img.image!.imageBytes;
+            return `data:image/png;base64,${base64ImageBytes}`;
+        }),
+        // Imagen bills per image and does not report token counts.
+        metadata: {
+            provider: 'gemini',
+            model,
+            kind: 'generate',
+            prompt,
+            config: { aspectRatio, numberOfImages },
+            latencyMs,
+            usage: { inputTokens: null, outputTokens: null, images: images.length },
+            finishReason: filteredReason,
+            createdAt: Date.now(),
+        },
+    };
 };
 
 /**
  * Generates an image by editing an existing one based on a text prompt.
  * @param originalImage The original image file or data URL.
  * @param userPrompt The text prompt describing the desired edit.
- * @returns A promise that resolves to the data URL of the edited image.
+ * @param options.mask Optional black-and-white mask data URL; white marks the area to edit.
+ * @param options.imageRole What the original image is for, when combined with references.
+ * @param options.references Further images to send after the original, in order.
+ * @param options.signal Optional signal that aborts the request.
+ * @returns A promise that resolves to the data URL of the edited image, and what the call reported.
  */
 export const generateImageFromImageAndText = async (
     originalImage: File | string,
     userPrompt: string,
-): Promise<string> => {
+    { mask, imageRole, references = [], signal }: {
+        mask?: string;
+        imageRole?: ReferenceRole;
+        references?: ImageReference[];
+        signal?: AbortSignal;
+    } = {},
+): Promise<{ image: string; metadata: GenerationMetadata }> => {
     console.log(`Starting image-and-text generation with prompt: "${userPrompt}"`);
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
+    const connection = openGeminiConnection();
+    const model = imageEditModel();
     
-    let originalImagePart;
-    if (typeof originalImage === 'string') {
-        originalImagePart = dataUrlToPart(originalImage);
-    } else {
-        originalImagePart = await fileToPart(originalImage);
+    const toPart = (image: File | string) => (typeof image === 'string' ? Promise.resolve(dataUrlToPart(image)) : fileToPart(image));
+    const parts: ({ inlineData: { mimeType: string; data: string; } } | { text: string })[] = [
+        await toPart(originalImage),
+        ...await Promise.all(references.map(reference => toPart(reference.image))),
+    ];
+
+    let instructions = userPrompt;
+    if (references.length > 0) {
+        // Number the images so prompts like "put the product from image 2 into image 1" resolve.
+        const roles = [imageRole ?? 'background', ...references.map(reference => reference.role)];
+        instructions += `\n\nThe images are numbered in the order given:\n${roles.map((role, i) => `Image ${i + 1}: ${ROLE_DESCRIPTIONS[role]}.`).join('\n')}`;
     }
-    
-    const textPart = { text: userPrompt };
+    if (mask) {
+        parts.push(dataUrlToPart(mask));
+        instructions += `\n\nThe last image is a mask the same size as the first. Apply the edit only inside the white area of the mask and keep everything in the black area exactly as it is.`;
+    }
+    parts.push({ text: instructions });
 
     console.log('Sending image and prompt to the model...');
-    const response: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
-        contents: { parts: [originalImagePart, textPart] },
+    const request = {
+        model,
+        contents: { parts },
         config: {
             responseModalities: [Modality.IMAGE, Modality.TEXT],
         },
-    });
-    console.log('Received response from model.', response);
+    };
+    const startedAt = performance.now();
+    const response: GenerateContentResponse = await send(() => withDebugLog(
+        { provider: connection.label, method: 'models.generateContent', model, apiKey: connection.credential, request },
+        abortSignal => connection.generateContent({ ...request, config: { ...request.config, abortSignal } }),
+        {
+            signal,
+            summarize: result => ({
+                finishReason: result.candidates?.[0]?.finishReason ?? null,
+                blockReason: result.promptFeedback?.blockReason ?? null,
+            }),
+        },
+    ), signal);
+
+    const latencyMs = Math.round(performance.now() - startedAt);
 
     // 1. Check for prompt blocking first
     if (response.promptFeedback?.blockReason) {
         const { blockReason, blockReasonMessage } = response.promptFeedback;
         const errorMessage = `Request was blocked. Reason: ${blockReason}. ${blockReasonMessage || ''}`;
         console.error(errorMessage, { response });
-        throw new Error(errorMessage);
+        throw new SafetyBlockError(errorMessage, blockReason);
     }
 
     // 2. Try to find the image part
@@ -117,15 +251,33 @@ export const generateImageFromImageAndText = async (
     if (imagePartFromResponse?.inlineData) {
         const { mimeType, data } = imagePartFromResponse.inlineData;
         console.log(`Received image data (${mimeType})`);
-        return `data:${mimeType};base64,${data}`;
+        return {
+            image: `data:${mimeType};base64,${data}`,
+            metadata: {
+                provider: 'gemini',
+                model,
+                kind: 'edit',
+                prompt: userPrompt,
+                config: { imageRole: imageRole ?? null, references: references.length, mask: !!mask },
+                latencyMs,
+                usage: {
+                    inputTokens: response.usageMetadata?.promptTokenCount ?? null,
+                    outputTokens: response.usageMetadata?.candidatesTokenCount ?? null,
+                    images: 1,
+                },
+                finishReason: response.candidates?.[0]?.finishReason ?? null,
+                createdAt: Date.now(),
+            },
+        };
     }
 
     // 3. If no image, check for other reasons
     const finishReason = response.candidates?.[0]?.finishReason;
     if (finishReason && finishReason !== 'STOP') {
-        const errorMessage = `Image generation stopped unexpectedly. Reason: ${finishReason}. This often relates to safety settings.`;
+        const errorMessage = `Image generation stopped unexpectedly. Reason: ${finishReason}.`;
         console.error(errorMessage, { response });
-        throw new Error(errorMessage);
+        if (SAFETY_FINISH_REASONS.includes(finishReason)) throw new SafetyBlockError(errorMessage, finishReason);
+        throw new NoImageError(errorMessage);
     }
     
     const textFeedback = response.text?.trim();
@@ -135,5 +287,49 @@ export const generateImageFromImageAndText = async (
             : "This can happen due to safety filters or if the request is too complex. Please try rephrasing your prompt to be more direct.");
 
     console.error(`Model response did not contain an image part.`, { response });
-    throw new Error(errorMessage);
+    throw new NoImageError(errorMessage, textFeedback || null);
+};
+
+/**
+ * Checks that an API key is accepted and can use the given models, by looking each model up.
+ * Lookups are free, so this is safe to run before saving a key.
+ * @throws The same errors as a failed generation, e.g. `InvalidApiKeyError` for a rejected key.
+ */
+export const validateApiKey = async (apiKey: string, models: string[], signal?: AbortSignal): Promise<void> => {
+    const ai = new GoogleGenAI({ apiKey });
+    try {
+        await Promise.all(models.map(model => ai.models.get({ model, config: { abortSignal: signal } })));
+    } catch (err) {
+        if (err instanceof ApiError && err.status === 404) {
+            throw new Error(`The key works, but one of the chosen models is not available to it. ${err.message}`);
+        }
+        throw toServiceError(err);
+    }
+};
+
+export const geminiProvider: ImageProvider = {
+    id: 'gemini',
+    name: 'Google Gemini',
+    capabilities: {
+        aspectRatios: ['1:1', '16:9', '9:16', '4:3', '3:4'],
+        maxImages: 4,
+        maxReferenceImages: 3,
+        requiresNetwork: true,
+    },
+    // Read when used, so a model changed in settings is what gets recorded.
+    models: {
+        get generate() { return textToImageModel(); },
+        get edit() { return imageEditModel(); },
+    },
+    // Imagen only honours a seed when watermarking is disabled, which the Gemini API does not allow.
+    generateImages: async ({ prompt, aspectRatio, numberOfImages, signal }) => {
+        const { images, metadata } = await generateImageFromText(prompt, aspectRatio, numberOfImages, signal);
+        await recordUsage(metadata, signal);
+        return images;
+    },
+    editImage: async ({ image, prompt, mask, imageRole, references, signal }) => {
+        const { image: edited, metadata } = await generateImageFromImageAndText(image, prompt, { mask, imageRole, references, signal });
+        await recordUsage(metadata, signal);
+        return edited;
+    },
 };
@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { LibraryImage } from '../types';
+
+// Every library image records the image it was derived from in `parentId`, so the
+// library as a whole forms a forest of edit graphs: each generated image is a root,
+// and every edit adds a child. Editing an earlier step simply adds another child,
+// which is how branches are created without discarding later steps.
+
+export interface HistoryGraph {
+    nodes: Map<string, LibraryImage>;
+    /** Children of each node, oldest first. */
+    children: Map<string, LibraryImage[]>;
+}
+
+/** Remembers which child was last visited from a node, so redo follows the same branch. */
+export type PreferredChildren = Record<string, string>;
+
+export const buildHistoryGraph = (images: LibraryImage[]): HistoryGraph => {
+    const nodes = new Map(images.map(image => [image.id, image]));
+    const children = new Map<string, LibraryImage[]>();
+    for (const image of images) {
+        if (!image.parentId || !nodes.has(image.parentId)) continue;
+        const siblings = children.get(image.parentId) ?? [];
+        siblings.push(image);
+        children.set(image.parentId, siblings);
+    }
+    children.forEach(siblings => siblings.sort((a, b) => a.createdAt - b.createdAt));
+    return { nodes, children };
+};
+
+/**
+ * Returns the chain of edits that led to an image, starting at its root.
+ * A parent that has been deleted from the library ends the chain.
+ */
+export const getLineage = (graph: HistoryGraph, id: string): LibraryImage[] => {
+    const lineage: LibraryImage[] = [];
+    const seen = new Set<string>();
+    let current = graph.nodes.get(id);
+    while (current && !seen.has(current.id)) {
+        seen.add(current.id);
+        lineage.unshift(current);
+        current = current.parentId ? graph.nodes.get(current.parentId) : undefined;
+    }
+    return lineage;
+};
+
+export const getUndoTarget = (graph: HistoryGraph, id: string): LibraryImage | null => {
+    const parentId = graph.nodes.get(id)?.parentId;
+    return (parentId && graph.nodes.get(parentId)) || null;
+};
+
+/**
+ * Picks the child redo should move to: the one last visited, or else the newest.
+ */
+export const getRedoTarget = (graph: HistoryGraph, id: string, preferred: PreferredChildren): LibraryImage | null => {
+    const children = graph.children.get(id);
+    if (!children || children.length === 0) return null;
+    return children.find(child => child.id === preferred[id]) ?? children[children.length - 1];
+};
+
+/**
+ * Returns the timeline shown for an image: its lineage, followed by the steps redo
+ * would walk through from there.
+ */
+export const getTimeline = (graph: HistoryGraph, id: string, preferred: PreferredChildren): LibraryImage[] => {
+    const timeline = getLineage(graph, id);
+    const seen = new Set(timeline.map(image => image.id));
+    let next = getRedoTarget(graph, id, preferred);
+    while (next && !seen.has(next.id)) {
+        seen.add(next.id);
+        timeline.push(next);
+        next = getRedoTarget(graph, next.id, preferred);
+    }
+    return timeline;
+};
+
+/**
+ * Returns the alternative results produced from the same parent, including the image itself.
+ */
+export const getSiblings = (graph: HistoryGraph, image: LibraryImage): LibraryImage[] => {
+    const siblings = image.parentId ? graph.children.get(image.parentId) : undefined;
+    return siblings ?? [image];
+};
+
+/**
+ * Marks every step of an image's lineage as the preferred branch of its parent.
+ */
+export const preferLineage = (graph: HistoryGraph, id: string, preferred: PreferredChildren): PreferredChildren => {
+    const next = { ...preferred };
+    const lineage = getLineage(graph, id);
+    for (let i = 1; i < lineage.length; i++) {
+        next[lineage[i - 1].id] = lineage[i].id;
+    }
+    return next;
+};
@@ -0,0 +1,86 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { AspectRatio, ReferenceRole } from '../types';
+import { geminiProvider } from './geminiService';
+import { mockProvider } from './mockProvider';
+
+/** What a provider can do, so the UI can hide options it does not support. */
+export interface ProviderCapabilities {
+    aspectRatios: AspectRatio[];
+    /** The most images a single text-to-image request may return. */
+    maxImages: number;
+    /** The most images, including the one being edited, a single edit request may include. */
+    maxReferenceImages: number;
+    /** Whether requests go over the network, and so are unavailable offline. */
+    requiresNetwork: boolean;
+}
+
+export interface TextToImageRequest {
+    prompt: string;
+    aspectRatio: AspectRatio;
+    /** How many variants to return, up to `capabilities.maxImages`. Defaults to 1. */
+    numberOfImages?: number;
+    /** Varies the output for otherwise identical requests, where the provider supports it. */
+    seed?: number;
+    /** Aborts the request, e.g. when the user cancels the job. */
+    signal?: AbortSignal;
+}
+
+export interface ImageReference {
+    image: File | string;
+    role: ReferenceRole;
+}
+
+export interface ImageEditRequest {
+    /** The image to edit, as a File or data URL. */
+    image: File | string;
+    prompt: string;
+    /** What the main image is for, when composing it with references. */
+    imageRole?: ReferenceRole;
+    /**
+     * Further images to combine with the main one, in order. Prompts can refer to them as
+     * "image 2", "image 3" and so on, the main image being image 1.
+     */
+    references?: ImageReference[];
+    /**
+     * Optional PNG data URL the same size as the image: white marks the area to change,
+     * black the area to keep. Callers still composite the result through the mask, since
+     * models do not guarantee untouched pixels.
+     */
+    mask?: string;
+    /** Aborts the request, e.g. when the user cancels the job. */
+    signal?: AbortSignal;
+}
+
+/**
+ * A backend that can create and edit images. Implementations return images as data URLs.
+ */
+export interface ImageProvider {
+    id: string;
+    name: string;
+    capabilities: ProviderCapabilities;
+    /** The model names behind each kind of request, recorded in exported metadata. */
+    models: { generate: string; edit: string };
+    generateImages: (request: TextToImageRequest) => Promise<string[]>;
+    editImage: (request: ImageEditRequest) => Promise<string>;
+}
+
+const providers: Record<string, ImageProvider> = {
+    [geminiProvider.id]: geminiProvider,
+    [mockProvider.id]: mockProvider,
+};
+
+/**
+ * Returns the provider chosen by the IMAGE_PROVIDER setting in .env.local, defaulting to Gemini.
+ */
+export const getImageProvider = (): ImageProvider => {
+    const id = process.env.IMAGE_PROVIDER || geminiProvider.id;
+    const provider = providers[id];
+    if (!provider) {
+        throw new Error(`Unknown image provider "${id}". Available providers: ${Object.keys(providers).join(', ')}.`);
+    }
+    return provider;
+};
@@ -0,0 +1,226 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { AspectRatio } from '../types';
+
+export const ASPECT_RATIO_VALUES: AspectRatio[] = ['1:1', '16:9', '9:16', '4:3', '3:4'];
+
+/**
+ * Converts a base64 data URL into a Blob.
+ */
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+    const arr = dataUrl.split(',');
+    if (arr.length < 2) throw new Error("Invalid data URL");
+    const mimeMatch = arr[0].match(/:(.*?);/);
+    if (!mimeMatch || !mimeMatch[1]) throw new Error("Could not parse MIME type from data URL");
+
+    const binary = atob(arr[1]);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return new Blob([bytes], { type: mimeMatch[1] });
+};
+
+/**
+ * Reads a Blob (or File) into a base64 data URL.
+ */
+export const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(blob);
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+});
+
+/**
+ * Loads an image element from any URL the browser can display.
+ */
+export const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not load image.'));
+    image.src = src;
+});
+
+/**
+ * Creates an offscreen canvas and its 2D context.
+ */
+export const createCanvas = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context is not available.');
+    return { canvas, ctx };
+};
+
+/**
+ * Converts a mask whose painted pixels are opaque into the black-and-white form
+ * image models expect: white where the image may change, black where it must not.
+ */
+export const alphaMaskToBlackAndWhite = async (maskUrl: string): Promise<string> => {
+    const mask = await loadImage(maskUrl);
+    const { canvas, ctx } = createCanvas(mask.naturalWidth, mask.naturalHeight);
+    ctx.drawImage(mask, 0, 0);
+    ctx.globalCompositeOperation = 'source-in';
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.globalCompositeOperation = 'destination-over';
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/png');
+};
+
+/**
+ * Blends an edited image back into the original through a mask, so that pixels
+ * outside the painted area are copied from the original unchanged.
+ * @param originalUrl The image before the edit.
+ * @param resultUrl The edited image. It is scaled to the original's size if the model changed it.
+ * @param maskUrl A mask whose opaque pixels mark where the result should show through.
+ * @returns A promise that resolves to the composited image as a PNG data URL.
+ */
+export const compositeWithMask = async (originalUrl: string, resultUrl: string, maskUrl: string): Promise<string> => {
+    const [original, result, mask] = await Promise.all([loadImage(originalUrl), loadImage(resultUrl), loadImage(maskUrl)]);
+    const { naturalWidth: width, naturalHeight: height } = original;
+
+    const { canvas: layer, ctx: layerCtx } = createCanvas(width, height);
+    layerCtx.drawImage(result, 0, 0, width, height);
+    layerCtx.globalCompositeOperation = 'destination-in';
+    layerCtx.drawImage(mask, 0, 0, width, height);
+
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.drawImage(original, 0, 0);
+    ctx.drawImage(layer, 0, 0);
+    return canvas.toDataURL('image/png');
+};
+
+/** A lossless orientation change, plus an optional small straightening rotation. */
+export interface ImageTransform {
+    /** Clockwise rotation in quarter turns. */
+    rotation: 0 | 90 | 180 | 270;
+    /** Additional clockwise rotation in degrees, between -45 and 45. */
+    straighten: number;
+    flipHorizontal: boolean;
+    flipVertical: boolean;
+}
+
+/** A rectangle in normalized (0–1) coordinates of the transformed image. */
+export interface CropRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Returns the size of an image after its quarter-turn rotation.
+ */
+export const transformedSize = (width: number, height: number, transform: ImageTransform) =>
+    transform.rotation % 180 === 0 ? { width, height } : { width: height, height: width };
+
+/**
+ * Draws an image with a transform applied. Straightening zooms in just enough that the
+ * rotated image still covers the whole frame, so no empty corners appear.
+ * @param scale Resolution of the output relative to the source, e.g. 0.5 for a half-size preview.
+ */
+export const drawTransformed = (image: HTMLImageElement, transform: ImageTransform, scale = 1): HTMLCanvasElement => {
+    const { width, height } = transformedSize(image.naturalWidth, image.naturalHeight, transform);
+    const { canvas, ctx } = createCanvas(Math.max(1, Math.round(width * scale)), Math.max(1, Math.round(height * scale)));
+
+    const angle = transform.straighten * Math.PI / 180;
+    const cos = Math.abs(Math.cos(angle));
+    const sin = Math.abs(Math.sin(angle));
+    const cover = Math.max((width * cos + height * sin) / width, (width * sin + height * cos) / height);
+
+    ctx.imageSmoothingQuality = 'high';
+    ctx.translate(canvas.width / 2, canvas.height / 2);
+    ctx.rotate(angle);
+    ctx.scale(cover * scale, cover * scale);
+    // Flip after the quarter turn so "horizontal" means horizontal as displayed.
+    ctx.scale(transform.flipHorizontal ? -1 : 1, transform.flipVertical ? -1 : 1);
+    ctx.rotate(transform.rotation * Math.PI / 180);
+    ctx.drawImage(image, -image.naturalWidth / 2, -image.naturalHeight / 2);
+    return canvas;
+};
+
+/**
+ * Applies a transform and crop to an image entirely in the browser.
+ * @returns A promise that resolves to the result as a PNG data URL.
+ */
+export const transformAndCrop = async (imageUrl: string, transform: ImageTransform, crop: CropRect): Promise<string> => {
+    const transformed = drawTransformed(await loadImage(imageUrl), transform);
+    const x = Math.round(crop.x * transformed.width);
+    const y = Math.round(crop.y * transformed.height);
+    const width = Math.max(1, Math.round(crop.width * transformed.width));
+    const height = Math.max(1, Math.round(crop.height * transformed.height));
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.drawImage(transformed, x, y, width, height, 0, 0, width, height);
+    return canvas.toDataURL('image/png');
+};
+
+/**
+ * Scales an image down so its longer edge is at most `longEdge` pixels. Smaller images are left at their size.
+ * @returns A promise that resolves to the scaled image as a JPEG data URL.
+ */
+export const resizeToFit = async (imageUrl: string, longEdge: number, quality = 0.85): Promise<string> => {
+    const image = await loadImage(imageUrl);
+    const scale = Math.min(1, longEdge / Math.max(image.naturalWidth, image.naturalHeight));
+    const width = Math.max(1, Math.round(image.naturalWidth * scale));
+    const height = Math.max(1, Math.round(image.naturalHeight * scale));
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.drawImage(image, 0, 0, width, height);
+    return canvas.toDataURL('image/jpeg', quality);
+};
+
+/**
+ * Picks the preset aspect ratio closest to the given pixel dimensions.
+ */
+export const closestAspectRatio = (width: number, height: number): AspectRatio => {
+    const ratio = width / height;
+    let closest = ASPECT_RATIO_VALUES[0];
+    let smallestDifference = Infinity;
+    for (const value of ASPECT_RATIO_VALUES) {
+        const [w, h] = value.split(':').map(Number);
+        const difference = Math.abs(Math.log(ratio / (w / h)));
+        if (difference < smallestDifference) {
+            smallestDifference = difference;
+            closest = value;
+        }
+    }
+    return closest;
+};
+
+/**
+ * Returns the file extension conventionally used for a MIME type.
+ */
+export const extensionForMimeType = (mimeType: string): string => {
+    switch (mimeType) {
+        case 'image/jpeg': return 'jpg';
+        case 'image/webp': return 'webp';
+        case 'image/avif': return 'avif';
+        default: return 'png';
+    }
+};
+
+/**
+ * Works out how many bytes a base64 data URL decodes to, without decoding it.
+ * @returns The size in bytes, or null if the URL is not a base64 data URL.
+ */
+export const dataUrlByteLength = (dataUrl: string): number | null => {
+    const match = dataUrl.match(/^data:[^,]*;base64,/);
+    if (!match) return null;
+    const base64Length = dataUrl.length - match[0].length;
+    const padding = dataUrl.endsWith('==') ? 2 : dataUrl.endsWith('=') ? 1 : 0;
+    return Math.floor((base64Length * 3) / 4) - padding;
+};
+
+/**
+ * Formats a byte count for display, e.g. "1.4 MB".
+ */
+export const formatFileSize = (bytes: number): string => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
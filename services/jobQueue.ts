@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface Job<T> {
+    id: string;
+    /** Describes the job in the jobs drawer, e.g. "Generate: a red fox". */
+    label: string;
+    status: JobStatus;
+    queuedAt: number;
+    startedAt: number | null;
+    finishedAt: number | null;
+    error: string | null;
+    result: T | null;
+}
+
+export interface JobQueue<T> {
+    /**
+     * Adds a job to the queue. The job receives a signal that aborts when it is cancelled.
+     * @returns A promise that settles with the job's result. Cancelled jobs reject with an AbortError.
+     */
+    enqueue: (label: string, run: (signal: AbortSignal) => Promise<T>) => Promise<T>;
+    cancel: (id: string) => void;
+    /** Removes finished jobs from the list. */
+    clearFinished: () => void;
+    setConcurrency: (concurrency: number) => void;
+    /** Calls the listener with the current jobs, oldest first, now and after every change. */
+    subscribe: (listener: (jobs: Job<T>[]) => void) => () => void;
+}
+
+export const isAbortError = (err: unknown): boolean => err instanceof DOMException && err.name === 'AbortError';
+
+const cancelledError = () => new DOMException('The job was cancelled.', 'AbortError');
+
+// Settles as soon as the signal aborts, so a cancelled job frees its slot even if the
+// work itself does not observe the signal.
+const whenAborted = (signal: AbortSignal) => new Promise<never>((_, reject) => {
+    signal.addEventListener('abort', () => reject(cancelledError()), { once: true });
+});
+
+/**
+ * Creates a queue that runs at most `concurrency` jobs at a time, in the order they were added.
+ */
+export const createJobQueue = <T>(concurrency: number): JobQueue<T> => {
+    let jobs: Job<T>[] = [];
+    let limit = Math.max(1, concurrency);
+    const pending = new Map<string, { run: (signal: AbortSignal) => Promise<T>; resolve: (value: T) => void; reject: (reason: unknown) => void }>();
+    const controllers = new Map<string, AbortController>();
+    const listeners = new Set<(jobs: Job<T>[]) => void>();
+
+    const notify = () => listeners.forEach(listener => listener(jobs));
+
+    const update = (id: string, patch: Partial<Job<T>>) => {
+        jobs = jobs.map(job => (job.id === id ? { ...job, ...patch } : job));
+        notify();
+    };
+
+    const start = async (id: string) => {
+        const entry = pending.get(id);
+        if (!entry) return;
+        const controller = new AbortController();
+        controllers.set(id, controller);
+        update(id, { status: 'running', startedAt: Date.now() });
+        try {
+            const result = await Promise.race([entry.run(controller.signal), whenAborted(controller.signal)]);
+            update(id, { status: 'succeeded', finishedAt: Date.now(), result });
+            entry.resolve(result);
+        } catch (err: any) {
+            const wasCancelled = controller.signal.aborted || isAbortError(err);
+            update(id, {
+                status: wasCancelled ? 'cancelled' : 'failed',
+                finishedAt: Date.now(),
+                error: wasCancelled ? null : err?.message || 'An unknown error occurred.',
+            });
+            entry.reject(wasCancelled ? cancelledError() : err);
+        } finally {
+            controllers.delete(id);
+            pending.delete(id);
+            pump();
+        }
+    };
+
+    const pump = () => {
+        let running = jobs.filter(job => job.status === 'running').length;
+        for (const job of jobs) {
+            if (running >= limit) break;
+            if (job.status !== 'queued') continue;
+            running++;
+            start(job.id);
+        }
+    };
+
+    return {
+        enqueue: (label, run) => new Promise<T>((resolve, reject) => {
+            const id = crypto.randomUUID();
+            pending.set(id, { run, resolve, reject });
+            jobs = [...jobs, { id, label, status: 'queued', queuedAt: Date.now(), startedAt: null, finishedAt: null, error: null, result: null }];
+            notify();
+            pump();
+        }),
+        cancel: (id) => {
+            const controller = controllers.get(id);
+            if (controller) {
+                controller.abort();
+                return;
+            }
+            const entry = pending.get(id);
+            if (!entry) return;
+            pending.delete(id);
+            update(id, { status: 'cancelled', finishedAt: Date.now() });
+            entry.reject(cancelledError());
+        },
+        clearFinished: () => {
+            jobs = jobs.filter(job => job.status === 'queued' || job.status === 'running');
+            notify();
+        },
+        setConcurrency: (concurrency) => {
+            limit = Math.max(1, concurrency);
+            pump();
+        },
+        subscribe: (listener) => {
+            listeners.add(listener);
+            listener(jobs);
+            return () => { listeners.delete(listener); };
+        },
+    };
+};
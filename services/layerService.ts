@@ -0,0 +1,239 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { AdjustmentLayer, BlendMode, ImageLayer, Layer, LayerPlacement, TextLayer } from '../types';
+import { DEFAULT_ADJUSTMENTS, renderAdjustments } from './adjustmentService';
+import { createCanvas, loadImage } from './imageUtils';
+
+// Layers are drawn with one renderer for the live editor and for flattening, so what the user
+// arranges is what gets exported.
+
+export const BLEND_MODES: { value: BlendMode; label: string }[] = [
+    { value: 'normal', label: 'Normal' },
+    { value: 'multiply', label: 'Multiply' },
+    { value: 'screen', label: 'Screen' },
+    { value: 'overlay', label: 'Overlay' },
+    { value: 'darken', label: 'Darken' },
+    { value: 'lighten', label: 'Lighten' },
+    { value: 'color-dodge', label: 'Color dodge' },
+    { value: 'color-burn', label: 'Color burn' },
+    { value: 'soft-light', label: 'Soft light' },
+    { value: 'difference', label: 'Difference' },
+    { value: 'luminosity', label: 'Luminosity' },
+];
+
+export const LAYER_FONTS: { value: string; label: string }[] = [
+    { value: 'system-ui, sans-serif', label: 'Sans' },
+    { value: 'Georgia, serif', label: 'Serif' },
+    { value: 'ui-monospace, monospace', label: 'Mono' },
+    { value: '"Comic Sans MS", cursive', label: 'Casual' },
+];
+
+// New image layers fit within this fraction of the canvas.
+const DEFAULT_IMAGE_SIZE = 0.4;
+const DEFAULT_FONT_SIZE = 0.08;
+const LINE_HEIGHT = 1.2;
+
+const baseLayer = (name: string) => ({
+    id: crypto.randomUUID(),
+    name,
+    visible: true,
+    opacity: 1,
+    blendMode: 'normal' as BlendMode,
+});
+
+/**
+ * Creates a layer holding a picture. Without bounds, it is centred and fits comfortably
+ * within the canvas.
+ * @param canvasSize The size of the image the layer will sit on, in pixels.
+ * @param bounds Where the layer goes: its centre and width, as fractions of the canvas.
+ */
+export const createImageLayer = async (
+    image: Blob,
+    name: string,
+    canvasSize: { width: number; height: number },
+    bounds?: { x: number; y: number; width: number },
+): Promise<ImageLayer> => {
+    const url = URL.createObjectURL(image);
+    try {
+        const { naturalWidth, naturalHeight } = await loadImage(url);
+        const fit = Math.min(
+            (canvasSize.width * DEFAULT_IMAGE_SIZE) / naturalWidth,
+            (canvasSize.height * DEFAULT_IMAGE_SIZE) / naturalHeight,
+        );
+        return {
+            ...baseLayer(name),
+            kind: 'image',
+            image,
+            naturalWidth,
+            naturalHeight,
+            x: bounds?.x ?? 0.5,
+            y: bounds?.y ?? 0.5,
+            width: bounds?.width ?? (naturalWidth * fit) / canvasSize.width,
+            scale: 1,
+            rotation: 0,
+        };
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+};
+
+export const createTextLayer = (text = 'Your text'): TextLayer => ({
+    ...baseLayer(text),
+    kind: 'text',
+    text,
+    color: '#ffffff',
+    fontFamily: LAYER_FONTS[0].value,
+    fontSize: DEFAULT_FONT_SIZE,
+    x: 0.5,
+    y: 0.5,
+    scale: 1,
+    rotation: 0,
+});
+
+export const createAdjustmentLayer = (): AdjustmentLayer => ({
+    ...baseLayer('Adjustments'),
+    kind: 'adjustment',
+    adjustments: DEFAULT_ADJUSTMENTS,
+});
+
+/**
+ * Whether flattening the layers would change the image at all.
+ */
+export const hasVisibleLayers = (layers: Layer[] | undefined): boolean =>
+    (layers ?? []).some(layer => layer.visible && layer.opacity > 0);
+
+/**
+ * Loads the pictures of a stack's image layers, ready to draw.
+ * @returns A promise that resolves to the loaded images by layer id.
+ */
+export const loadLayerImages = async (layers: Layer[]): Promise<Map<string, HTMLImageElement>> => {
+    const entries = await Promise.all(layers.filter((layer): layer is ImageLayer => layer.kind === 'image').map(async layer => {
+        const url = URL.createObjectURL(layer.image);
+        try {
+            return [layer.id, await loadImage(url)] as const;
+        } finally {
+            URL.revokeObjectURL(url);
+        }
+    }));
+    return new Map(entries);
+};
+
+const textFont = (layer: TextLayer, canvasHeight: number) =>
+    `bold ${Math.max(1, layer.fontSize * layer.scale * canvasHeight)}px ${layer.fontFamily}`;
+
+/**
+ * Measures a placed layer on a canvas, before rotation.
+ * @returns Its width and height in canvas pixels.
+ */
+export const layerSize = (ctx: CanvasRenderingContext2D, layer: ImageLayer | TextLayer) => {
+    const { width, height } = ctx.canvas;
+    if (layer.kind === 'image') {
+        const drawnWidth = layer.width * layer.scale * width;
+        return { width: drawnWidth, height: (drawnWidth * layer.naturalHeight) / layer.naturalWidth };
+    }
+    ctx.save();
+    ctx.font = textFont(layer, height);
+    const lines = layer.text.split('\n');
+    const fontSize = layer.fontSize * layer.scale * height;
+    const size = {
+        width: Math.max(...lines.map(line => ctx.measureText(line).width)),
+        height: lines.length * fontSize * LINE_HEIGHT,
+    };
+    ctx.restore();
+    return size;
+};
+
+/**
+ * Finds the topmost visible layer under a point, for picking layers on the canvas.
+ * @param point A position in canvas pixels.
+ * @returns The layer's id, or null if only the background is there.
+ */
+export const hitTestLayers = (ctx: CanvasRenderingContext2D, layers: Layer[], point: { x: number; y: number }): string | null => {
+    const { width, height } = ctx.canvas;
+    for (const layer of [...layers].reverse()) {
+        if (layer.kind === 'adjustment' || !layer.visible) continue;
+        const size = layerSize(ctx, layer);
+        // Rotate the point into the layer's own frame, around its centre.
+        const angle = (-layer.rotation * Math.PI) / 180;
+        const dx = point.x - layer.x * width;
+        const dy = point.y - layer.y * height;
+        const localX = dx * Math.cos(angle) - dy * Math.sin(angle);
+        const localY = dx * Math.sin(angle) + dy * Math.cos(angle);
+        if (Math.abs(localX) <= size.width / 2 && Math.abs(localY) <= size.height / 2) return layer.id;
+    }
+    return null;
+};
+
+const drawAdjustmentLayer = (ctx: CanvasRenderingContext2D, layer: AdjustmentLayer) => {
+    const { width, height } = ctx.canvas;
+    ctx.drawImage(renderAdjustments(ctx.canvas, layer.adjustments, width, height), 0, 0);
+};
+
+const drawPlacedLayer = (ctx: CanvasRenderingContext2D, layer: ImageLayer | TextLayer, images: Map<string, HTMLImageElement>) => {
+    const { width, height } = ctx.canvas;
+    const size = layerSize(ctx, layer);
+    ctx.translate(layer.x * width, layer.y * height);
+    ctx.rotate((layer.rotation * Math.PI) / 180);
+    if (layer.kind === 'image') {
+        const image = images.get(layer.id);
+        if (image) ctx.drawImage(image, -size.width / 2, -size.height / 2, size.width, size.height);
+        return;
+    }
+    ctx.font = textFont(layer, height);
+    ctx.fillStyle = layer.color;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    const lines = layer.text.split('\n');
+    const lineHeight = layer.fontSize * layer.scale * height * LINE_HEIGHT;
+    lines.forEach((line, index) => ctx.fillText(line, 0, (index - (lines.length - 1) / 2) * lineHeight));
+};
+
+/**
+ * Draws a background and the visible layers above it, scaled to fill the context's canvas.
+ * @param images The layers' pictures, as loaded by `loadLayerImages`.
+ */
+export const drawLayers = (
+    ctx: CanvasRenderingContext2D,
+    background: CanvasImageSource,
+    layers: Layer[],
+    images: Map<string, HTMLImageElement>,
+) => {
+    const { width, height } = ctx.canvas;
+    ctx.clearRect(0, 0, width, height);
+    ctx.drawImage(background, 0, 0, width, height);
+    for (const layer of layers) {
+        if (!layer.visible || layer.opacity <= 0) continue;
+        ctx.save();
+        ctx.globalAlpha = layer.opacity;
+        ctx.globalCompositeOperation = layer.blendMode === 'normal' ? 'source-over' : layer.blendMode;
+        if (layer.kind === 'adjustment') {
+            drawAdjustmentLayer(ctx, layer);
+        } else {
+            drawPlacedLayer(ctx, layer, images);
+        }
+        ctx.restore();
+    }
+};
+
+/**
+ * Flattens layers into their background at its full resolution.
+ * @returns A promise that resolves to the flattened image as a PNG data URL.
+ */
+export const flattenLayers = async (imageUrl: string, layers: Layer[]): Promise<string> => {
+    const [background, images] = await Promise.all([loadImage(imageUrl), loadLayerImages(layers)]);
+    const { canvas, ctx } = createCanvas(background.naturalWidth, background.naturalHeight);
+    drawLayers(ctx, background, layers, images);
+    return canvas.toDataURL('image/png');
+};
+
+/**
+ * Moves a layer's centre by an offset in canvas pixels.
+ */
+export const nudgeLayer = <T extends LayerPlacement>(layer: T, dx: number, dy: number, canvasSize: { width: number; height: number }): T => ({
+    ...layer,
+    x: layer.x + dx / canvasSize.width,
+    y: layer.y + dy / canvasSize.height,
+});
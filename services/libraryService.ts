@@ -0,0 +1,125 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { AspectRatio, GenerationMetadata, ImageOperation, Layer, LibraryImage } from '../types';
+import { withStore } from './db';
+import { dataUrlToBlob, loadImage, closestAspectRatio, extensionForMimeType, blobToDataUrl } from './imageUtils';
+import { flattenLayers, hasVisibleLayers } from './layerService';
+import { createZip } from './zip';
+
+/**
+ * Saves an image to the local library.
+ * @param dataUrl The image as a data URL. It is stored as a Blob.
+ * @param details What produced the image. If no aspect ratio is given, the closest preset is derived from its size.
+ * @returns A promise that resolves to the stored library record.
+ */
+export const addImage = async (
+    dataUrl: string,
+    details: {
+        prompt: string;
+        operation: ImageOperation;
+        aspectRatio?: AspectRatio;
+        parentId?: string | null;
+        batchId?: string | null;
+        batchIndex?: number;
+        generation?: GenerationMetadata[];
+        layers?: Layer[];
+    },
+): Promise<LibraryImage> => {
+    const blob = dataUrlToBlob(dataUrl);
+    const { naturalWidth: width, naturalHeight: height } = await loadImage(dataUrl);
+    const image: LibraryImage = {
+        id: crypto.randomUUID(),
+        blob,
+        mimeType: blob.type,
+        width,
+        height,
+        prompt: details.prompt,
+        aspectRatio: details.aspectRatio ?? closestAspectRatio(width, height),
+        operation: details.operation,
+        parentId: details.parentId ?? null,
+        batchId: details.batchId ?? null,
+        batchIndex: details.batchIndex ?? 0,
+        generation: details.generation ?? [],
+        layers: details.layers ?? [],
+        createdAt: Date.now(),
+    };
+    await withStore('images', 'readwrite', store => { store.put(image); });
+    return image;
+};
+
+/**
+ * Lists every image in the library, newest first.
+ */
+export const listImages = async (): Promise<LibraryImage[]> => {
+    const images = await withStore<LibraryImage[]>('images', 'readonly', store => store.index('createdAt').getAll());
+    // Fill in fields that images saved by earlier versions of the app do not have.
+    return images.reverse().map(image => ({
+        ...image,
+        parentId: image.parentId ?? null,
+        batchId: image.batchId ?? null,
+        batchIndex: image.batchIndex ?? 0,
+        layers: image.layers ?? [],
+    }));
+};
+
+/**
+ * Replaces the layers stacked over an image. Unlike edits, this changes the image in place
+ * rather than adding to its history.
+ */
+export const updateImageLayers = async (id: string, layers: Layer[]): Promise<void> => {
+    await withStore('images', 'readwrite', store => {
+        const request = store.get(id);
+        request.onsuccess = () => {
+            if (request.result) store.put({ ...request.result, layers });
+        };
+    });
+};
+
+/**
+ * Permanently removes images from the library.
+ */
+export const deleteImages = async (ids: string[]): Promise<void> => {
+    await withStore('images', 'readwrite', store => {
+        ids.forEach(id => store.delete(id));
+    });
+};
+
+// An image as it is exported: with its layers flattened into it, if it has any.
+const flattenImage = async (image: LibraryImage): Promise<Blob> =>
+    hasVisibleLayers(image.layers)
+        ? dataUrlToBlob(await flattenLayers(await blobToDataUrl(image.blob), image.layers!))
+        : image.blob;
+
+/**
+ * Bundles images into a ZIP archive together with a `library.json` file describing each one.
+ * Layered images are flattened.
+ */
+export const exportImages = async (images: LibraryImage[]): Promise<Blob> => {
+    const files: { name: string; image: LibraryImage; data: Blob }[] = [];
+    for (const [index, image] of images.entries()) {
+        const data = await flattenImage(image);
+        files.push({
+            name: `images/${String(index + 1).padStart(3, '0')}-${image.operation}-${image.id.slice(0, 8)}.${extensionForMimeType(data.type)}`,
+            image,
+            data,
+        });
+    }
+    const manifest = files.map(({ name, image }) => ({
+        file: name,
+        prompt: image.prompt,
+        aspectRatio: image.aspectRatio,
+        operation: image.operation,
+        parentFile: files.find(file => file.image.id === image.parentId)?.name ?? null,
+        width: image.width,
+        height: image.height,
+        generation: image.generation ?? null,
+        createdAt: new Date(image.createdAt).toISOString(),
+    }));
+    return createZip([
+        ...files.map(({ name, image, data }) => ({ name, data, lastModified: image.createdAt })),
+        { name: 'library.json', data: JSON.stringify(manifest, null, 2) },
+    ]);
+};
@@ -0,0 +1,154 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { AspectRatio } from '../types';
+import type { ImageProvider } from './imageProvider';
+import { loadImage, createCanvas } from './imageUtils';
+import { recordUsage } from './usageService';
+
+// An offline stand-in for a real model. It draws placeholder images on a canvas,
+// seeded from the request so the same request always produces the same pixels.
+// Select it with IMAGE_PROVIDER=mock to work on the UI without an API key.
+
+const MOCK_LATENCY_MS = 800;
+const LONG_EDGE = 1024;
+
+const hashString = (value: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+// mulberry32: a small, fast seeded PRNG.
+const createRandom = (seed: number) => () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), seed | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+    }, { once: true });
+});
+
+const dimensionsFor = (aspectRatio: AspectRatio): { width: number; height: number } => {
+    const [w, h] = aspectRatio.split(':').map(Number);
+    return w >= h
+        ? { width: LONG_EDGE, height: Math.round(LONG_EDGE * h / w) }
+        : { width: Math.round(LONG_EDGE * w / h), height: LONG_EDGE };
+};
+
+const drawCaption = (ctx: CanvasRenderingContext2D, width: number, height: number, label: string, text: string) => {
+    const fontSize = Math.round(Math.min(width, height) / 28);
+    const padding = fontSize;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+    ctx.fillRect(0, height - fontSize * 4, width, fontSize * 4);
+    ctx.fillStyle = '#FACC15';
+    ctx.font = `700 ${fontSize}px Inter, sans-serif`;
+    ctx.fillText(label, padding, height - fontSize * 2.4);
+    ctx.fillStyle = '#F3F4F6';
+    ctx.font = `400 ${fontSize}px Inter, sans-serif`;
+    const caption = text.length > 80 ? `${text.slice(0, 80)}…` : text;
+    ctx.fillText(caption, padding, height - fontSize, width - padding * 2);
+};
+
+const renderPlaceholder = (prompt: string, aspectRatio: AspectRatio, seed: number, index: number): string => {
+    const random = createRandom(hashString(`${prompt}|${aspectRatio}|${seed}|${index}`));
+    const { width, height } = dimensionsFor(aspectRatio);
+    const { canvas, ctx } = createCanvas(width, height);
+
+    const hue = Math.floor(random() * 360);
+    const gradient = ctx.createLinearGradient(0, 0, width, height);
+    gradient.addColorStop(0, `hsl(${hue}, 70%, 35%)`);
+    gradient.addColorStop(1, `hsl(${(hue + 60 + random() * 120) % 360}, 70%, 20%)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+
+    for (let i = 0; i < 12; i++) {
+        ctx.fillStyle = `hsla(${(hue + random() * 90) % 360}, 80%, ${40 + random() * 30}%, ${0.15 + random() * 0.3})`;
+        ctx.beginPath();
+        ctx.arc(random() * width, random() * height, (0.05 + random() * 0.25) * Math.min(width, height), 0, Math.PI * 2);
+        ctx.fill();
+    }
+
+    drawCaption(ctx, width, height, `Mock image ${index + 1} · ${aspectRatio}`, prompt || 'No prompt');
+    return canvas.toDataURL('image/png');
+};
+
+const renderEdit = async (image: File | string, prompt: string, referenceCount: number): Promise<string> => {
+    const source = typeof image === 'string' ? image : URL.createObjectURL(image);
+    try {
+        const original = await loadImage(source);
+        const { naturalWidth: width, naturalHeight: height } = original;
+        const { canvas, ctx } = createCanvas(width, height);
+        ctx.drawImage(original, 0, 0);
+
+        const random = createRandom(hashString(prompt));
+        ctx.globalCompositeOperation = 'overlay';
+        ctx.fillStyle = `hsla(${Math.floor(random() * 360)}, 70%, 50%, 0.35)`;
+        ctx.fillRect(0, 0, width, height);
+        ctx.globalCompositeOperation = 'source-over';
+
+        drawCaption(ctx, width, height, referenceCount > 0 ? `Mock edit + ${referenceCount} reference${referenceCount === 1 ? '' : 's'}` : 'Mock edit', prompt);
+        return canvas.toDataURL('image/png');
+    } finally {
+        if (typeof image !== 'string') URL.revokeObjectURL(source);
+    }
+};
+
+export const mockProvider: ImageProvider = {
+    id: 'mock',
+    name: 'Offline mock',
+    capabilities: {
+        aspectRatios: ['1:1', '16:9', '9:16', '4:3', '3:4'],
+        maxImages: 4,
+        maxReferenceImages: 3,
+        requiresNetwork: false,
+    },
+    models: { generate: 'mock-generate', edit: 'mock-edit' },
+    generateImages: async ({ prompt, aspectRatio, numberOfImages = 1, seed = 0, signal }) => {
+        console.log(`Mock text-to-image generation with prompt: "${prompt}"`);
+        await delay(MOCK_LATENCY_MS, signal);
+        await recordUsage({
+            provider: 'mock',
+            model: 'mock-generate',
+            kind: 'generate',
+            prompt,
+            config: { aspectRatio, numberOfImages, seed },
+            latencyMs: MOCK_LATENCY_MS,
+            usage: { inputTokens: null, outputTokens: null, images: numberOfImages },
+            finishReason: null,
+            createdAt: Date.now(),
+        }, signal);
+        return Array.from({ length: numberOfImages }, (_, index) => renderPlaceholder(prompt, aspectRatio, seed, index));
+    },
+    editImage: async ({ image, prompt, imageRole, references = [], mask, signal }) => {
+        console.log(`Mock image-and-text generation with prompt: "${prompt}"`);
+        await delay(MOCK_LATENCY_MS, signal);
+        await recordUsage({
+            provider: 'mock',
+            model: 'mock-edit',
+            kind: 'edit',
+            prompt,
+            config: { imageRole: imageRole ?? null, references: references.length, mask: !!mask },
+            latencyMs: MOCK_LATENCY_MS,
+            usage: { inputTokens: null, outputTokens: null, images: 1 },
+            finishReason: null,
+            createdAt: Date.now(),
+        }, signal);
+        return renderEdit(image, prompt, references.length);
+    },
+};
@@ -0,0 +1,151 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { AspectRatio } from '../types';
+import type { ImageProvider } from './imageProvider';
+import { createCanvas, loadImage } from './imageUtils';
+
+/** The longest edge an outpainted image may have. */
+export const MAX_OUTPAINT_EDGE = 4096;
+// How far, as a fraction of the shorter edge, the model may repaint inside the original so
+// the new area continues the scene. Those pixels are restored from the original afterwards.
+const SEAM_OVERLAP = 0.02;
+// The extension area is filled with neutral grey before it goes to the model.
+const FILL_COLOR = '#808080';
+
+/** How many pixels to add on each side of an image. */
+export interface CanvasExtension {
+    top: number;
+    right: number;
+    bottom: number;
+    left: number;
+}
+
+/**
+ * Where the original image sits on the extended canvas, as fractions from the top left:
+ * 0 keeps it against the left or top edge, 0.5 centres it, 1 keeps it against the right or bottom.
+ */
+export interface ExtensionAnchor {
+    x: 0 | 0.5 | 1;
+    y: 0 | 0.5 | 1;
+}
+
+export const NO_EXTENSION: CanvasExtension = { top: 0, right: 0, bottom: 0, left: 0 };
+
+/**
+ * The size of an image after extending its canvas.
+ */
+export const extendedSize = (width: number, height: number, extension: CanvasExtension) => ({
+    width: width + extension.left + extension.right,
+    height: height + extension.top + extension.bottom,
+});
+
+/**
+ * Grows the canvas to the given size, placing the original according to the anchor.
+ * Sizes smaller than the original are raised to it; outpainting never crops.
+ */
+export const extensionForSize = (
+    width: number,
+    height: number,
+    target: { width: number; height: number },
+    anchor: ExtensionAnchor,
+): CanvasExtension => {
+    const extraWidth = Math.max(0, Math.round(target.width) - width);
+    const extraHeight = Math.max(0, Math.round(target.height) - height);
+    const left = Math.round(extraWidth * anchor.x);
+    const top = Math.round(extraHeight * anchor.y);
+    return { top, right: extraWidth - left, bottom: extraHeight - top, left };
+};
+
+/**
+ * The smallest extension that gives the canvas the target aspect ratio.
+ */
+export const extensionForRatio = (width: number, height: number, ratio: AspectRatio, anchor: ExtensionAnchor): CanvasExtension => {
+    const [w, h] = ratio.split(':').map(Number);
+    const target = width / height < w / h
+        ? { width: Math.round((height * w) / h), height }
+        : { width, height: Math.round((width * h) / w) };
+    return extensionForSize(width, height, target, anchor);
+};
+
+/**
+ * Describes an extension for labels and history, e.g. "Extend left 200 px, right 200 px".
+ */
+export const describeExtension = (extension: CanvasExtension): string => {
+    const sides = (['top', 'right', 'bottom', 'left'] as const)
+        .filter(side => extension[side] > 0)
+        .map(side => `${side} ${extension[side]} px`);
+    return sides.length > 0 ? `Extend ${sides.join(', ')}` : 'No extension';
+};
+
+/**
+ * Extends an image's canvas and has the edit model fill only the new area. The original
+ * pixels are drawn back over the result, so they come out exactly as they went in.
+ * @param provider The provider to run the edit with.
+ * @param prompt Optional direction for what the new area should contain.
+ * @returns A promise that resolves to the extended image as a PNG data URL.
+ */
+export const outpaintImage = async (
+    provider: ImageProvider,
+    { imageUrl, extension, prompt, signal }: {
+        imageUrl: string;
+        extension: CanvasExtension;
+        prompt?: string;
+        signal?: AbortSignal;
+    },
+): Promise<string> => {
+    const original = await loadImage(imageUrl);
+    const { naturalWidth: width, naturalHeight: height } = original;
+    const size = extendedSize(width, height, extension);
+    if (size.width === width && size.height === height) {
+        throw new Error('Drag at least one edge outwards to make room to fill.');
+    }
+    if (Math.max(size.width, size.height) > MAX_OUTPAINT_EDGE) {
+        throw new Error(`The extended image would be ${size.width} × ${size.height} px; the limit is ${MAX_OUTPAINT_EDGE} px per edge.`);
+    }
+
+    const { canvas: padded, ctx: paddedCtx } = createCanvas(size.width, size.height);
+    paddedCtx.fillStyle = FILL_COLOR;
+    paddedCtx.fillRect(0, 0, size.width, size.height);
+    paddedCtx.drawImage(original, extension.left, extension.top);
+
+    // White where the model may paint: the new area plus a thin band inside each extended edge.
+    const overlap = Math.round(Math.min(width, height) * SEAM_OVERLAP);
+    const inset = {
+        top: extension.top > 0 ? overlap : 0,
+        right: extension.right > 0 ? overlap : 0,
+        bottom: extension.bottom > 0 ? overlap : 0,
+        left: extension.left > 0 ? overlap : 0,
+    };
+    const { canvas: mask, ctx: maskCtx } = createCanvas(size.width, size.height);
+    maskCtx.fillStyle = '#FFFFFF';
+    maskCtx.fillRect(0, 0, size.width, size.height);
+    maskCtx.fillStyle = '#000000';
+    maskCtx.fillRect(
+        extension.left + inset.left,
+        extension.top + inset.top,
+        width - inset.left - inset.right,
+        height - inset.top - inset.bottom,
+    );
+
+    const instruction = [
+        'Extend this image outwards to fill the grey border area, continuing the scene naturally',
+        'with matching perspective, lighting, colour and texture. Leave the existing picture unchanged.',
+        prompt?.trim(),
+    ].filter(Boolean).join(' ');
+    const edited = await loadImage(await provider.editImage({
+        image: padded.toDataURL('image/png'),
+        mask: mask.toDataURL('image/png'),
+        prompt: instruction,
+        signal,
+    }));
+
+    // The model may return a different resolution; scale it to the canvas, then restore the original.
+    const { canvas, ctx } = createCanvas(size.width, size.height);
+    ctx.drawImage(edited, 0, 0, size.width, size.height);
+    ctx.clearRect(extension.left, extension.top, width, height);
+    ctx.drawImage(original, extension.left, extension.top);
+    return canvas.toDataURL('image/png');
+};
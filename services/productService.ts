@@ -0,0 +1,185 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ImageLayer, Product } from '../types';
+import { withStore } from './db';
+import type { ImageProvider } from './imageProvider';
+import { alphaMaskToBlackAndWhite, blobToDataUrl, compositeWithMask, createCanvas, dataUrlToBlob, loadImage } from './imageUtils';
+import { createImageLayer } from './layerService';
+
+// How far the editable area reaches beyond the product's own size, so there is room for shadows.
+const MASK_MARGIN = 1.5;
+// The fraction of the mask radius over which the result fades into the original scene.
+const MASK_FEATHER = 0.2;
+
+/** Where a product should go in a scene. */
+export interface Placement {
+    /** The product's centre, as a fraction of the scene's width. */
+    x: number;
+    /** The product's centre, as a fraction of the scene's height. */
+    y: number;
+    /** The product's rough size, as a fraction of the scene's shorter edge. */
+    size: number;
+}
+
+/**
+ * Whether a product matches a search query by name, description or tag.
+ */
+export const matchesProduct = (product: Product, query: string): boolean => {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return true;
+    return product.name.toLowerCase().includes(needle)
+        || product.description.toLowerCase().includes(needle)
+        || product.tags.some(tag => tag.includes(needle));
+};
+
+/**
+ * Lists every product in the catalog, newest first.
+ */
+export const listProducts = async (): Promise<Product[]> => {
+    const products = await withStore<Product[]>('products', 'readonly', store => store.index('createdAt').getAll());
+    return products.reverse();
+};
+
+/**
+ * Adds a product to the catalog.
+ * @param details The product's name, description, tags and cutout image.
+ * @returns A promise that resolves to the stored product.
+ */
+export const addProduct = async (details: { name: string; description: string; tags: string[]; image: Blob }): Promise<Product> => {
+    if (!details.image.type.startsWith('image/')) {
+        throw new Error('The product image must be an image file.');
+    }
+    const product: Product = {
+        id: crypto.randomUUID(),
+        name: details.name.trim() || 'Untitled product',
+        description: details.description.trim(),
+        tags: details.tags,
+        image: details.image,
+        createdAt: Date.now(),
+    };
+    await withStore('products', 'readwrite', store => { store.put(product); });
+    return product;
+};
+
+/**
+ * Permanently removes a product from the catalog.
+ */
+export const deleteProduct = async (id: string): Promise<void> => {
+    await withStore('products', 'readwrite', store => { store.delete(id); });
+};
+
+// Draws a circular placement area. The model gets a hard-edged black and white mask; the
+// composite uses a feathered alpha mask so the edit blends into the untouched scene.
+const createPlacementMasks = async (sceneUrl: string, placement: Placement) => {
+    const scene = await loadImage(sceneUrl);
+    const { naturalWidth: width, naturalHeight: height } = scene;
+    const cx = placement.x * width;
+    const cy = placement.y * height;
+    const radius = (placement.size * Math.min(width, height) * MASK_MARGIN) / 2;
+
+    const { canvas: area, ctx: areaCtx } = createCanvas(width, height);
+    areaCtx.fillStyle = '#FFFFFF';
+    areaCtx.beginPath();
+    areaCtx.arc(cx, cy, radius, 0, Math.PI * 2);
+    areaCtx.fill();
+
+    const { canvas: blend, ctx: blendCtx } = createCanvas(width, height);
+    const gradient = blendCtx.createRadialGradient(cx, cy, radius * (1 - MASK_FEATHER), cx, cy, radius);
+    gradient.addColorStop(0, 'rgba(255, 255, 255, 1)');
+    gradient.addColorStop(1, 'rgba(255, 255, 255, 0)');
+    blendCtx.fillStyle = gradient;
+    blendCtx.fillRect(0, 0, width, height);
+
+    return {
+        modelMask: await alphaMaskToBlackAndWhite(area.toDataURL('image/png')),
+        blendMask: blend.toDataURL('image/png'),
+    };
+};
+
+/**
+ * Describes a placement for the edit model and for the image's history.
+ */
+export const describePlacement = (product: Product, note = ''): string => {
+    const details = product.description ? `${product.name} (${product.description})` : product.name;
+    return [`Place ${details} into the scene.`, note.trim()].filter(Boolean).join(' ');
+};
+
+type PlacementRequest = {
+    sceneUrl: string;
+    product: Product;
+    placement: Placement;
+    note?: string;
+    signal?: AbortSignal;
+};
+
+// Asks the edit model to put the product into the scene around the placement point.
+const editPlacement = async (
+    provider: ImageProvider,
+    { sceneUrl, product, placement, note, signal }: PlacementRequest,
+): Promise<{ edited: string; blendMask: string }> => {
+    if (provider.capabilities.maxReferenceImages < 2) {
+        throw new Error(`The ${provider.name} provider cannot combine a product with a scene.`);
+    }
+    const [productUrl, { modelMask, blendMask }] = await Promise.all([
+        blobToDataUrl(product.image),
+        createPlacementMasks(sceneUrl, placement),
+    ]);
+    const prompt = [
+        describePlacement(product, note),
+        'The scene is image 1 and the product is image 2.',
+        "Keep the product's shape, colours, text and branding exactly as in image 2.",
+        "Match the scene's perspective, lighting and scale, and add natural contact shadows and reflections.",
+    ].join(' ');
+    const edited = await provider.editImage({
+        image: sceneUrl,
+        imageRole: 'background',
+        references: [{ image: productUrl, role: 'subject' }],
+        mask: modelMask,
+        prompt,
+        signal,
+    });
+    return { edited, blendMask };
+};
+
+/**
+ * Composites a product into a scene with the image-edit model. Only the area around the
+ * placement point can change; the rest of the scene is kept pixel for pixel.
+ * @param provider The provider to run the edit with. It must accept reference images.
+ * @param sceneUrl The scene as a data URL.
+ * @param note Optional extra direction, e.g. "standing on the table, facing left".
+ * @returns A promise that resolves to the composited scene as a PNG data URL.
+ */
+export const placeProduct = async (provider: ImageProvider, request: PlacementRequest): Promise<string> => {
+    const { edited, blendMask } = await editPlacement(provider, request);
+    return compositeWithMask(request.sceneUrl, edited, blendMask);
+};
+
+/**
+ * Like `placeProduct`, but returns the placed product, with the shadows and reflections the
+ * model added around it, as a layer to stack over the unchanged scene. It can then be moved
+ * without asking the model again.
+ */
+export const placeProductAsLayer = async (provider: ImageProvider, request: PlacementRequest): Promise<ImageLayer> => {
+    const [{ edited, blendMask }, scene] = await Promise.all([editPlacement(provider, request), loadImage(request.sceneUrl)]);
+    const [result, mask] = await Promise.all([loadImage(edited), loadImage(blendMask)]);
+    const { naturalWidth: width, naturalHeight: height } = scene;
+    const { placement } = request;
+    // Cut out the square around the placement area, clipped to the scene.
+    const radius = (placement.size * Math.min(width, height) * MASK_MARGIN) / 2;
+    const left = Math.max(0, Math.floor(placement.x * width - radius));
+    const top = Math.max(0, Math.floor(placement.y * height - radius));
+    const right = Math.min(width, Math.ceil(placement.x * width + radius));
+    const bottom = Math.min(height, Math.ceil(placement.y * height + radius));
+    const { canvas, ctx } = createCanvas(right - left, bottom - top);
+    ctx.drawImage(result, -left, -top, width, height);
+    ctx.globalCompositeOperation = 'destination-in';
+    ctx.drawImage(mask, -left, -top, width, height);
+    return createImageLayer(dataUrlToBlob(canvas.toDataURL('image/png')), request.product.name, { width, height }, {
+        x: (left + right) / 2 / width,
+        y: (top + bottom) / 2 / height,
+        width: (right - left) / width,
+    });
+};
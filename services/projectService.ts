@@ -0,0 +1,246 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { FilterPreset, ImageLayer, Layer, LibraryImage, Product, Project, SavedPrompt } from '../types';
+import { deleteProjectData, PROJECT_STORES, setActiveProject, withProjectStore, withStore } from './db';
+import { extensionForMimeType } from './imageUtils';
+import { createZip, readZip } from './zip';
+
+const EXPORT_FORMAT = 'blobs-project';
+const EXPORT_VERSION = 1;
+const MANIFEST_FILE = 'project.json';
+
+/** How much a project holds, and its newest image to show as its cover. */
+export interface ProjectSummary {
+    images: number;
+    prompts: number;
+    products: number;
+    cover: Blob | null;
+}
+
+const putProject = async (project: Project): Promise<Project> => {
+    await withStore('projects', 'readwrite', store => { store.put(project); });
+    return project;
+};
+
+/**
+ * Lists every project, most recently opened first.
+ */
+export const listProjects = async (): Promise<Project[]> => {
+    const projects = await withStore<Project[]>('projects', 'readonly', store => store.index('lastOpenedAt').getAll());
+    return projects.reverse();
+};
+
+/**
+ * Counts what a project holds, without opening it.
+ */
+export const summarizeProject = async (projectId: string): Promise<ProjectSummary> => {
+    const count = (storeName: 'images' | 'prompts' | 'products') =>
+        withProjectStore<number>(projectId, storeName, 'readonly', store => store.count());
+    const newest = await withProjectStore<IDBCursorWithValue | null>(projectId, 'images', 'readonly', store => store.index('createdAt').openCursor(null, 'prev'));
+    return {
+        images: await count('images'),
+        prompts: await count('prompts'),
+        products: await count('products'),
+        cover: (newest?.value as LibraryImage | undefined)?.blob ?? null,
+    };
+};
+
+/**
+ * Creates an empty project. Like a fresh install, it starts with the default filter presets.
+ */
+export const createProject = (name: string): Promise<Project> =>
+    putProject({ id: crypto.randomUUID(), name: name.trim() || 'Untitled project', createdAt: Date.now(), lastOpenedAt: 0 });
+
+/**
+ * Renames a project. A blank name keeps the current one.
+ */
+export const renameProject = (project: Project, name: string): Promise<Project> =>
+    putProject({ ...project, name: name.trim() || project.name });
+
+/**
+ * Makes a project the one the rest of the app reads from and saves to, and marks it as recently opened.
+ */
+export const openProject = async (project: Project): Promise<Project> => {
+    setActiveProject(project.id);
+    return putProject({ ...project, lastOpenedAt: Date.now() });
+};
+
+// Replaces everything in a new project's stores, including the seeded filter presets.
+const fillProject = async (projectId: string, records: Partial<Record<typeof PROJECT_STORES[number], unknown[]>>) => {
+    for (const storeName of PROJECT_STORES) {
+        await withProjectStore(projectId, storeName, 'readwrite', store => {
+            store.clear();
+            (records[storeName] ?? []).forEach(record => store.put(record));
+        });
+    }
+};
+
+// Creates a project from its data. A project that fails to fill is removed again, rather than
+// left half-made.
+const createFilledProject = async (name: string, records: Parameters<typeof fillProject>[1]): Promise<Project> => {
+    const project: Project = { id: crypto.randomUUID(), name, createdAt: Date.now(), lastOpenedAt: 0 };
+    try {
+        await fillProject(project.id, records);
+    } catch (err) {
+        await deleteProjectData(project.id).catch(() => {});
+        throw err;
+    }
+    return putProject(project);
+};
+
+/**
+ * Copies a project with everything in it. Records keep their ids, which are only unique
+ * within a project, so edit history carries over.
+ */
+export const duplicateProject = async (project: Project): Promise<Project> => {
+    const records: Parameters<typeof fillProject>[1] = {};
+    for (const storeName of PROJECT_STORES) {
+        records[storeName] = await withProjectStore<unknown[]>(project.id, storeName, 'readonly', store => store.getAll());
+    }
+    return createFilledProject(`${project.name} copy`, records);
+};
+
+/**
+ * Permanently removes a project and everything in it.
+ */
+export const deleteProject = async (project: Project): Promise<void> => {
+    await deleteProjectData(project.id);
+    await withStore('projects', 'readwrite', store => { store.delete(project.id); });
+};
+
+/**
+ * Bundles a whole project into a ZIP archive: its images and product cutouts as files, and
+ * everything else in a `project.json` manifest that `importProject` reads back.
+ */
+export const exportProject = async (project: Project): Promise<Blob> => {
+    const getAll = <T>(storeName: typeof PROJECT_STORES[number]) =>
+        withProjectStore<T[]>(project.id, storeName, 'readonly', store => store.getAll());
+    const images = await getAll<LibraryImage>('images');
+    const products = await getAll<Product>('products');
+    const imageFile = (image: LibraryImage) => `images/${image.id}.${extensionForMimeType(image.mimeType)}`;
+    const productFile = (product: Product) => `products/${product.id}.${extensionForMimeType(product.image.type)}`;
+    const layerFile = (image: LibraryImage, layer: ImageLayer) =>
+        `layers/${image.id}-${layer.id}.${extensionForMimeType(layer.image.type)}`;
+    const imageLayers = (image: LibraryImage) =>
+        (image.layers ?? []).filter((layer): layer is ImageLayer => layer.kind === 'image');
+    const manifest = {
+        format: EXPORT_FORMAT,
+        version: EXPORT_VERSION,
+        name: project.name,
+        createdAt: project.createdAt,
+        images: images.map(image => {
+            const { blob, ...details } = image;
+            // Layer pictures are files of their own too.
+            const layers = (image.layers ?? []).map(layer => {
+                if (layer.kind !== 'image') return layer;
+                const { image: picture, ...layerDetails } = layer;
+                return { ...layerDetails, mimeType: picture.type, file: layerFile(image, layer) };
+            });
+            return { ...details, layers, file: imageFile(image) };
+        }),
+        products: products.map(product => {
+            const { image, ...details } = product;
+            return { ...details, mimeType: image.type, file: productFile(product) };
+        }),
+        prompts: await getAll<SavedPrompt>('prompts'),
+        filters: await getAll<FilterPreset>('filters'),
+    };
+    return createZip([
+        { name: MANIFEST_FILE, data: JSON.stringify(manifest, null, 2) },
+        ...images.map(image => ({ name: imageFile(image), data: image.blob, lastModified: image.createdAt })),
+        ...products.map(product => ({ name: productFile(product), data: product.image, lastModified: product.createdAt })),
+        ...images.flatMap(image => imageLayers(image).map(layer => ({ name: layerFile(image, layer), data: layer.image, lastModified: image.createdAt }))),
+    ]);
+};
+
+// How records are written into the manifest: their pictures are files in the archive,
+// named here along with their types.
+type ManifestImageLayer = Omit<ImageLayer, 'image'> & { file: string; mimeType: string };
+type ManifestLayer = Exclude<Layer, ImageLayer> | ManifestImageLayer;
+type ManifestImage = Omit<LibraryImage, 'blob' | 'layers'> & { file: string; layers?: unknown };
+type ManifestProduct = Omit<Product, 'image'> & { file: string; mimeType: string };
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Checks the fields importing relies on. Other fields are taken as exported, since this app wrote them.
+const hasFields = (value: unknown, fields: Record<string, 'string' | 'number'>): value is Record<string, unknown> =>
+    isRecord(value) && Object.entries(fields).every(([field, type]) => typeof value[field] === type);
+
+const isManifestImage = (value: unknown): value is ManifestImage =>
+    hasFields(value, { id: 'string', createdAt: 'number', file: 'string', mimeType: 'string' });
+
+const isManifestLayer = (value: unknown): value is ManifestLayer =>
+    hasFields(value, { id: 'string', kind: 'string' }) && (value.kind !== 'image' || hasFields(value, { file: 'string', mimeType: 'string' }));
+
+const isManifestProduct = (value: unknown): value is ManifestProduct =>
+    hasFields(value, { id: 'string', createdAt: 'number', file: 'string', mimeType: 'string' });
+
+const isSavedPrompt = (value: unknown): value is SavedPrompt => hasFields(value, { id: 'string', createdAt: 'number' });
+
+const isFilterPreset = (value: unknown): value is FilterPreset => hasFields(value, { id: 'string' });
+
+// Reads one list from the manifest, naming the first entry that is not what the export wrote.
+const readManifestList = <T>(list: unknown, isEntry: (entry: unknown) => entry is T, where: string): T[] => {
+    if (list === undefined) return [];
+    if (!Array.isArray(list)) throw new Error(`${where} are not a list.`);
+    return list.map((entry: unknown, index) => {
+        if (isEntry(entry)) return entry;
+        const id = isRecord(entry) && typeof entry.id === 'string' ? ` (${entry.id})` : '';
+        throw new Error(`${where} entry ${index + 1}${id} is incomplete or damaged.`);
+    });
+};
+
+/**
+ * Creates a new project from an archive written by `exportProject`. Importing the same archive
+ * twice creates two projects.
+ * @returns A promise that resolves to the new project.
+ */
+export const importProject = async (file: File): Promise<Project> => {
+    const entries = await readZip(file);
+    const files = new Map(entries.map(entry => [entry.name, entry.data]));
+    const manifestFile = files.get(MANIFEST_FILE);
+    if (!manifestFile) {
+        throw new Error(`${file.name} is not a project export.`);
+    }
+    let manifest: unknown;
+    try {
+        manifest = JSON.parse(await manifestFile.text());
+    } catch {
+        throw new Error(`${file.name} has a damaged ${MANIFEST_FILE}.`);
+    }
+    if (!isRecord(manifest) || manifest.format !== EXPORT_FORMAT) {
+        throw new Error(`${file.name} is not a project export.`);
+    }
+    if (typeof manifest.version === 'number' && manifest.version > EXPORT_VERSION) {
+        throw new Error(`${file.name} was exported by a newer version of the app.`);
+    }
+    const where = (section: string) => `${file.name}: ${section}`;
+    // Blobs read from an archive have no type, so restore the one recorded in the manifest.
+    const readFile = (name: string, type: string) => {
+        const data = files.get(name);
+        if (!data) throw new Error(`${file.name} is missing ${name}.`);
+        return new Blob([data], { type });
+    };
+    const readLayer = (layer: ManifestLayer): Layer => {
+        if (layer.kind !== 'image') return layer;
+        const { file: name, mimeType, ...details } = layer;
+        return { ...details, image: readFile(name, mimeType) };
+    };
+    const images: LibraryImage[] = readManifestList(manifest.images, isManifestImage, where('images'))
+        .map(({ file: name, layers, ...image }) => ({
+            ...image,
+            blob: readFile(name, image.mimeType),
+            layers: readManifestList(layers, isManifestLayer, where(`the layers of image ${image.id}`)).map(readLayer),
+        }));
+    const products: Product[] = readManifestList(manifest.products, isManifestProduct, where('products'))
+        .map(({ file: name, mimeType, ...product }) => ({ ...product, image: readFile(name, mimeType) }));
+    return createFilledProject(String(manifest.name || file.name.replace(/\.zip$/i, '')), {
+        images,
+        products,
+        prompts: readManifestList(manifest.prompts, isSavedPrompt, where('prompts')),
+        filters: readManifestList(manifest.filters, isFilterPreset, where('filters')),
+    });
+};
@@ -0,0 +1,119 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { SavedPrompt } from '../types';
+import { withStore } from './db';
+
+// Unstarred prompts are history: only the most recently used are kept.
+const MAX_HISTORY = 50;
+
+/** The most prompts a wildcard template may expand into at once. */
+export const MAX_PROMPT_BATCH = 16;
+
+const PLACEHOLDER_PATTERN = /\{([^{}]+)\}/g;
+
+/**
+ * Lists the variables a template uses, in the order they first appear.
+ * @example templateVariables('{subject} in {style} lighting') // ['subject', 'style']
+ */
+export const templateVariables = (text: string): string[] =>
+    [...new Set([...text.matchAll(PLACEHOLDER_PATTERN)].map(match => match[1].trim()).filter(Boolean))];
+
+/**
+ * Replaces each `{name}` placeholder with its value. Placeholders without a value are left as they are.
+ */
+export const fillTemplate = (text: string, values: Record<string, string>): string =>
+    text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => values[name.trim()]?.trim() || placeholder);
+
+/**
+ * Splits a wildcard value such as "red | green | blue" into its alternatives.
+ */
+export const splitWildcard = (value: string): string[] =>
+    [...new Set(value.split('|').map(part => part.trim()).filter(Boolean))];
+
+/**
+ * How many prompts a wildcard template expands into: one for every combination of alternatives.
+ */
+export const countExpansions = (text: string, values: Record<string, string>): number =>
+    templateVariables(text).reduce((count, name) => count * Math.max(1, splitWildcard(values[name] ?? '').length), 1);
+
+/**
+ * Expands a template into every combination of its variables' wildcard alternatives.
+ * @example expandTemplate('a {animal}', { animal: 'cat | dog' }) // ['a cat', 'a dog']
+ */
+export const expandTemplate = (text: string, values: Record<string, string>): string[] =>
+    templateVariables(text).reduce<Record<string, string>[]>(
+        (combinations, name) => {
+            const alternatives = splitWildcard(values[name] ?? '');
+            if (alternatives.length === 0) return combinations;
+            return combinations.flatMap(combination => alternatives.map(alternative => ({ ...combination, [name]: alternative })));
+        },
+        [{}],
+    ).map(combination => fillTemplate(text, combination));
+
+/**
+ * Whether a prompt matches every word of a search query, by its text or its tags.
+ * Words starting with `#` only match tags.
+ */
+export const matchesPrompt = (prompt: SavedPrompt, query: string): boolean =>
+    query.toLowerCase().split(/\s+/).filter(Boolean).every(term => (term.startsWith('#')
+        ? prompt.tags.some(tag => tag.startsWith(term.slice(1)))
+        : prompt.text.toLowerCase().includes(term) || prompt.tags.some(tag => tag.includes(term))));
+
+/**
+ * Lists the prompt library, most recently used first.
+ */
+export const listPrompts = async (): Promise<SavedPrompt[]> => {
+    const prompts = await withStore<SavedPrompt[]>('prompts', 'readonly', store => store.index('lastUsedAt').getAll());
+    return prompts.reverse();
+};
+
+/**
+ * Creates or updates a prompt.
+ */
+export const savePrompt = async (prompt: SavedPrompt): Promise<void> => {
+    await withStore('prompts', 'readwrite', store => { store.put(prompt); });
+};
+
+/**
+ * Permanently removes a prompt from the library.
+ */
+export const deletePrompt = async (id: string): Promise<void> => {
+    await withStore('prompts', 'readwrite', store => { store.delete(id); });
+};
+
+/**
+ * Finds the saved entry for a prompt's text, or creates a new unstarred one, and applies changes to it.
+ * Unstarred prompts beyond the history limit are pruned, oldest first.
+ * @returns A promise that resolves to the whole library, most recently used first.
+ */
+export const upsertPrompt = async (text: string, update: (prompt: SavedPrompt) => SavedPrompt): Promise<SavedPrompt[]> => {
+    const trimmed = text.trim();
+    const prompts = await listPrompts();
+    const now = Date.now();
+    const existing = prompts.find(prompt => prompt.text === trimmed);
+    const updated = update(existing ?? {
+        id: crypto.randomUUID(),
+        text: trimmed,
+        starred: false,
+        tags: [],
+        useCount: 0,
+        createdAt: now,
+        lastUsedAt: now,
+    });
+    const next = [updated, ...prompts.filter(prompt => prompt.id !== updated.id)].sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+    const pruned = next.filter(prompt => !prompt.starred).slice(MAX_HISTORY);
+    await withStore('prompts', 'readwrite', store => {
+        store.put(updated);
+        pruned.forEach(prompt => store.delete(prompt.id));
+    });
+    return next.filter(prompt => !pruned.includes(prompt));
+};
+
+/**
+ * Records that a prompt was sent, adding it to the history if it is new.
+ */
+export const recordPromptUse = (text: string): Promise<SavedPrompt[]> =>
+    upsertPrompt(text, prompt => ({ ...prompt, useCount: prompt.useCount + 1, lastUsedAt: Date.now() }));
@@ -0,0 +1,115 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// The `beforeinstallprompt` event is not part of the standard DOM typings yet.
+interface BeforeInstallPromptEvent extends Event {
+    prompt: () => Promise<void>;
+    userChoice: Promise<{ outcome: 'accepted' | 'dismissed' }>;
+}
+
+type Listener = (available: boolean) => void;
+
+let waitingWorker: ServiceWorker | null = null;
+let isUpdateRequested = false;
+let installPrompt: BeforeInstallPromptEvent | null = null;
+const updateListeners = new Set<Listener>();
+const installListeners = new Set<Listener>();
+
+const notify = (listeners: Set<Listener>, available: boolean) => {
+    listeners.forEach(listener => listener(available));
+};
+
+const trackWaitingWorker = (worker: ServiceWorker | null) => {
+    // A waiting worker only means "update" if a previous version already controls the page;
+    // on first install there is nothing to update from.
+    if (!worker || !navigator.serviceWorker.controller) return;
+    waitingWorker = worker;
+    notify(updateListeners, true);
+};
+
+/**
+ * Registers the app-shell service worker and starts listening for install prompts.
+ * Only runs in production builds, since /sw.js is emitted by the build step.
+ */
+export const registerServiceWorker = () => {
+    window.addEventListener('beforeinstallprompt', (event) => {
+        event.preventDefault();
+        installPrompt = event as BeforeInstallPromptEvent;
+        notify(installListeners, true);
+    });
+    window.addEventListener('appinstalled', () => {
+        installPrompt = null;
+        notify(installListeners, false);
+    });
+
+    if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+    // The worker claims open pages when it activates. On first install that just takes control
+    // quietly; only a page already running an older version reloads to pick up the new one.
+    const hadController = navigator.serviceWorker.controller !== null;
+    let isReloading = false;
+    navigator.serviceWorker.addEventListener('controllerchange', () => {
+        if (isReloading || !(hadController || isUpdateRequested)) return;
+        isReloading = true;
+        window.location.reload();
+    });
+
+    window.addEventListener('load', async () => {
+        try {
+            const registration = await navigator.serviceWorker.register('/sw.js');
+            trackWaitingWorker(registration.waiting);
+            registration.addEventListener('updatefound', () => {
+                const installing = registration.installing;
+                installing?.addEventListener('statechange', () => {
+                    if (installing.state === 'installed') {
+                        trackWaitingWorker(installing);
+                    }
+                });
+            });
+        } catch (err) {
+            console.error('Service worker registration failed.', err);
+        }
+    });
+};
+
+/**
+ * Subscribes to "new version available" notifications.
+ * @returns A function that removes the listener.
+ */
+export const onUpdateAvailable = (listener: Listener): (() => void) => {
+    updateListeners.add(listener);
+    if (waitingWorker) listener(true);
+    return () => updateListeners.delete(listener);
+};
+
+/**
+ * Activates the waiting service worker. The page reloads once it takes control.
+ */
+export const applyUpdate = () => {
+    isUpdateRequested = true;
+    waitingWorker?.postMessage({ type: 'SKIP_WAITING' });
+};
+
+/**
+ * Subscribes to changes in whether the browser will let us show an install prompt.
+ * @returns A function that removes the listener.
+ */
+export const onInstallAvailable = (listener: Listener): (() => void) => {
+    installListeners.add(listener);
+    listener(installPrompt !== null);
+    return () => installListeners.delete(listener);
+};
+
+/**
+ * Shows the browser's native install prompt, if one has been offered.
+ */
+export const promptInstall = async () => {
+    if (!installPrompt) return;
+    const prompt = installPrompt;
+    installPrompt = null;
+    notify(installListeners, false);
+    await prompt.prompt();
+    await prompt.userChoice;
+};
@@ -0,0 +1,172 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { AspectRatio } from '../types';
+
+// Settings chosen in the app rather than at build time: how to reach Gemini and with which
+// API key, which models to call and the defaults for new generations. They are kept in this
+// browser's localStorage. The key can be encrypted with a passphrase; it is then unlocked once
+// per session and only the encrypted form is ever written to storage.
+
+const SETTINGS_STORAGE_KEY = 'settings';
+const API_KEY_STORAGE_KEY = 'apiKey';
+const PBKDF2_ITERATIONS = 250_000;
+const DEFAULT_PROXY_URL = 'http://localhost:8787/api';
+
+/**
+ * How requests reach Gemini: 'direct' sends them from the browser with the stored API key;
+ * 'proxy' sends them to the server in server/, which holds the key.
+ */
+export type ConnectionMode = 'direct' | 'proxy';
+
+export interface AppSettings {
+    connection: {
+        mode: ConnectionMode;
+        proxyUrl: string;
+        /** Identifies the user to the proxy, when it requires tokens. */
+        proxyToken: string;
+    };
+    /** The text-to-image model, or null for the provider's default. */
+    generateModel: string | null;
+    /** The image editing model, or null for the provider's default. */
+    editModel: string | null;
+    /** What a new session starts with in the generate panel. */
+    defaults: {
+        aspectRatio: AspectRatio;
+        numberOfImages: number;
+    };
+}
+
+/**
+ * Whether an API key is stored, and whether it can be used right now: an encrypted key is
+ * 'locked' until `unlockApiKey` is called with its passphrase.
+ */
+export type ApiKeyStatus = 'none' | 'stored' | 'locked' | 'unlocked';
+
+type StoredApiKey =
+    | { kind: 'plain'; key: string }
+    | { kind: 'encrypted'; salt: string; iv: string; ciphertext: string };
+
+// Deployments that set GEMINI_PROXY_URL at build time use the proxy unless a user changes it.
+export const DEFAULT_SETTINGS: AppSettings = {
+    connection: {
+        mode: process.env.GEMINI_PROXY_URL ? 'proxy' : 'direct',
+        proxyUrl: process.env.GEMINI_PROXY_URL || DEFAULT_PROXY_URL,
+        proxyToken: '',
+    },
+    generateModel: null,
+    editModel: null,
+    defaults: { aspectRatio: '1:1', numberOfImages: 1 },
+};
+
+/**
+ * The saved settings, with anything missing filled in from the defaults.
+ */
+export const getSettings = (): AppSettings => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) ?? '{}') as Partial<AppSettings>;
+        return {
+            ...DEFAULT_SETTINGS,
+            ...saved,
+            connection: { ...DEFAULT_SETTINGS.connection, ...saved.connection },
+            defaults: { ...DEFAULT_SETTINGS.defaults, ...saved.defaults },
+        };
+    } catch {
+        return DEFAULT_SETTINGS;
+    }
+};
+
+/**
+ * Saves settings. Requests read them as they are sent, so changes apply to the next call.
+ */
+export const saveSettings = (settings: AppSettings) => {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+const readStoredApiKey = (): StoredApiKey | null => {
+    try {
+        return JSON.parse(localStorage.getItem(API_KEY_STORAGE_KEY) ?? 'null');
+    } catch {
+        return null;
+    }
+};
+
+// The decrypted key, held in memory for the rest of the session.
+let unlockedApiKey: string | null = null;
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array) => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt'],
+    );
+};
+
+export const getApiKeyStatus = (): ApiKeyStatus => {
+    const stored = readStoredApiKey();
+    if (!stored) return 'none';
+    if (stored.kind === 'plain') return 'stored';
+    return unlockedApiKey === null ? 'locked' : 'unlocked';
+};
+
+/**
+ * The API key to send requests with, or null when none is stored or it is still locked.
+ */
+export const getApiKey = (): string | null => {
+    const stored = readStoredApiKey();
+    if (!stored) return null;
+    return stored.kind === 'plain' ? stored.key : unlockedApiKey;
+};
+
+/**
+ * Stores an API key, replacing any stored before.
+ * @param passphrase When given, the key is encrypted with it (AES-GCM, with a key derived
+ *     by PBKDF2) and the passphrase is needed again in each new session.
+ */
+export const saveApiKey = async (apiKey: string, passphrase?: string): Promise<void> => {
+    let stored: StoredApiKey = { kind: 'plain', key: apiKey };
+    if (passphrase) {
+        const salt = crypto.getRandomValues(new Uint8Array(16));
+        const iv = crypto.getRandomValues(new Uint8Array(12));
+        const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await deriveKey(passphrase, salt), new TextEncoder().encode(apiKey));
+        stored = { kind: 'encrypted', salt: toBase64(salt), iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(ciphertext)) };
+    }
+    localStorage.setItem(API_KEY_STORAGE_KEY, JSON.stringify(stored));
+    unlockedApiKey = apiKey;
+};
+
+/**
+ * Decrypts the stored key for the rest of the session.
+ * @throws If no encrypted key is stored or the passphrase is wrong.
+ */
+export const unlockApiKey = async (passphrase: string): Promise<void> => {
+    const stored = readStoredApiKey();
+    if (stored?.kind !== 'encrypted') throw new Error('There is no encrypted API key to unlock.');
+    try {
+        const plaintext = await crypto.subtle.decrypt(
+            { name: 'AES-GCM', iv: fromBase64(stored.iv) },
+            await deriveKey(passphrase, fromBase64(stored.salt)),
+            fromBase64(stored.ciphertext),
+        );
+        unlockedApiKey = new TextDecoder().decode(plaintext);
+    } catch {
+        // AES-GCM fails authentication, rather than returning garbage, when the key is wrong.
+        throw new Error('That passphrase does not unlock the stored API key.');
+    }
+};
+
+/**
+ * Removes the stored key from this browser.
+ */
+export const forgetApiKey = () => {
+    localStorage.removeItem(API_KEY_STORAGE_KEY);
+    unlockedApiKey = null;
+};
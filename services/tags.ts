@@ -0,0 +1,10 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Splits comma-separated tags into a clean, de-duplicated list.
+ */
+export const parseTags = (text: string): string[] =>
+    [...new Set(text.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean))];
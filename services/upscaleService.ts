@@ -0,0 +1,259 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ImageProvider } from './imageProvider';
+import { createCanvas, loadImage } from './imageUtils';
+
+// Two upscaling paths. The local one is a deterministic Lanczos resample that never leaves
+// the browser. The AI one starts from that resample, then asks the edit model to restore
+// detail one overlapping tile at a time and cross-fades the tiles where they overlap, so the
+// model only ever sees a tile it can return at full quality.
+
+export type UpscaleFactor = 2 | 4;
+export type UpscaleMethod = 'local' | 'ai';
+
+export const UPSCALE_FACTORS: UpscaleFactor[] = [2, 4];
+/** The longest edge an upscaled image may have, matching the export limit. */
+export const MAX_UPSCALE_EDGE = 8192;
+/** The most tiles one AI upscale may send to the provider. */
+export const MAX_UPSCALE_TILES = 25;
+
+const LANCZOS_LOBES = 3;
+// How long resampling may hold the main thread before letting the page respond.
+const RESAMPLE_SLICE_MS = 16;
+const TILE_SIZE = 1024;
+const TILE_OVERLAP = 128;
+
+const TILE_PROMPT = [
+    'This is one tile of a photo that has been enlarged and looks soft.',
+    'Restore crisp, natural fine detail and texture, and remove blur and compression artefacts.',
+    'Do not add, remove, move or restyle anything; keep the colours, lighting, composition and framing exactly the same.',
+].join(' ');
+
+/**
+ * The size of an image after upscaling.
+ */
+export const upscaledSize = (width: number, height: number, factor: UpscaleFactor) => ({
+    width: width * factor,
+    height: height * factor,
+});
+
+// Where tiles start along one edge. Tiles overlap by at least TILE_OVERLAP, and the last
+// one is pulled back to end flush with the edge so every tile has the full size.
+const tileOffsets = (size: number): number[] => {
+    if (size <= TILE_SIZE) return [0];
+    const offsets: number[] = [];
+    for (let offset = 0; offset + TILE_SIZE < size; offset += TILE_SIZE - TILE_OVERLAP) {
+        offsets.push(offset);
+    }
+    offsets.push(size - TILE_SIZE);
+    return offsets;
+};
+
+/**
+ * How many tiles an AI upscale of an image this size sends to the provider.
+ */
+export const countUpscaleTiles = (width: number, height: number, factor: UpscaleFactor): number => {
+    const target = upscaledSize(width, height, factor);
+    return tileOffsets(target.width).length * tileOffsets(target.height).length;
+};
+
+const sinc = (x: number) => (x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x));
+const lanczos = (x: number) => (Math.abs(x) < LANCZOS_LOBES ? sinc(x) * sinc(x / LANCZOS_LOBES) : 0);
+
+// For each output position along one axis, the source pixels that contribute to it and
+// their normalised weights. Edge pixels are repeated rather than read past the border.
+const resampleKernel = (sourceSize: number, targetSize: number) => {
+    const scale = targetSize / sourceSize;
+    // When shrinking, the kernel is stretched so it averages every source pixel it covers.
+    const stretch = Math.max(1, 1 / scale);
+    const radius = LANCZOS_LOBES * stretch;
+    const taps = Math.ceil(radius) * 2 + 1;
+    const indices = new Int32Array(targetSize * taps);
+    const weights = new Float32Array(targetSize * taps);
+    for (let i = 0; i < targetSize; i++) {
+        const center = (i + 0.5) / scale - 0.5;
+        const first = Math.floor(center - radius) + 1;
+        let total = 0;
+        for (let k = 0; k < taps; k++) {
+            const weight = lanczos((first + k - center) / stretch);
+            indices[i * taps + k] = Math.min(sourceSize - 1, Math.max(0, first + k));
+            weights[i * taps + k] = weight;
+            total += weight;
+        }
+        for (let k = 0; k < taps; k++) weights[i * taps + k] /= total;
+    }
+    return { taps, indices, weights };
+};
+
+// Called between rows of a long computation: stops it once the signal is aborted, and yields
+// to the event loop whenever the current slice has run long enough.
+const createRowBreak = (signal?: AbortSignal) => {
+    let sliceStart = performance.now();
+    return async () => {
+        signal?.throwIfAborted();
+        if (performance.now() - sliceStart < RESAMPLE_SLICE_MS) return;
+        await new Promise(resolve => setTimeout(resolve, 0));
+        signal?.throwIfAborted();
+        sliceStart = performance.now();
+    };
+};
+
+/**
+ * Resamples pixels with a separable Lanczos-3 filter. Colours are weighted by alpha while
+ * filtering, so transparent pixels do not bleed dark fringes into their neighbours. The work
+ * is done in short slices, so the page stays responsive and the signal can stop it midway.
+ */
+export const lanczosResample = async (source: ImageData, width: number, height: number, signal?: AbortSignal): Promise<ImageData> => {
+    const { width: sourceWidth, height: sourceHeight, data: input } = source;
+    const rowBreak = createRowBreak(signal);
+
+    // Horizontal pass: sourceWidth x sourceHeight -> width x sourceHeight.
+    const horizontal = resampleKernel(sourceWidth, width);
+    const rows = new Float32Array(width * sourceHeight * 4);
+    for (let y = 0; y < sourceHeight; y++) {
+        await rowBreak();
+        const rowStart = y * sourceWidth;
+        for (let x = 0; x < width; x++) {
+            let r = 0, g = 0, b = 0, a = 0;
+            for (let k = 0; k < horizontal.taps; k++) {
+                const weight = horizontal.weights[x * horizontal.taps + k];
+                if (weight === 0) continue;
+                const p = (rowStart + horizontal.indices[x * horizontal.taps + k]) * 4;
+                const alpha = input[p + 3];
+                r += input[p] * alpha * weight;
+                g += input[p + 1] * alpha * weight;
+                b += input[p + 2] * alpha * weight;
+                a += alpha * weight;
+            }
+            const q = (y * width + x) * 4;
+            rows[q] = r;
+            rows[q + 1] = g;
+            rows[q + 2] = b;
+            rows[q + 3] = a;
+        }
+    }
+
+    // Vertical pass: width x sourceHeight -> width x height, undoing the alpha weighting.
+    const vertical = resampleKernel(sourceHeight, height);
+    const output = new ImageData(width, height);
+    const out = output.data;
+    for (let y = 0; y < height; y++) {
+        await rowBreak();
+        for (let x = 0; x < width; x++) {
+            let r = 0, g = 0, b = 0, a = 0;
+            for (let k = 0; k < vertical.taps; k++) {
+                const weight = vertical.weights[y * vertical.taps + k];
+                if (weight === 0) continue;
+                const p = (vertical.indices[y * vertical.taps + k] * width + x) * 4;
+                r += rows[p] * weight;
+                g += rows[p + 1] * weight;
+                b += rows[p + 2] * weight;
+                a += rows[p + 3] * weight;
+            }
+            const q = (y * width + x) * 4;
+            if (a > 0) {
+                out[q] = r / a;
+                out[q + 1] = g / a;
+                out[q + 2] = b / a;
+            }
+            out[q + 3] = a;
+        }
+    }
+    return output;
+};
+
+// Loads an image and resamples it to `factor` times its size, refusing sizes the browser
+// or the export path could not handle.
+const resampleToCanvas = async (imageUrl: string, factor: UpscaleFactor, signal?: AbortSignal) => {
+    const image = await loadImage(imageUrl);
+    const { width, height } = upscaledSize(image.naturalWidth, image.naturalHeight, factor);
+    if (Math.max(width, height) > MAX_UPSCALE_EDGE) {
+        throw new Error(`Upscaling ${factor}× would make the image ${width} × ${height} px; the limit is ${MAX_UPSCALE_EDGE} px per edge.`);
+    }
+    const { ctx: sourceCtx } = createCanvas(image.naturalWidth, image.naturalHeight);
+    sourceCtx.drawImage(image, 0, 0);
+    const pixels = await lanczosResample(sourceCtx.getImageData(0, 0, image.naturalWidth, image.naturalHeight), width, height, signal);
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.putImageData(pixels, 0, 0);
+    return canvas;
+};
+
+// Encodes the result and checks it decodes at the size that was asked for, so a canvas
+// silently clamped by the browser is reported instead of saved as an "upscale".
+const toVerifiedDataUrl = async (canvas: HTMLCanvasElement, width: number, height: number): Promise<string> => {
+    const dataUrl = canvas.toDataURL('image/png');
+    const result = await loadImage(dataUrl).catch(() => null);
+    if (!result || result.naturalWidth !== width || result.naturalHeight !== height) {
+        throw new Error(`The upscaled image came out at the wrong size; expected ${width} × ${height} px.`);
+    }
+    return dataUrl;
+};
+
+/**
+ * Upscales an image in the browser with Lanczos resampling. The result is deterministic and
+ * adds no detail that was not there, but it stays sharper than the browser's own scaling.
+ * @returns A promise that resolves to the upscaled image as a PNG data URL.
+ */
+export const upscaleLocally = async (imageUrl: string, factor: UpscaleFactor, signal?: AbortSignal): Promise<string> => {
+    const canvas = await resampleToCanvas(imageUrl, factor, signal);
+    return toVerifiedDataUrl(canvas, canvas.width, canvas.height);
+};
+
+/**
+ * Upscales an image by resampling it, then having the edit model restore detail in
+ * overlapping tiles whose seams are cross-faded.
+ * @param provider The provider to send the tiles to, one request per tile.
+ * @returns A promise that resolves to the upscaled image as a PNG data URL.
+ */
+export const upscaleWithTiles = async (
+    provider: ImageProvider,
+    { imageUrl, factor, signal }: { imageUrl: string; factor: UpscaleFactor; signal?: AbortSignal },
+): Promise<string> => {
+    const base = await resampleToCanvas(imageUrl, factor, signal);
+    const { width, height } = base;
+    const xs = tileOffsets(width);
+    const ys = tileOffsets(height);
+    if (xs.length * ys.length > MAX_UPSCALE_TILES) {
+        throw new Error(`This image would need ${xs.length * ys.length} tiles; the limit is ${MAX_UPSCALE_TILES}. Try 2× or the local upscaler.`);
+    }
+    const tileWidth = Math.min(TILE_SIZE, width);
+    const tileHeight = Math.min(TILE_SIZE, height);
+
+    const { canvas: output, ctx: outputCtx } = createCanvas(width, height);
+    outputCtx.drawImage(base, 0, 0);
+    // Tiles are placed left to right, top to bottom, so each one only fades in over the
+    // tiles already placed to its left and above.
+    for (const [row, y] of ys.entries()) {
+        for (const [column, x] of xs.entries()) {
+            signal?.throwIfAborted();
+            const { canvas: tile, ctx: tileCtx } = createCanvas(tileWidth, tileHeight);
+            tileCtx.drawImage(base, x, y, tileWidth, tileHeight, 0, 0, tileWidth, tileHeight);
+            const edited = await loadImage(await provider.editImage({ image: tile.toDataURL('image/png'), prompt: TILE_PROMPT, signal }));
+
+            const { canvas: layer, ctx: layerCtx } = createCanvas(tileWidth, tileHeight);
+            layerCtx.drawImage(edited, 0, 0, tileWidth, tileHeight);
+            layerCtx.globalCompositeOperation = 'destination-in';
+            const fadeLeft = column > 0 ? xs[column - 1] + tileWidth - x : 0;
+            if (fadeLeft > 0) {
+                const gradient = layerCtx.createLinearGradient(0, 0, fadeLeft, 0);
+                gradient.addColorStop(0, 'rgba(255, 255, 255, 0)');
+                gradient.addColorStop(1, 'rgba(255, 255, 255, 1)');
+                layerCtx.fillStyle = gradient;
+                layerCtx.fillRect(0, 0, tileWidth, tileHeight);
+            }
+            const fadeTop = row > 0 ? ys[row - 1] + tileHeight - y : 0;
+            if (fadeTop > 0) {
+                const gradient = layerCtx.createLinearGradient(0, 0, 0, fadeTop);
+                gradient.addColorStop(0, 'rgba(255, 255, 255, 0)');
+                gradient.addColorStop(1, 'rgba(255, 255, 255, 1)');
+                layerCtx.fillStyle = gradient;
+                layerCtx.fillRect(0, 0, tileWidth, tileHeight);
+            }
+            outputCtx.drawImage(layer, x, y);
+        }
+    }
+    return toVerifiedDataUrl(output, width, height);
+};
@@ -0,0 +1,201 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { GenerationMetadata, UsageRecord } from '../types';
+import { withStore } from './db';
+import type { ImageProvider } from './imageProvider';
+
+// Every model call is logged with what it reported about itself, so the app can show what
+// was used and roughly what it cost. Costs are estimates from list prices; the provider's
+// own billing is the source of truth.
+
+const BUDGET_STORAGE_KEY = 'dailyBudget';
+// What a token-priced model typically bills for one returned image, for estimating a call
+// before it is made.
+const OUTPUT_TOKENS_PER_IMAGE = 1290;
+
+interface ModelPricing {
+    perImage?: number;
+    perMillionInputTokens?: number;
+    perMillionOutputTokens?: number;
+}
+
+// List prices in US dollars. Models missing here, such as the offline mock, count as free.
+const MODEL_PRICING: Record<string, ModelPricing> = {
+    'imagen-4.0-generate-001': { perImage: 0.04 },
+    'imagen-4.0-fast-generate-001': { perImage: 0.02 },
+    'imagen-4.0-ultra-generate-001': { perImage: 0.06 },
+    'imagen-3.0-generate-002': { perImage: 0.03 },
+    'gemini-2.5-flash-image-preview': { perMillionInputTokens: 0.3, perMillionOutputTokens: 30 },
+    'gemini-2.5-flash-image': { perMillionInputTokens: 0.3, perMillionOutputTokens: 30 },
+};
+
+/** Usage added up over a group of calls, such as one day or one model. */
+export interface UsageSummary {
+    key: string;
+    calls: number;
+    images: number;
+    inputTokens: number;
+    outputTokens: number;
+    cost: number;
+    /** Summed over all calls; divide by `calls` for the average. */
+    latencyMs: number;
+}
+
+/**
+ * Estimates what a call cost, in US dollars.
+ */
+export const estimateCost = (metadata: GenerationMetadata): number => {
+    const pricing = MODEL_PRICING[metadata.model];
+    if (!pricing) return 0;
+    return (pricing.perImage ?? 0) * metadata.usage.images
+        + ((pricing.perMillionInputTokens ?? 0) * (metadata.usage.inputTokens ?? 0)) / 1_000_000
+        + ((pricing.perMillionOutputTokens ?? 0) * (metadata.usage.outputTokens ?? 0)) / 1_000_000;
+};
+
+// Estimates what a call will cost before it is made, from the images it asks for. Input
+// tokens are left out: prompts and reference images are cheap next to the output.
+const estimateCallCost = (model: string, images: number): number => {
+    const pricing = MODEL_PRICING[model];
+    if (!pricing) return 0;
+    return (pricing.perImage ?? 0) * images
+        + ((pricing.perMillionOutputTokens ?? 0) * OUTPUT_TOKENS_PER_IMAGE * images) / 1_000_000;
+};
+
+/**
+ * Formats a cost in US dollars, keeping fractions of a cent visible.
+ */
+export const formatCost = (dollars: number): string =>
+    `$${dollars.toFixed(dollars > 0 && dollars < 0.1 ? 3 : 2)}`;
+
+// Calls made under each job's abort signal, so a job can attach the calls it made to its results.
+const callsBySignal = new WeakMap<AbortSignal, GenerationMetadata[]>();
+
+/**
+ * Logs a model call. Providers call this once per successful request. Logging failures are
+ * reported to the console and never fail the request itself.
+ * @param signal The signal the request was sent with, if any; see `takeCalls`.
+ */
+export const recordUsage = async (metadata: GenerationMetadata, signal?: AbortSignal): Promise<void> => {
+    if (signal) callsBySignal.set(signal, [...(callsBySignal.get(signal) ?? []), metadata]);
+    const record: UsageRecord = { ...metadata, id: crypto.randomUUID(), estimatedCost: estimateCost(metadata) };
+    try {
+        await withStore('usage', 'readwrite', store => { store.put(record); });
+    } catch (err) {
+        console.error('Could not record model usage.', err);
+    }
+};
+
+/**
+ * Returns, and forgets, the calls recorded under a signal so far.
+ */
+export const takeCalls = (signal: AbortSignal): GenerationMetadata[] => {
+    const calls = callsBySignal.get(signal) ?? [];
+    callsBySignal.delete(signal);
+    return calls;
+};
+
+/**
+ * Lists recorded calls made at or after a time, oldest first.
+ */
+export const listUsage = (since: number): Promise<UsageRecord[]> =>
+    withStore<UsageRecord[]>('usage', 'readonly', store => store.index('createdAt').getAll(IDBKeyRange.lowerBound(since)));
+
+/**
+ * Permanently removes every recorded call.
+ */
+export const clearUsage = async (): Promise<void> => {
+    await withStore('usage', 'readwrite', store => { store.clear(); });
+};
+
+/**
+ * The local calendar day of a time, as YYYY-MM-DD.
+ */
+export const dayKey = (time: number): string => {
+    const date = new Date(time);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+/**
+ * Midnight, local time, at the start of the day `daysAgo` days before today.
+ */
+export const startOfDay = (daysAgo = 0): number => {
+    const date = new Date();
+    date.setHours(0, 0, 0, 0);
+    date.setDate(date.getDate() - daysAgo);
+    return date.getTime();
+};
+
+/**
+ * Adds up calls by a grouping key, e.g. `record => dayKey(record.createdAt)`.
+ * @returns One summary per key, in the order each key first appears.
+ */
+export const summarizeUsage = (records: UsageRecord[], keyOf: (record: UsageRecord) => string): UsageSummary[] => {
+    const summaries = new Map<string, UsageSummary>();
+    for (const record of records) {
+        const key = keyOf(record);
+        const summary = summaries.get(key) ?? { key, calls: 0, images: 0, inputTokens: 0, outputTokens: 0, cost: 0, latencyMs: 0 };
+        summary.calls += 1;
+        summary.images += record.usage.images;
+        summary.inputTokens += record.usage.inputTokens ?? 0;
+        summary.outputTokens += record.usage.outputTokens ?? 0;
+        summary.cost += record.estimatedCost;
+        summary.latencyMs += record.latencyMs;
+        summaries.set(key, summary);
+    }
+    return [...summaries.values()];
+};
+
+/**
+ * The soft daily spending limit in US dollars, or null when none is set.
+ */
+export const getDailyBudget = (): number | null => {
+    const value = Number(localStorage.getItem(BUDGET_STORAGE_KEY));
+    return value > 0 ? value : null;
+};
+
+/**
+ * Sets the soft daily spending limit, or clears it when given null.
+ */
+export const setDailyBudget = (dollars: number | null) => {
+    if (dollars && dollars > 0) localStorage.setItem(BUDGET_STORAGE_KEY, String(dollars));
+    else localStorage.removeItem(BUDGET_STORAGE_KEY);
+};
+
+// The day and budget the user last agreed to go over, so they are warned once rather than on every call.
+let acknowledgedOverrun: string | null = null;
+
+// Asks before a call that would take today's estimated spend past the budget. Declining
+// cancels the call the same way the jobs drawer does, so no error is shown.
+const confirmWithinBudget = async (model: string, images: number) => {
+    const budget = getDailyBudget();
+    if (budget === null) return;
+    const spent = (await listUsage(startOfDay())).reduce((total, record) => total + record.estimatedCost, 0);
+    const cost = estimateCallCost(model, images);
+    const overrun = `${dayKey(Date.now())}@${budget}`;
+    if (spent + cost <= budget || acknowledgedOverrun === overrun) return;
+    const message = spent >= budget
+        ? `You have spent an estimated ${formatCost(spent)} today, over your ${formatCost(budget)} daily budget.`
+        : `This call costs about ${formatCost(cost)}, which would take today's estimated spend of ${formatCost(spent)} over your ${formatCost(budget)} daily budget.`;
+    if (!window.confirm(`${message} Continue anyway?`)) {
+        throw new DOMException('The call was cancelled to stay within the daily budget.', 'AbortError');
+    }
+    acknowledgedOverrun = overrun;
+};
+
+/**
+ * Wraps a provider so that a call which would go over the daily budget first asks the user.
+ */
+export const withBudgetWarning = (provider: ImageProvider): ImageProvider => ({
+    ...provider,
+    generateImages: async request => {
+        await confirmWithinBudget(provider.models.generate, request.numberOfImages ?? 1);
+        return provider.generateImages(request);
+    },
+    editImage: async request => {
+        await confirmWithinBudget(provider.models.edit, 1);
+        return provider.editImage(request);
+    },
+});
@@ -0,0 +1,154 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// A minimal ZIP writer and reader. Entries are written uncompressed: the archives hold
+// images that are already compressed, so deflating them again gains little.
+
+export interface ZipEntry {
+    name: string;
+    data: Blob | string;
+    lastModified?: number;
+}
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+/**
+ * Computes the CRC-32 checksum used by ZIP and PNG.
+ */
+export const crc32 = (bytes: Uint8Array): number => {
+    let crc = 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) {
+        crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+// ZIP stores timestamps in MS-DOS format: local time with two-second resolution.
+const toDosDateTime = (timestamp: number): { date: number; time: number } => {
+    const d = new Date(timestamp);
+    return {
+        date: ((Math.max(d.getFullYear(), 1980) - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+        time: (d.getHours() << 11) | (d.getMinutes() << 5) | Math.floor(d.getSeconds() / 2),
+    };
+};
+
+const fromDosDateTime = (date: number, time: number): number =>
+    new Date(1980 + (date >> 9), ((date >> 5) & 0xf) - 1, date & 0x1f, time >> 11, (time >> 5) & 0x3f, (time & 0x1f) * 2).getTime();
+
+/**
+ * Packs files into a ZIP archive.
+ * @param entries The files to include. Names may contain `/` to create folders.
+ * @returns A promise that resolves to the archive as a Blob.
+ */
+export const createZip = async (entries: ZipEntry[]): Promise<Blob> => {
+    const encoder = new TextEncoder();
+    const parts: Uint8Array[] = [];
+    const centralDirectory: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const nameBytes = encoder.encode(entry.name);
+        const data = typeof entry.data === 'string'
+            ? encoder.encode(entry.data)
+            : new Uint8Array(await entry.data.arrayBuffer());
+        const crc = crc32(data);
+        const { date, time } = toDosDateTime(entry.lastModified ?? Date.now());
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, 0x04034b50, true);
+        local.setUint16(4, 20, true);
+        local.setUint16(6, 0x0800, true); // UTF-8 file names
+        local.setUint16(8, 0, true); // stored
+        local.setUint16(10, time, true);
+        local.setUint16(12, date, true);
+        local.setUint32(14, crc, true);
+        local.setUint32(18, data.length, true);
+        local.setUint32(22, data.length, true);
+        local.setUint16(26, nameBytes.length, true);
+        local.setUint16(28, 0, true);
+
+        const central = new DataView(new ArrayBuffer(46));
+        central.setUint32(0, 0x02014b50, true);
+        central.setUint16(4, 20, true);
+        central.setUint16(6, 20, true);
+        central.setUint16(8, 0x0800, true);
+        central.setUint16(10, 0, true);
+        central.setUint16(12, time, true);
+        central.setUint16(14, date, true);
+        central.setUint32(16, crc, true);
+        central.setUint32(20, data.length, true);
+        central.setUint32(24, data.length, true);
+        central.setUint16(28, nameBytes.length, true);
+        central.setUint32(42, offset, true);
+
+        parts.push(new Uint8Array(local.buffer), nameBytes, data);
+        centralDirectory.push(new Uint8Array(central.buffer), nameBytes);
+        offset += 30 + nameBytes.length + data.length;
+    }
+
+    const centralSize = centralDirectory.reduce((sum, part) => sum + part.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, entries.length, true);
+    end.setUint16(10, entries.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    return new Blob([...parts, ...centralDirectory, new Uint8Array(end.buffer)], { type: 'application/zip' });
+};
+
+/**
+ * Unpacks the files in a ZIP archive. Reads stored and deflated entries, which covers archives
+ * written by `createZip` and by common zip tools; folders are skipped.
+ * @throws If the file is not a ZIP archive, is damaged or uses another compression method.
+ */
+export const readZip = async (archive: Blob): Promise<{ name: string; data: Blob; lastModified: number }[]> => {
+    const bytes = new Uint8Array(await archive.arrayBuffer());
+    const view = new DataView(bytes.buffer);
+    // The end of central directory record closes the archive, followed only by an optional comment.
+    let end = bytes.length - 22;
+    while (end >= 0 && view.getUint32(end, true) !== 0x06054b50) end--;
+    if (end < 0) throw new Error('The file is not a ZIP archive.');
+
+    const decoder = new TextDecoder();
+    const entries: { name: string; data: Blob; lastModified: number }[] = [];
+    let offset = view.getUint32(end + 16, true);
+    for (let i = 0; i < view.getUint16(end + 10, true); i++) {
+        if (view.getUint32(offset, true) !== 0x02014b50) throw new Error('The ZIP archive is damaged.');
+        const method = view.getUint16(offset + 10, true);
+        const time = view.getUint16(offset + 12, true);
+        const date = view.getUint16(offset + 14, true);
+        const compressedSize = view.getUint32(offset + 20, true);
+        const nameLength = view.getUint16(offset + 28, true);
+        const localOffset = view.getUint32(offset + 42, true);
+        const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+        offset += 46 + nameLength + view.getUint16(offset + 30, true) + view.getUint16(offset + 32, true);
+        if (name.endsWith('/')) continue;
+
+        // The local header repeats the name and may carry a different extra field, so skip both by its own lengths.
+        const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+        const stored = new Blob([bytes.slice(start, start + compressedSize)]);
+        let data: Blob;
+        if (method === 0) {
+            data = stored;
+        } else if (method === 8) {
+            data = await new Response(stored.stream().pipeThrough(new DecompressionStream('deflate-raw'))).blob();
+        } else {
+            throw new Error(`${name} is compressed in a way this app cannot read.`);
+        }
+        entries.push({ name, data, lastModified: fromDosDateTime(date, time) });
+    }
+    return entries;
+};
@@ -2,3 +2,177 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+
+import type { Adjustments } from './services/adjustmentService';
+
+export type AspectRatio = '1:1' | '16:9' | '9:16' | '4:3' | '3:4';
+
+/** The kind of operation that produced an image. */
+export type ImageOperation = 'generate' | 'edit' | 'inpaint' | 'upscale' | 'filter' | 'aspect-ratio' | 'transform' | 'adjust' | 'place' | 'outpaint';
+
+/** What a reference image contributes to a multi-image composition. */
+export type ReferenceRole = 'subject' | 'style' | 'background' | 'other';
+
+/** A user-supplied image attached to a prompt. */
+export interface ReferenceImage {
+    id: string;
+    file: File;
+    /** Object URL for previews. Revoke it when the reference is removed. */
+    url: string;
+    role: ReferenceRole;
+}
+
+/** An image saved in the local library, as stored in IndexedDB. */
+export interface LibraryImage {
+    id: string;
+    blob: Blob;
+    mimeType: string;
+    width: number;
+    height: number;
+    prompt: string;
+    aspectRatio: AspectRatio;
+    operation: ImageOperation;
+    /** The image this one was derived from, or null for a new generation. */
+    parentId: string | null;
+    /** Groups the variants returned by one generation request; null for single results. */
+    batchId: string | null;
+    /** Position of the image within its batch. */
+    batchIndex: number;
+    /**
+     * The model calls that produced the image, oldest first; empty for edits made in the browser.
+     * Missing on images saved before calls were recorded.
+     */
+    generation?: GenerationMetadata[];
+    /**
+     * Layers stacked over the image, bottom first; the image itself is the background. They are
+     * only flattened into it for viewing and export. Missing on images saved before layers existed.
+     */
+    layers?: Layer[];
+    createdAt: number;
+}
+
+/** What one model call was asked to do and what it reported back. */
+export interface GenerationMetadata {
+    provider: string;
+    model: string;
+    kind: 'generate' | 'edit';
+    prompt: string;
+    /** The request options that shaped the output, such as the aspect ratio or number of references. */
+    config: Record<string, string | number | boolean | null>;
+    /** Time from sending the request to receiving the response, including retries. */
+    latencyMs: number;
+    /** Token counts are null where the model does not report them. */
+    usage: { inputTokens: number | null; outputTokens: number | null; images: number };
+    finishReason: string | null;
+    createdAt: number;
+}
+
+/** A recorded model call with its estimated cost, as stored in IndexedDB. */
+export interface UsageRecord extends GenerationMetadata {
+    id: string;
+    /** In US dollars, from list prices at the time of the call. */
+    estimatedCost: number;
+}
+
+/** A reusable prompt-based filter, as stored in IndexedDB. */
+export interface FilterPreset {
+    id: string;
+    name: string;
+    prompt: string;
+    /** A small JPEG data URL showing the filter applied to a sample image. */
+    thumbnail: string | null;
+    order: number;
+}
+
+/** A catalog product that can be placed into scenes, as stored in IndexedDB. */
+export interface Product {
+    id: string;
+    name: string;
+    description: string;
+    tags: string[];
+    /** A cutout of the product, ideally a PNG with a transparent background. */
+    image: Blob;
+    createdAt: number;
+}
+
+/**
+ * A prompt kept in the prompt library, as stored in IndexedDB. Prompts containing `{name}`
+ * placeholders are templates and are filled in before they are sent.
+ */
+export interface SavedPrompt {
+    id: string;
+    text: string;
+    /** Starred prompts are kept permanently; others are pruned as history grows. */
+    starred: boolean;
+    tags: string[];
+    useCount: number;
+    createdAt: number;
+    lastUsedAt: number;
+}
+
+/**
+ * A named workspace with its own images, prompt history, filter presets and products, as
+ * stored in IndexedDB.
+ */
+export interface Project {
+    id: string;
+    name: string;
+    createdAt: number;
+    /** When the project was last opened, or 0 if it never has been. */
+    lastOpenedAt: number;
+}
+
+/** How a layer's pixels combine with the layers below it; the names are those of canvas compositing. */
+export type BlendMode =
+    'normal' | 'multiply' | 'screen' | 'overlay' | 'darken' | 'lighten' | 'color-dodge' | 'color-burn' | 'soft-light' | 'difference' | 'luminosity';
+
+interface LayerBase {
+    id: string;
+    name: string;
+    visible: boolean;
+    /** Between 0 and 1. */
+    opacity: number;
+    blendMode: BlendMode;
+}
+
+/**
+ * Where a layer sits on the canvas. Positions are relative to the canvas size, so layers keep
+ * their place in the frame when the background is resized.
+ */
+export interface LayerPlacement {
+    /** The layer's centre, as a fraction of the canvas width. */
+    x: number;
+    /** The layer's centre, as a fraction of the canvas height. */
+    y: number;
+    scale: number;
+    /** Clockwise rotation in degrees. */
+    rotation: number;
+}
+
+/** A picture on its own layer, such as a product cutout or a generated object. */
+export interface ImageLayer extends LayerBase, LayerPlacement {
+    kind: 'image';
+    image: Blob;
+    naturalWidth: number;
+    naturalHeight: number;
+    /** The layer's width at a scale of 1, as a fraction of the canvas width. */
+    width: number;
+}
+
+export interface TextLayer extends LayerBase, LayerPlacement {
+    kind: 'text';
+    text: string;
+    /** A CSS colour. */
+    color: string;
+    fontFamily: string;
+    /** The font size at a scale of 1, as a fraction of the canvas height. */
+    fontSize: number;
+}
+
+/** Tonal and colour adjustments applied to everything below the layer. */
+export interface AdjustmentLayer extends LayerBase {
+    kind: 'adjustment';
+    adjustments: Adjustments;
+}
+
+export type Layer = ImageLayer | TextLayer | AdjustmentLayer;
@@ -1,12 +1,47 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { defineConfig, loadEnv, Plugin } from 'vite';
+
+// Static files served from public/ that belong to the app shell.
+const publicShellFiles = [
+    '/manifest.webmanifest',
+    '/icons/icon.svg',
+    '/icons/icon-maskable.svg',
+];
+
+/**
+ * Emits /sw.js from the service-worker.js template, filling in the list of
+ * bundled files to precache and a cache version derived from their contents.
+ */
+const serviceWorkerPlugin = (): Plugin => ({
+    name: 'app-shell-service-worker',
+    apply: 'build',
+    enforce: 'post',
+    generateBundle(_options, bundle) {
+        const hash = createHash('sha256');
+        const bundledFiles = Object.keys(bundle).sort();
+        for (const fileName of bundledFiles) {
+            const output = bundle[fileName];
+            hash.update(fileName);
+            hash.update(output.type === 'chunk' ? output.code : output.source);
+        }
+        const precacheUrls = ['/', ...bundledFiles.map(fileName => `/${fileName}`), ...publicShellFiles];
+        const source = readFileSync(path.resolve(__dirname, 'service-worker.js'), 'utf-8')
+            .replace('__CACHE_VERSION__', hash.digest('hex').slice(0, 12))
+            .replace('__PRECACHE_URLS__', JSON.stringify(precacheUrls));
+        this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+    },
+});
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
+      plugins: [serviceWorkerPlugin()],
+      // The API key is entered at runtime in Settings; never define it here, or it ends up in the bundle.
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.IMAGE_PROVIDER': JSON.stringify(env.IMAGE_PROVIDER),
+        'process.env.GEMINI_PROXY_URL': JSON.stringify(env.GEMINI_PROXY_URL)
       },
       resolve: {
         alias: {